@@ -0,0 +1,10 @@
+import { clerkSetup } from "@clerk/testing/playwright";
+import { startMockAgentServer } from "./mock-agent-server";
+import { MOCK_AGENT_PORT } from "../playwright.config";
+
+/** Fetch a Clerk testing token and start the mock agent backend */
+export default async function globalSetup() {
+  if (process.env.E2E_CLERK_USER_EMAIL) await clerkSetup();
+  const server = await startMockAgentServer(MOCK_AGENT_PORT);
+  return () => new Promise<void>(resolve => server.close(() => resolve()));
+}
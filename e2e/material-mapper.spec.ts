@@ -0,0 +1,96 @@
+import { expect, test, Page } from "@playwright/test";
+import { clerk } from "@clerk/testing/playwright";
+import { MAPPER_FIXTURE, MAPPER_FIXTURE_STRATEGY } from "@/lib/material-mapper/fixture";
+import { MOCK_AGENT_PORT } from "../playwright.config";
+
+const email = process.env.E2E_CLERK_USER_EMAIL;
+
+test.skip(!email, "Set E2E_CLERK_USER_EMAIL to a Clerk test user to run the end-to-end tests");
+
+async function configureMock(page: Page, config: Record<string, string | number>) {
+  const response = await page.request.post(`http://localhost:${MOCK_AGENT_PORT}/__config`, {
+    data: { delayMs: 50, ...config },
+  });
+  expect(response.ok()).toBe(true);
+}
+
+async function analyze(page: Page) {
+  await page.goto("/");
+  await clerk.signIn({ page, emailAddress: email! });
+  await page.goto("/dashboard/tools/material-mapper");
+  await page.getByPlaceholder(/solar panels on the roof/).fill(MAPPER_FIXTURE_STRATEGY);
+  await page.getByRole("button", { name: "Analyze" }).click();
+}
+
+const counts = {
+  materials: MAPPER_FIXTURE.extracted_materials.length,
+  flows: MAPPER_FIXTURE.matched_bmfs.length,
+  roles: MAPPER_FIXTURE.role_analyses.length,
+};
+
+test("streams a run to completion", async ({ page }) => {
+  await configureMock(page, { delayMs: 300, chunks: 4 });
+  await analyze(page);
+
+  // Progress shows the parallel stage 2 chunks while streaming
+  await expect(page.getByText(/Chunk \d of 4/)).toBeVisible();
+  await expect(page.getByText(`Extracted Materials (${counts.materials})`)).toBeVisible();
+
+  await expect(page.getByRole("button", { name: "Save to Projects" })).toBeVisible({ timeout: 15_000 });
+  await expect(page.getByText(`Matched Flows (${counts.flows})`)).toBeVisible();
+  await expect(page.getByText(`Building Roles (${counts.roles})`)).toBeVisible();
+  await expect(page.getByRole("button", { name: "Analyze" })).toBeEnabled();
+});
+
+test("shows the agent's error and keeps partial results", async ({ page }) => {
+  await configureMock(page, { failAt: "stage3_start", errorMessage: "Neo4j is unavailable" });
+  await analyze(page);
+
+  await expect(page.getByText("Neo4j is unavailable")).toBeVisible();
+  await expect(page.getByText(`Extracted Materials (${counts.materials})`)).toBeVisible();
+  await expect(page.getByText(`Matched Flows (${counts.flows})`)).toBeVisible();
+  await expect(page.getByRole("button", { name: "Save to Projects" })).toHaveCount(0);
+});
+
+test("skips malformed events and warns about them", async ({ page }) => {
+  await configureMock(page, { malformed: 3 });
+  await analyze(page);
+
+  await expect(page.getByRole("button", { name: "Save to Projects" })).toBeVisible({ timeout: 15_000 });
+  await expect(page.getByText("3 malformed stream events were skipped.")).toBeVisible();
+});
+
+test("reconnects after a dropped stream and resumes", async ({ page }) => {
+  await configureMock(page, { dropAfter: 4 });
+  await analyze(page);
+
+  await expect(page.getByText(/reconnecting in/)).toBeVisible();
+  await expect(page.getByRole("button", { name: "Save to Projects" })).toBeVisible({ timeout: 15_000 });
+  await expect(page.getByText(`Matched Flows (${counts.flows})`)).toBeVisible();
+});
+
+test("can be cancelled mid-run", async ({ page }) => {
+  await configureMock(page, { delayMs: 500 });
+  await analyze(page);
+
+  await expect(page.getByText(/Chunk \d of 4/)).toBeVisible();
+  await page.getByRole("button", { name: "Cancel" }).click();
+  await expect(page.getByText(/Analysis cancelled during flow matching/)).toBeVisible();
+});
+
+test("loads a batch of strategies and runs it", async ({ page }) => {
+  await configureMock(page, {});
+  await page.goto("/");
+  await clerk.signIn({ page, emailAddress: email! });
+  await page.goto("/dashboard/tools/material-mapper/batch");
+  await page.getByPlaceholder(/One strategy per line/).fill(`${MAPPER_FIXTURE_STRATEGY}\n${MAPPER_FIXTURE_STRATEGY}`);
+  await page.getByRole("button", { name: "Load strategies" }).click();
+
+  await expect(page.getByText("Not started")).toHaveCount(2);
+  await expect(page.getByRole("button", { name: "Clear" })).toBeVisible();
+  await page.getByRole("button", { name: "Run 2" }).click();
+
+  await expect(page.getByText("2/2 finished")).toBeVisible({ timeout: 15_000 });
+  await expect(page.getByRole("button", { name: "Summary CSV" })).toBeVisible();
+  await expect(page.getByRole("button", { name: "Cancel" })).toHaveCount(0);
+});
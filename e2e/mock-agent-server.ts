@@ -0,0 +1,83 @@
+import http from "http";
+import { mockEventStream, parseMockConfig, MockAgentConfig } from "@/lib/agents/mock";
+import { MATERIAL_MAPPER_AGENT_ID } from "@/lib/material-mapper/client";
+import { mapperFixtureEvents } from "@/lib/material-mapper/fixture";
+
+/**
+ * Standalone mock of the agent backend for the end-to-end tests, serving the
+ * same fixtures as the in-app `/api/mock` route on its own port, as the real
+ * backend would. Tests change its behaviour with `POST /__config`.
+ */
+
+const STREAM_PATH = `/v1/agents/${MATERIAL_MAPPER_AGENT_ID}/invoke/stream`;
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, Last-Event-ID, Accept",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+const readBody = (req: http.IncomingMessage) =>
+  new Promise<string>(resolve => {
+    let body = "";
+    req.on("data", chunk => (body += chunk));
+    req.on("end", () => resolve(body));
+  });
+
+const parseJson = (text: string) => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+};
+
+export function startMockAgentServer(port: number): Promise<http.Server> {
+  let config: MockAgentConfig = parseMockConfig(() => undefined);
+
+  const server = http.createServer(async (req, res) => {
+    if (req.method === "OPTIONS") {
+      res.writeHead(204, CORS_HEADERS).end();
+      return;
+    }
+
+    // Replace the config for subsequent runs; unset keys get the defaults
+    if (req.method === "POST" && req.url === "/__config") {
+      const values = parseJson(await readBody(req)) ?? {};
+      config = parseMockConfig(key => (values[key] === undefined ? undefined : String(values[key])));
+      res.writeHead(200, { "Content-Type": "application/json" }).end(JSON.stringify(config));
+      return;
+    }
+
+    if (req.method !== "POST" || req.url !== STREAM_PATH) {
+      res.writeHead(404, CORS_HEADERS).end();
+      return;
+    }
+
+    const body = parseJson(await readBody(req));
+    if (config.status) {
+      res.writeHead(config.status, { ...CORS_HEADERS, "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Injected failure" }));
+      return;
+    }
+
+    const controller = new AbortController();
+    res.on("close", () => controller.abort());
+    const lastEventId = req.headers["last-event-id"];
+    const stream = mockEventStream(mapperFixtureEvents(body?.inputs ?? {}, config), config, {
+      lastEventId: typeof lastEventId === "string" ? lastEventId : null,
+      signal: controller.signal,
+    });
+
+    res.writeHead(200, { ...CORS_HEADERS, "Content-Type": "text/event-stream", "Cache-Control": "no-cache" });
+    const reader = stream.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      res.write(value);
+    }
+    res.end();
+  });
+
+  return new Promise(resolve => server.listen(port, () => resolve(server)));
+}
@@ -0,0 +1,35 @@
+import { defineConfig, devices } from "@playwright/test";
+
+/**
+ * End-to-end tests run the app against a local mock of the agent backend
+ * (see e2e/mock-agent-server.ts). Signing in needs a Clerk development
+ * instance: set NEXT_PUBLIC_CLERK_PUBLISHABLE_KEY, CLERK_SECRET_KEY and
+ * E2E_CLERK_USER_EMAIL (an existing test user).
+ */
+
+export const MOCK_AGENT_PORT = 8787;
+const APP_PORT = 3100;
+
+export default defineConfig({
+  testDir: "./e2e",
+  globalSetup: "./e2e/global-setup.ts",
+  fullyParallel: false,
+  workers: 1,
+  retries: process.env.CI ? 1 : 0,
+  use: {
+    baseURL: `http://localhost:${APP_PORT}`,
+    trace: "retain-on-failure",
+  },
+  projects: [{ name: "chromium", use: { ...devices["Desktop Chrome"] } }],
+  webServer: {
+    command: `npx next dev --port ${APP_PORT}`,
+    url: `http://localhost:${APP_PORT}`,
+    reuseExistingServer: !process.env.CI,
+    timeout: 120_000,
+    env: {
+      NEXT_PUBLIC_API_URL: `http://localhost:${MOCK_AGENT_PORT}`,
+      NEXT_PUBLIC_MOCK_AGENTS: "false",
+      STORAGE_BACKEND: "memory",
+    },
+  },
+});
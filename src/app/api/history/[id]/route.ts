@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { currentWorkspace } from "@/lib/auth/workspace";
+import { getRun } from "@/lib/history/store";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function GET(_request: Request, { params }: Params) {
+  const workspace = await currentWorkspace();
+  if (!workspace) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const run = await getRun(workspace, id);
+  if (!run) {
+    return NextResponse.json({ error: "Run not found" }, { status: 404 });
+  }
+  return NextResponse.json({ run });
+}
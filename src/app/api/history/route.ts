@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server";
+import { currentWorkspace, forbiddenResponse } from "@/lib/auth/workspace";
+import { listRuns, recordRun } from "@/lib/history/store";
+import { mapperInputs, mapperResult } from "@/lib/material-mapper/schema";
+import type { RecordRunInput } from "@/lib/history/types";
+import { number, object, oneOf, string } from "@/lib/validation";
+
+export async function GET() {
+  const workspace = await currentWorkspace();
+  if (!workspace) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  return NextResponse.json({ runs: await listRuns(workspace) });
+}
+
+export async function POST(request: Request) {
+  const workspace = await currentWorkspace();
+  if (!workspace) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const input = parseRecordRunInput(body);
+  if (!input) {
+    return NextResponse.json({ error: "Invalid run" }, { status: 400 });
+  }
+
+  try {
+    const run = await recordRun(workspace, input);
+    return NextResponse.json({ run }, { status: 201 });
+  } catch (err) {
+    return forbiddenResponse(err);
+  }
+}
+
+const recordRunFields = object({
+  inputs: mapperInputs,
+  status: oneOf(["complete", "error", "cancelled", "interrupted"] as const),
+  counts: object({ materials: number, flows: number, services: number, roles: number }),
+});
+
+function parseRecordRunInput(body: unknown): RecordRunInput | null {
+  try {
+    const input = recordRunFields(body, "run");
+    const { error, result, parentId } = body as Record<string, unknown>;
+    return {
+      ...input,
+      error: typeof error === "string" ? error : null,
+      result: result == null ? null : mapperResult(result, "run.result"),
+      parentId: typeof parentId === "string" ? parentId : null,
+    };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { MockAgentConfig, MockEvent, mockAgentsEnabled, mockConfigFromRequest, mockEventStream } from "@/lib/agents/mock";
+import { MATERIAL_MAPPER_AGENT_ID } from "@/lib/material-mapper/client";
+import { mapperFixtureEvents } from "@/lib/material-mapper/fixture";
+
+type Params = { params: Promise<{ agentId: string }> };
+
+// Recorded fixtures by agent id
+const FIXTURES: Record<string, (inputs: Record<string, unknown>, config: MockAgentConfig) => MockEvent[]> = {
+  [MATERIAL_MAPPER_AGENT_ID]: mapperFixtureEvents,
+};
+
+export async function POST(request: Request, { params }: Params) {
+  if (!mockAgentsEnabled()) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const { agentId } = await params;
+  const fixture = FIXTURES[agentId];
+  if (!fixture) {
+    return NextResponse.json({ error: `No mock fixture for ${agentId}` }, { status: 404 });
+  }
+
+  const config = mockConfigFromRequest(request);
+  if (config.status) {
+    return NextResponse.json({ error: "Injected failure from the mock agent backend" }, { status: config.status });
+  }
+
+  const body = await request.json().catch(() => null);
+  const inputs = body?.inputs && typeof body.inputs === "object" ? body.inputs : {};
+  const stream = mockEventStream(fixture(inputs, config), config, {
+    lastEventId: request.headers.get("Last-Event-ID"),
+    signal: request.signal,
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    },
+  });
+}
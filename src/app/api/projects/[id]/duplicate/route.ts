@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { currentWorkspace, forbiddenResponse } from "@/lib/auth/workspace";
+import { duplicateProject } from "@/lib/projects/store";
+
+export async function POST(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const workspace = await currentWorkspace();
+  if (!workspace) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  try {
+    const project = await duplicateProject(workspace, id);
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+    return NextResponse.json({ project }, { status: 201 });
+  } catch (err) {
+    return forbiddenResponse(err);
+  }
+}
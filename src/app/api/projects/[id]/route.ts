@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server";
+import { currentWorkspace, forbiddenResponse } from "@/lib/auth/workspace";
+import { deleteProject, getProject, updateProject } from "@/lib/projects/store";
+import { resultAnnotations } from "@/lib/material-mapper/schema";
+import { optional } from "@/lib/validation";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function GET(_request: Request, { params }: Params) {
+  const workspace = await currentWorkspace();
+  if (!workspace) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const project = await getProject(workspace, id);
+  if (!project) {
+    return NextResponse.json({ error: "Project not found" }, { status: 404 });
+  }
+  return NextResponse.json({ project });
+}
+
+export async function PATCH(request: Request, { params }: Params) {
+  const workspace = await currentWorkspace();
+  if (!workspace) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const title = body?.title;
+  if (title !== undefined && (typeof title !== "string" || !title.trim())) {
+    return NextResponse.json({ error: "Invalid title" }, { status: 400 });
+  }
+
+  let annotations;
+  try {
+    annotations = optional(resultAnnotations)(body?.annotations, "annotations");
+  } catch {
+    return NextResponse.json({ error: "Invalid annotations" }, { status: 400 });
+  }
+
+  const { id } = await params;
+  try {
+    const project = await updateProject(workspace, id, { title: title?.trim(), annotations });
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+    return NextResponse.json({ project });
+  } catch (err) {
+    return forbiddenResponse(err);
+  }
+}
+
+export async function DELETE(_request: Request, { params }: Params) {
+  const workspace = await currentWorkspace();
+  if (!workspace) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  try {
+    const deleted = await deleteProject(workspace, id);
+    if (!deleted) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+    return new NextResponse(null, { status: 204 });
+  } catch (err) {
+    return forbiddenResponse(err);
+  }
+}
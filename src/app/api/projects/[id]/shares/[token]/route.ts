@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { currentWorkspace, forbiddenResponse } from "@/lib/auth/workspace";
+import { revokeShare, updateShare } from "@/lib/shares/store";
+import { parseExpiresAt } from "@/lib/shares/links";
+
+type Params = { params: Promise<{ id: string; token: string }> };
+
+export async function PATCH(request: Request, { params }: Params) {
+  const workspace = await currentWorkspace();
+  if (!workspace) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const expiresAt = parseExpiresAt(body?.expiresAt);
+  if (expiresAt === undefined) {
+    return NextResponse.json({ error: "Invalid expiry" }, { status: 400 });
+  }
+
+  const { id, token } = await params;
+  try {
+    const share = await updateShare(workspace, id, token, { expiresAt });
+    if (!share) {
+      return NextResponse.json({ error: "Share link not found" }, { status: 404 });
+    }
+    return NextResponse.json({ share });
+  } catch (err) {
+    return forbiddenResponse(err);
+  }
+}
+
+/** Revokes the link; it stays listed so the owner can see it was shared */
+export async function DELETE(_request: Request, { params }: Params) {
+  const workspace = await currentWorkspace();
+  if (!workspace) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id, token } = await params;
+  try {
+    const share = await revokeShare(workspace, id, token);
+    if (!share) {
+      return NextResponse.json({ error: "Share link not found" }, { status: 404 });
+    }
+    return NextResponse.json({ share });
+  } catch (err) {
+    return forbiddenResponse(err);
+  }
+}
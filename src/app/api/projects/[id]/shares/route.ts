@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import { currentWorkspace, forbiddenResponse } from "@/lib/auth/workspace";
+import { createShare, listShares } from "@/lib/shares/store";
+import { parseExpiresAt } from "@/lib/shares/links";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function GET(_request: Request, { params }: Params) {
+  const workspace = await currentWorkspace();
+  if (!workspace) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const shares = await listShares(workspace, id);
+  if (!shares) {
+    return NextResponse.json({ error: "Project not found" }, { status: 404 });
+  }
+  return NextResponse.json({ shares });
+}
+
+export async function POST(request: Request, { params }: Params) {
+  const workspace = await currentWorkspace();
+  if (!workspace) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const expiresAt = parseExpiresAt(body?.expiresAt);
+  if (expiresAt === undefined) {
+    return NextResponse.json({ error: "Invalid expiry" }, { status: 400 });
+  }
+
+  const { id } = await params;
+  try {
+    const share = await createShare(workspace, id, { expiresAt });
+    if (!share) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+    return NextResponse.json({ share }, { status: 201 });
+  } catch (err) {
+    return forbiddenResponse(err);
+  }
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { currentWorkspace, forbiddenResponse } from "@/lib/auth/workspace";
+import { createProject, listProjects } from "@/lib/projects/store";
+import { mapperResult } from "@/lib/material-mapper/schema";
+import type { CreateProjectInput } from "@/lib/projects/types";
+
+export async function GET() {
+  const workspace = await currentWorkspace();
+  if (!workspace) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  return NextResponse.json({ projects: await listProjects(workspace) });
+}
+
+export async function POST(request: Request) {
+  const workspace = await currentWorkspace();
+  if (!workspace) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const input = parseCreateProjectInput(body);
+  if (!input) {
+    return NextResponse.json({ error: "Invalid project" }, { status: 400 });
+  }
+
+  try {
+    const project = await createProject(workspace, input);
+    return NextResponse.json({ project }, { status: 201 });
+  } catch (err) {
+    return forbiddenResponse(err);
+  }
+}
+
+function parseCreateProjectInput(body: unknown): CreateProjectInput | null {
+  if (!body || typeof body !== "object") return null;
+  const { title, strategy, result } = body as Record<string, unknown>;
+
+  if (typeof title !== "string" || !title.trim()) return null;
+  if (typeof strategy !== "string") return null;
+
+  try {
+    return { title: title.trim(), strategy, result: mapperResult(result, "result") };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { currentWorkspace, forbiddenResponse } from "@/lib/auth/workspace";
+import { getBudgetStatus, setBudget } from "@/lib/usage/store";
+
+export async function GET() {
+  const workspace = await currentWorkspace();
+  if (!workspace) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  return NextResponse.json({ budget: await getBudgetStatus(workspace) });
+}
+
+export async function PUT(request: Request) {
+  const workspace = await currentWorkspace();
+  if (!workspace) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  // null clears the workspace budget
+  const body = await request.json().catch(() => null);
+  const monthlyUsd = body?.monthlyUsd;
+  if (monthlyUsd !== null && (typeof monthlyUsd !== "number" || !(monthlyUsd > 0))) {
+    return NextResponse.json({ error: "Invalid budget" }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json({ budget: await setBudget(workspace, monthlyUsd) });
+  } catch (err) {
+    return forbiddenResponse(err);
+  }
+}
@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+import { currentWorkspace, forbiddenResponse } from "@/lib/auth/workspace";
+import { getBudgetStatus, listUsage, logUsage } from "@/lib/usage/store";
+import { summarizeUsage } from "@/lib/usage/metrics";
+import { PIPELINE_STAGES } from "@/lib/material-mapper/timeline";
+import type { LogUsageInput, UsageScope } from "@/lib/usage/types";
+import { number, object, oneOf, string } from "@/lib/validation";
+
+export async function GET(request: Request) {
+  const workspace = await currentWorkspace();
+  if (!workspace) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const scope: UsageScope = new URL(request.url).searchParams.get("scope") === "workspace" ? "workspace" : "me";
+  const [records, budget] = await Promise.all([listUsage(workspace, scope), getBudgetStatus(workspace)]);
+  return NextResponse.json({ summary: summarizeUsage(records), budget });
+}
+
+export async function POST(request: Request) {
+  const workspace = await currentWorkspace();
+  if (!workspace) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const input = parseLogUsageInput(body);
+  if (!input) {
+    return NextResponse.json({ error: "Invalid usage record" }, { status: 400 });
+  }
+
+  try {
+    const record = await logUsage(workspace, input);
+    return NextResponse.json({ record }, { status: 201 });
+  } catch (err) {
+    return forbiddenResponse(err);
+  }
+}
+
+const logUsageInput = object({
+  strategy: string,
+  source: oneOf(["mapper", "batch"] as const),
+  costUsd: number,
+  processingTimeMs: number,
+});
+
+function parseLogUsageInput(body: unknown): LogUsageInput | null {
+  try {
+    const input = logUsageInput(body, "usage");
+    if (input.costUsd < 0 || input.processingTimeMs < 0) return null;
+
+    // Keep only known stages with sensible durations
+    const raw = (body as Record<string, unknown>).stageMs;
+    const stageMs: LogUsageInput["stageMs"] = {};
+    for (const stage of PIPELINE_STAGES) {
+      const ms = raw && typeof raw === "object" ? (raw as Record<string, unknown>)[stage] : undefined;
+      if (typeof ms === "number" && ms >= 0) stageMs[stage] = ms;
+    }
+    return { ...input, stageMs };
+  } catch {
+    return null;
+  }
+}
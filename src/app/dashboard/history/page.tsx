@@ -0,0 +1,190 @@
+"use client";
+
+import { useState, useEffect, useCallback, useMemo } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { History, Loader2, AlertCircle, RotateCcw, FolderOpen, GitBranch, GitCommitHorizontal } from "lucide-react";
+import { VersionStepper } from "@/components/history/VersionStepper";
+import { useMapperRun } from "@/components/material-mapper/MapperRunProvider";
+import { BudgetWarning } from "@/components/usage/BudgetWarning";
+import { fetchRunHistory } from "@/lib/history/client";
+import { versionChain } from "@/lib/history/versions";
+import { fetchBudgetStatus, overBudgetMessage } from "@/lib/usage/client";
+import type { RunHistorySummary, RunStatus } from "@/lib/history/types";
+import type { BudgetStatus } from "@/lib/usage/types";
+import { useWorkspace } from "@/lib/auth/useWorkspace";
+
+const MAPPER_PATH = "/dashboard/tools/material-mapper";
+
+const STATUS_BADGES: Record<RunStatus, string> = {
+  complete: "text-green-700 bg-green-50",
+  error: "text-red-700 bg-red-50",
+  cancelled: "text-gray-500 bg-gray-100",
+  interrupted: "text-amber-700 bg-amber-50",
+};
+
+export default function HistoryPage() {
+  const router = useRouter();
+  const { state, dispatch, start } = useMapperRun();
+  const [runs, setRuns] = useState<RunHistorySummary[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [budget, setBudget] = useState<BudgetStatus | null>(null);
+  const workspace = useWorkspace();
+  const canRun = workspace.can("runAnalyses") && !state.isLoading;
+
+  // Reload whenever the mapper records a run, even one finishing while this page is open
+  useEffect(() => {
+    fetchRunHistory()
+      .then(setRuns)
+      .catch(err => setError(err instanceof Error ? err.message : "Failed to load history"));
+  }, [state.historyId]);
+
+  useEffect(() => {
+    fetchBudgetStatus().then(setBudget).catch(() => setBudget(null));
+  }, []);
+
+  const chains = useMemo(
+    () => new Map((runs ?? []).map(run => [run.id, versionChain(runs ?? [], run.id)])),
+    [runs]
+  );
+
+  // Repeat the run exactly; it becomes the next version of this one
+  const handleRerun = useCallback((run: RunHistorySummary) => {
+    if (budget?.exceeded && !confirm(overBudgetMessage(budget))) return;
+    dispatch({ type: "fork", run });
+    start(run.inputs, null, { asVersion: true });
+    router.push(MAPPER_PATH);
+  }, [budget, dispatch, start, router]);
+
+  const handleFork = useCallback((run: RunHistorySummary) => {
+    dispatch({ type: "fork", run });
+    router.push(MAPPER_PATH);
+  }, [dispatch, router]);
+
+  const actionClass =
+    "p-1.5 text-gray-400 hover:text-gray-600 rounded hover:bg-gray-100 disabled:text-gray-200 disabled:hover:bg-transparent transition-colors";
+
+  const renderActions = (run: RunHistorySummary) => (
+    <>
+      {run.hasResult && !state.isLoading && (
+        // The mapper loads the stored result, where it can be saved or exported
+        <Link href={`${MAPPER_PATH}?run=${run.id}`} className={actionClass} title="Open result">
+          <FolderOpen size={16} />
+        </Link>
+      )}
+      {workspace.can("runAnalyses") && (
+        <>
+          <button onClick={() => handleRerun(run)} disabled={!canRun} className={actionClass} title="Re-run">
+            <RotateCcw size={16} />
+          </button>
+          <button onClick={() => handleFork(run)} disabled={!canRun} className={actionClass} title="Edit as new version">
+            <GitBranch size={16} />
+          </button>
+        </>
+      )}
+    </>
+  );
+
+  return (
+    <div className="p-8 max-w-4xl">
+      <header className="mb-10">
+        <h1 className="text-xl font-mono text-gray-800 mb-2">History</h1>
+        <p className="text-sm font-mono text-gray-500">
+          Every strategy you have analyzed, with its versions.
+        </p>
+      </header>
+
+      <BudgetWarning budget={budget} />
+
+      {error && (
+        <div className="p-4 mb-6 bg-red-50 border border-red-200 rounded-lg flex items-start gap-3">
+          <AlertCircle size={18} className="text-red-600 mt-0.5" />
+          <p className="font-mono text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
+      {state.isLoading && (
+        <p className="mb-6 text-xs font-mono text-gray-400">
+          A run is in progress; it will appear here once it has finished.
+        </p>
+      )}
+
+      {runs === null && !error && (
+        <div className="flex items-center gap-2 text-sm font-mono text-gray-400">
+          <Loader2 size={16} className="animate-spin" />
+          Loading history...
+        </div>
+      )}
+
+      {runs?.length === 0 && (
+        <div className="flex flex-col items-center justify-center py-16 text-center">
+          <div className="w-16 h-16 rounded-full bg-gray-100 flex items-center justify-center mb-4">
+            <History size={28} className="text-gray-400" strokeWidth={1.5} />
+          </div>
+          <p className="font-mono text-gray-500 mb-2">No runs yet</p>
+          <p className="text-sm font-mono text-gray-400">
+            Strategies will appear here as you analyze them.
+          </p>
+        </div>
+      )}
+
+      {runs && runs.length > 0 && (
+        <div className="grid gap-3">
+          {runs.map((run) => {
+            const chain = chains.get(run.id);
+            const versions = chain?.versions.length ?? 1;
+
+            return (
+              <div
+                key={run.id}
+                className="p-4 border border-gray-200 rounded-lg hover:border-gray-300 transition-colors group"
+              >
+                <div className="flex items-start gap-4">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 mb-1">
+                      <span className={`text-xs font-mono px-2 py-0.5 rounded ${STATUS_BADGES[run.status]}`}>
+                        {run.status}
+                      </span>
+                      {versions > 1 && chain && (
+                        <button
+                          onClick={() => setExpandedId(expandedId === run.id ? null : run.id)}
+                          className="flex items-center gap-1 text-xs font-mono text-gray-400 hover:text-gray-600 transition-colors"
+                          title="Step through versions"
+                        >
+                          <GitCommitHorizontal size={14} />
+                          v{chain.index + 1} of {versions}
+                        </button>
+                      )}
+                      <span className="text-xs font-mono text-gray-400">
+                        {new Date(run.createdAt).toLocaleString()}
+                      </span>
+                    </div>
+                    <p className="font-mono text-sm text-gray-800 truncate" title={run.strategy}>
+                      {run.strategy}
+                    </p>
+                    <p className="mt-2 text-xs font-mono text-gray-400">
+                      {run.counts.materials} materials · {run.counts.flows} flows · {run.counts.services} services · {run.counts.roles} roles
+                      {run.costUsd !== null && <span className="ml-3">${run.costUsd.toFixed(4)}</span>}
+                    </p>
+                    {run.error && (
+                      <p className="mt-1 text-xs font-mono text-red-600 truncate">{run.error}</p>
+                    )}
+                  </div>
+
+                  <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                    {renderActions(run)}
+                  </div>
+                </div>
+
+                {expandedId === run.id && chain && (
+                  <VersionStepper chain={chain} renderActions={renderActions} />
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,6 @@
 import { SideNav } from "@/components/SideNav";
+import { WorkspaceBoundary } from "@/components/WorkspaceBoundary";
+import { MapperRunProvider } from "@/components/material-mapper/MapperRunProvider";
 
 export default function DashboardLayout({
   children,
@@ -6,11 +8,13 @@ export default function DashboardLayout({
   children: React.ReactNode;
 }) {
   return (
-    <div className="min-h-screen bg-white">
-      <SideNav />
-      <main className="ml-16 min-h-screen">
-        {children}
-      </main>
-    </div>
+    <MapperRunProvider>
+      <div className="min-h-screen bg-white">
+        <SideNav />
+        <main className="ml-16 min-h-screen">
+          <WorkspaceBoundary>{children}</WorkspaceBoundary>
+        </main>
+      </div>
+    </MapperRunProvider>
   );
 }
@@ -0,0 +1,100 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import { ArrowLeft, Loader2, AlertCircle } from "lucide-react";
+import { MapperResults } from "@/components/material-mapper/MapperResults";
+import { ExportMenu } from "@/components/material-mapper/ExportMenu";
+import { CompareWithProject } from "@/components/material-mapper/CompareWithProject";
+import { ShareDialog } from "@/components/projects/ShareDialog";
+import { fetchProject, saveAnnotations } from "@/lib/projects/client";
+import type { Project } from "@/lib/projects/types";
+import type { ResultAnnotations } from "@/lib/material-mapper/types";
+import { useWorkspace } from "@/lib/auth/useWorkspace";
+
+export default function ProjectPage() {
+  const { id } = useParams<{ id: string }>();
+  const [project, setProject] = useState<Project | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const workspace = useWorkspace();
+
+  useEffect(() => {
+    fetchProject(id)
+      .then(setProject)
+      .catch(err => setError(err instanceof Error ? err.message : "Failed to load project"));
+  }, [id]);
+
+  // Show the change immediately rather than waiting for the save; saves are
+  // queued so quick successive edits reach the server in order
+  const handleAnnotationsChange = useCallback((annotations: ResultAnnotations) => {
+    setProject(prev => prev && { ...prev, result: { ...prev.result, annotations } });
+    saveAnnotations(id, annotations)
+      .catch(err => setError(err instanceof Error ? err.message : "Failed to save annotations"));
+  }, [id]);
+
+  return (
+    <div className="p-8 max-w-5xl">
+      <Link
+        href="/dashboard/projects"
+        className="inline-flex items-center gap-1 mb-6 text-xs font-mono text-gray-400 hover:text-gray-600 transition-colors"
+      >
+        <ArrowLeft size={14} />
+        Projects
+      </Link>
+
+      {error && (
+        <div className="p-4 mb-6 bg-red-50 border border-red-200 rounded-lg flex items-start gap-3">
+          <AlertCircle size={18} className="text-red-600 mt-0.5" />
+          <p className="font-mono text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
+      {!project && !error && (
+        <div className="flex items-center gap-2 text-sm font-mono text-gray-400">
+          <Loader2 size={16} className="animate-spin" />
+          Loading project...
+        </div>
+      )}
+
+      {project && (
+        <>
+          <header className="mb-8 flex items-start justify-between gap-4">
+            <div>
+              <h1 className="text-xl font-mono text-gray-800 mb-2">{project.title}</h1>
+              <p className="text-xs font-mono text-gray-400">
+                Material Mapper · saved {new Date(project.createdAt).toLocaleString()}
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <ShareDialog projectId={project.id} canManage={workspace.can("shareProjects")} />
+              <ExportMenu title={project.title} strategy={project.strategy} result={project.result} />
+            </div>
+          </header>
+
+          <section className="mb-8">
+            <h2 className="text-sm font-mono text-gray-400 uppercase tracking-wider mb-4">
+              Strategy
+            </h2>
+            <p className="p-4 font-mono text-sm text-gray-700 bg-gray-50 border border-gray-200 rounded-lg whitespace-pre-wrap">
+              {project.strategy}
+            </p>
+          </section>
+
+          <div className="mb-8 flex flex-wrap">
+            <CompareWithProject
+              current={{ label: project.title, result: project.result }}
+              excludeProjectId={project.id}
+            />
+          </div>
+
+          <MapperResults
+            data={project.result}
+            result={project.result}
+            onAnnotationsChange={workspace.can("editProjects") ? handleAnnotationsChange : undefined}
+          />
+        </>
+      )}
+    </div>
+  );
+}
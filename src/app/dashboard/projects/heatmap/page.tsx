@@ -0,0 +1,72 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { ArrowLeft, Loader2, AlertCircle } from "lucide-react";
+import { ServiceHeatmap } from "@/components/material-mapper/ServiceHeatmap";
+import { fetchProjects, fetchProject } from "@/lib/projects/client";
+import type { HeatmapSource } from "@/lib/material-mapper/heatmap";
+
+export default function ProjectsHeatmapPage() {
+  const [sources, setSources] = useState<HeatmapSource[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const summaries = await fetchProjects();
+        const projects = await Promise.all(summaries.map(p => fetchProject(p.id)));
+        if (!cancelled) {
+          setSources(projects.map(p => ({ id: p.id, label: p.title, result: p.result })));
+        }
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to load projects");
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return (
+    <div className="p-8">
+      <Link
+        href="/dashboard/projects"
+        className="inline-flex items-center gap-1 mb-6 text-xs font-mono text-gray-400 hover:text-gray-600 transition-colors"
+      >
+        <ArrowLeft size={14} />
+        Projects
+      </Link>
+
+      <header className="mb-8">
+        <h1 className="text-xl font-mono text-gray-800 mb-2">Service Heatmap</h1>
+        <p className="text-sm font-mono text-gray-500">
+          Flows connecting each saved project to each ecosystem service.
+        </p>
+      </header>
+
+      {error && (
+        <div className="p-4 mb-6 bg-red-50 border border-red-200 rounded-lg flex items-start gap-3">
+          <AlertCircle size={18} className="text-red-600 mt-0.5" />
+          <p className="font-mono text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
+      {sources === null && !error && (
+        <div className="flex items-center gap-2 text-sm font-mono text-gray-400">
+          <Loader2 size={16} className="animate-spin" />
+          Loading projects...
+        </div>
+      )}
+
+      {sources?.length === 0 && (
+        <p className="text-sm font-mono text-gray-400">
+          Save some Material Mapper runs to compare them here.
+        </p>
+      )}
+
+      {sources && sources.length > 0 && <ServiceHeatmap sources={sources} rowHeader="Project" />}
+    </div>
+  );
+}
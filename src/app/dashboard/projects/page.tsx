@@ -1,24 +1,185 @@
-import { Folder } from "lucide-react";
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { Folder, Loader2, AlertCircle, Pencil, Copy, Trash2, Check, X, Grid3x3 } from "lucide-react";
+import { fetchProjects, patchProject, copyProject, removeProject } from "@/lib/projects/client";
+import type { ProjectSummary } from "@/lib/projects/types";
+import { useWorkspace } from "@/lib/auth/useWorkspace";
 
 export default function ProjectsPage() {
+  const [projects, setProjects] = useState<ProjectSummary[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState("");
+  const workspace = useWorkspace();
+
+  const load = useCallback(async () => {
+    try {
+      setProjects(await fetchProjects());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load projects");
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // Run a project action, then refresh the list
+  const runAction = useCallback(async (action: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await action();
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+    }
+  }, [load]);
+
+  const startRename = (project: ProjectSummary) => {
+    setRenamingId(project.id);
+    setRenameValue(project.title);
+  };
+
+  const submitRename = (id: string) => {
+    const title = renameValue.trim();
+    setRenamingId(null);
+    if (title) runAction(() => patchProject(id, { title }));
+  };
+
+  const handleDelete = (project: ProjectSummary) => {
+    if (confirm(`Delete "${project.title}"? This cannot be undone.`)) {
+      runAction(() => removeProject(project.id));
+    }
+  };
+
   return (
     <div className="p-8 max-w-4xl">
-      <header className="mb-10">
-        <h1 className="text-xl font-mono text-gray-800 mb-2">Projects</h1>
-        <p className="text-sm font-mono text-gray-500">
-          Save and organize your explorations.
-        </p>
+      <header className="mb-10 flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-xl font-mono text-gray-800 mb-2">Projects</h1>
+          <p className="text-sm font-mono text-gray-500">
+            Save and organize your explorations.
+          </p>
+        </div>
+        {projects && projects.length > 0 && (
+          <Link
+            href="/dashboard/projects/heatmap"
+            className="flex items-center gap-1 text-xs font-mono text-gray-400 hover:text-gray-600 transition-colors whitespace-nowrap"
+          >
+            <Grid3x3 size={14} />
+            Service heatmap
+          </Link>
+        )}
       </header>
 
-      <div className="flex flex-col items-center justify-center py-16 text-center">
-        <div className="w-16 h-16 rounded-full bg-gray-100 flex items-center justify-center mb-4">
-          <Folder size={28} className="text-gray-400" strokeWidth={1.5} />
+      {error && (
+        <div className="p-4 mb-6 bg-red-50 border border-red-200 rounded-lg flex items-start gap-3">
+          <AlertCircle size={18} className="text-red-600 mt-0.5" />
+          <p className="font-mono text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
+      {projects === null && !error && (
+        <div className="flex items-center gap-2 text-sm font-mono text-gray-400">
+          <Loader2 size={16} className="animate-spin" />
+          Loading projects...
+        </div>
+      )}
+
+      {projects?.length === 0 && (
+        <div className="flex flex-col items-center justify-center py-16 text-center">
+          <div className="w-16 h-16 rounded-full bg-gray-100 flex items-center justify-center mb-4">
+            <Folder size={28} className="text-gray-400" strokeWidth={1.5} />
+          </div>
+          <p className="font-mono text-gray-500 mb-2">No projects yet</p>
+          <p className="text-sm font-mono text-gray-400">
+            Projects will appear here when you save your work.
+          </p>
+        </div>
+      )}
+
+      {projects && projects.length > 0 && (
+        <div className="grid gap-3">
+          {projects.map((project) => (
+            <div
+              key={project.id}
+              className="p-4 border border-gray-200 rounded-lg hover:border-gray-300 transition-colors group"
+            >
+              <div className="flex items-start gap-4">
+                <div className="flex-1 min-w-0">
+                  {renamingId === project.id ? (
+                    <form
+                      className="flex items-center gap-2 mb-1"
+                      onSubmit={(e) => {
+                        e.preventDefault();
+                        submitRename(project.id);
+                      }}
+                    >
+                      <input
+                        autoFocus
+                        value={renameValue}
+                        onChange={(e) => setRenameValue(e.target.value)}
+                        onKeyDown={(e) => e.key === "Escape" && setRenamingId(null)}
+                        className="flex-1 px-2 py-1 font-mono text-sm text-gray-800 border border-gray-300 rounded focus:outline-none focus:border-gray-400"
+                      />
+                      <button type="submit" className="p-1 text-gray-400 hover:text-gray-600" title="Save">
+                        <Check size={16} />
+                      </button>
+                      <button type="button" onClick={() => setRenamingId(null)} className="p-1 text-gray-400 hover:text-gray-600" title="Cancel">
+                        <X size={16} />
+                      </button>
+                    </form>
+                  ) : (
+                    <Link
+                      href={`/dashboard/projects/${project.id}`}
+                      className="block font-mono text-gray-800 mb-1 truncate hover:text-blue-600"
+                    >
+                      {project.title}
+                    </Link>
+                  )}
+                  <p className="text-sm font-mono text-gray-500 truncate">{project.strategy}</p>
+                  <p className="mt-2 text-xs font-mono text-gray-400">
+                    {project.counts.materials} materials · {project.counts.flows} flows · {project.counts.services} services · {project.counts.roles} roles
+                    <span className="ml-3">Updated {new Date(project.updatedAt).toLocaleString()}</span>
+                  </p>
+                </div>
+
+                <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                  {workspace.can("editProjects") && (
+                    <>
+                      <button
+                        onClick={() => startRename(project)}
+                        className="p-1.5 text-gray-400 hover:text-gray-600 rounded hover:bg-gray-100 transition-colors"
+                        title="Rename"
+                      >
+                        <Pencil size={16} />
+                      </button>
+                      <button
+                        onClick={() => runAction(() => copyProject(project.id))}
+                        className="p-1.5 text-gray-400 hover:text-gray-600 rounded hover:bg-gray-100 transition-colors"
+                        title="Duplicate"
+                      >
+                        <Copy size={16} />
+                      </button>
+                    </>
+                  )}
+                  {workspace.can("deleteProjects") && (
+                    <button
+                      onClick={() => handleDelete(project)}
+                      className="p-1.5 text-gray-400 hover:text-red-600 rounded hover:bg-red-50 transition-colors"
+                      title="Delete"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  )}
+                </div>
+              </div>
+            </div>
+          ))}
         </div>
-        <p className="font-mono text-gray-500 mb-2">No projects yet</p>
-        <p className="text-sm font-mono text-gray-400">
-          Projects will appear here when you save your work.
-        </p>
-      </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,152 @@
+"use client";
+
+import { useState, useMemo, useRef, useEffect } from "react";
+import { notFound } from "next/navigation";
+import { BipartiteGraph } from "@/components/ui/BipartiteGraph";
+import { OrderingMode, ORDERING_LABELS } from "@/components/ui/bipartiteGraphOrdering";
+import { generateSyntheticGraph } from "@/components/ui/bipartiteGraphFixtures";
+
+/**
+ * Development-only benchmark for BipartiteGraph on synthetic large graphs.
+ *
+ * "Sweep" moves the selection through every left row, one per animation frame,
+ * and reports frame times, which exercises the same highlight path as hovering.
+ */
+
+const PRESETS = [
+  { name: "Small", leftCount: 40, rightCount: 30, connectionCount: 150 },
+  { name: "Medium", leftCount: 200, rightCount: 80, connectionCount: 1200 },
+  { name: "Large", leftCount: 600, rightCount: 150, connectionCount: 5000 },
+  { name: "Huge", leftCount: 2000, rightCount: 300, connectionCount: 20000 },
+];
+
+interface SweepStats {
+  frames: number;
+  meanMs: number;
+  p95Ms: number;
+}
+
+export default function GraphBenchmarkPage() {
+  const [preset, setPreset] = useState(PRESETS[1]);
+  const [seed, setSeed] = useState(1);
+  const [ordering, setOrdering] = useState<OrderingMode>("input");
+  const [selectedLeftId, setSelectedLeftId] = useState<string | null>(null);
+  const [isSweeping, setIsSweeping] = useState(false);
+  const [stats, setStats] = useState<SweepStats | null>(null);
+  const frameRef = useRef<number | null>(null);
+
+  const graph = useMemo(() => generateSyntheticGraph({ ...preset, seed }), [preset, seed]);
+
+  // Stop any running sweep on unmount
+  useEffect(() => () => {
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+  }, []);
+
+  const runSweep = () => {
+    if (isSweeping) return;
+    setIsSweeping(true);
+    setStats(null);
+
+    const durations: number[] = [];
+    let index = 0;
+    let last = performance.now();
+
+    const step = (now: number) => {
+      durations.push(now - last);
+      last = now;
+      if (index >= graph.leftItems.length) {
+        const sorted = [...durations.slice(1)].sort((a, b) => a - b);
+        setStats({
+          frames: sorted.length,
+          meanMs: sorted.reduce((sum, d) => sum + d, 0) / Math.max(1, sorted.length),
+          p95Ms: sorted[Math.floor(sorted.length * 0.95)] ?? 0,
+        });
+        setSelectedLeftId(null);
+        setIsSweeping(false);
+        frameRef.current = null;
+        return;
+      }
+      setSelectedLeftId(graph.leftItems[index++].id);
+      frameRef.current = requestAnimationFrame(step);
+    };
+    frameRef.current = requestAnimationFrame(step);
+  };
+
+  if (process.env.NODE_ENV === "production") notFound();
+
+  return (
+    <div className="p-8">
+      <header className="mb-6">
+        <h1 className="text-xl font-mono text-gray-800 mb-2">Graph Benchmark</h1>
+        <p className="text-sm font-mono text-gray-500">
+          {graph.leftItems.length} flows · {graph.rightItems.length} services · {graph.connections.length} connections
+        </p>
+      </header>
+
+      <div className="flex flex-wrap items-center gap-3 mb-6 text-xs font-mono text-gray-500">
+        {PRESETS.map((p) => (
+          <button
+            key={p.name}
+            type="button"
+            onClick={() => setPreset(p)}
+            className={`px-3 py-1.5 border rounded transition-colors ${
+              preset === p ? "border-gray-400 text-gray-800" : "border-gray-200 hover:border-gray-300"
+            }`}
+          >
+            {p.name}
+          </button>
+        ))}
+        <label className="flex items-center gap-1.5">
+          Seed
+          <input
+            type="number"
+            value={seed}
+            onChange={(e) => setSeed(Number(e.target.value) || 1)}
+            className="w-16 px-2 py-1 border border-gray-200 rounded"
+          />
+        </label>
+        <select
+          value={ordering}
+          onChange={(e) => setOrdering(e.target.value as OrderingMode)}
+          className="px-1 py-1 bg-transparent border border-gray-200 rounded"
+        >
+          {(Object.keys(ORDERING_LABELS) as OrderingMode[]).map(mode => (
+            <option key={mode} value={mode}>{ORDERING_LABELS[mode]}</option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={runSweep}
+          disabled={isSweeping}
+          className="px-3 py-1.5 bg-gray-900 text-white rounded hover:bg-gray-800 disabled:opacity-50 transition-colors"
+        >
+          {isSweeping ? "Sweeping..." : "Sweep"}
+        </button>
+        {stats && (
+          <span className={stats.p95Ms > 1000 / 60 ? "text-amber-700" : "text-green-700"}>
+            {stats.frames} frames · mean {stats.meanMs.toFixed(1)}ms · p95 {stats.p95Ms.toFixed(1)}ms
+          </span>
+        )}
+      </div>
+
+      <div className="p-4 border border-gray-200 rounded-lg bg-gray-50/50 overflow-x-auto">
+        <BipartiteGraph
+          leftItems={graph.leftItems}
+          rightItems={graph.rightItems}
+          connections={graph.connections}
+          leftHeader="Flows"
+          rightHeader="Services"
+          rowHeight={28}
+          columnWidth={200}
+          connectionAreaWidth={240}
+          connectionColor="#cbd5e1"
+          highlightColor="#2563eb"
+          ordering={ordering}
+          selectedLeftId={selectedLeftId}
+          onLeftItemClick={(item) => setSelectedLeftId(prev => prev === item.id ? null : item.id)}
+          onBackgroundClick={() => setSelectedLeftId(null)}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,453 @@
+"use client";
+
+import { useState, useCallback, useRef, useEffect, useMemo } from "react";
+import Link from "next/link";
+import { useSession } from "@clerk/nextjs";
+import {
+  ArrowLeft,
+  ArrowRight,
+  AlertCircle,
+  CheckCircle2,
+  Download,
+  Loader2,
+  RotateCcw,
+  Square,
+  Upload,
+  Clock,
+} from "lucide-react";
+import { StreamInterruptedError } from "@/lib/agents/client";
+import { runMaterialMapper, MapperInputs } from "@/lib/material-mapper/client";
+import { EMPTY_SNAPSHOT } from "@/lib/material-mapper/stream";
+import {
+  BatchEntry,
+  BatchRow,
+  MAX_BATCH_SIZE,
+  parseStrategyList,
+  pendingRows,
+  queueRows,
+  unqueueRows,
+  isBatchActive,
+  stageOfEvent,
+  rowLabel,
+  batchSummaryCsv,
+  strategyServiceMatrixCsv,
+  batchHeatmapSources,
+} from "@/lib/material-mapper/batch";
+import { ServiceHeatmap } from "@/components/material-mapper/ServiceHeatmap";
+import { BudgetWarning } from "@/components/usage/BudgetWarning";
+import { fetchBudgetStatus, logMapperRun, overBudgetMessage } from "@/lib/usage/client";
+import { recordStageTiming, StageTimings } from "@/lib/material-mapper/timeline";
+import type { BudgetStatus } from "@/lib/usage/types";
+import { STAGE_LABELS } from "@/lib/material-mapper/types";
+import { downloadFile } from "@/lib/download";
+import { recordRun } from "@/lib/history/client";
+import { runCounts } from "@/lib/history/versions";
+import type { RecordRunInput } from "@/lib/history/types";
+
+const CONCURRENCY_OPTIONS = [1, 2, 3, 4, 5];
+
+export default function MaterialMapperBatchPage() {
+  const { session } = useSession();
+  const [rows, setRows] = useState<BatchRow[]>([]);
+  const [pasted, setPasted] = useState("");
+  const [concurrency, setConcurrency] = useState(3);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [budget, setBudget] = useState<BudgetStatus | null>(null);
+
+  useEffect(() => {
+    fetchBudgetStatus().then(setBudget).catch(() => setBudget(null));
+  }, []);
+
+  // Scheduler state lives in refs so in-flight runs see the latest values
+  const queueRef = useRef<BatchRow[]>([]);
+  const activeRef = useRef(0);
+  const concurrencyRef = useRef(concurrency);
+  const controllersRef = useRef(new Map<string, AbortController>());
+
+  useEffect(() => {
+    concurrencyRef.current = concurrency;
+  }, [concurrency]);
+
+  // Abort every run when leaving the page
+  useEffect(() => {
+    const controllers = controllersRef.current;
+    return () => {
+      queueRef.current = [];
+      controllers.forEach(c => c.abort());
+    };
+  }, []);
+
+  const updateRow = useCallback((id: string, patch: Partial<BatchRow>) => {
+    setRows(prev => prev.map(row => (row.id === id ? { ...row, ...patch } : row)));
+  }, []);
+
+  const runRow = useCallback(async (row: BatchRow) => {
+    const controller = new AbortController();
+    controllersRef.current.set(row.id, controller);
+    updateRow(row.id, { status: "running", stage: "idle", error: undefined, result: undefined });
+    let timings: StageTimings = {};
+    const inputs: MapperInputs = { strategy_description: row.strategy };
+
+    // Batch runs appear in the history like single runs, however they ended
+    const record = (run: Pick<RecordRunInput, "status" | "error" | "result">) =>
+      recordRun({ inputs, counts: runCounts(run.result ?? EMPTY_SNAPSHOT), parentId: null, ...run })
+        .catch(err => console.warn("Failed to record run:", err));
+
+    try {
+      const result = await runMaterialMapper(
+        inputs,
+        {
+          getToken: async () => session?.getToken(),
+          signal: controller.signal,
+          onEvent: (event) => {
+            timings = recordStageTiming(timings, event);
+            const stage = stageOfEvent(event);
+            if (event.event_type === "stage2_start" || event.event_type === "stage2_chunk_complete") {
+              updateRow(row.id, {
+                stage: "stage2",
+                currentChunk: event.event_type === "stage2_chunk_complete" ? event.current_chunk : 0,
+                totalChunks: event.total_chunks,
+              });
+            } else if (stage && stage !== "complete" && stage !== "error") {
+              updateRow(row.id, { stage });
+            }
+          },
+        }
+      );
+      updateRow(row.id, { status: "complete", stage: "complete", result });
+      record({ status: "complete", error: null, result });
+      logMapperRun(row.strategy, "batch", result, timings)
+        .then(fetchBudgetStatus)
+        .then(setBudget)
+        .catch(err => console.warn("Failed to log usage:", err));
+    } catch (err) {
+      if (controller.signal.aborted) {
+        updateRow(row.id, { status: "cancelled" });
+        record({ status: "cancelled", error: null, result: null });
+      } else {
+        const error = err instanceof Error ? err.message : "Something went wrong";
+        updateRow(row.id, { status: "error", stage: "error", error });
+        record({ status: err instanceof StreamInterruptedError ? "interrupted" : "error", error, result: null });
+      }
+    } finally {
+      controllersRef.current.delete(row.id);
+    }
+  }, [session, updateRow]);
+
+  // Start queued rows until the concurrency limit is reached
+  const pump = useCallback(() => {
+    while (activeRef.current < concurrencyRef.current && queueRef.current.length > 0) {
+      const row = queueRef.current.shift()!;
+      activeRef.current++;
+      runRow(row).finally(() => {
+        activeRef.current--;
+        pump();
+      });
+    }
+  }, [runRow]);
+
+  const enqueue = useCallback((toRun: BatchRow[]) => {
+    if (toRun.length === 0) return;
+    if (budget?.exceeded && !confirm(overBudgetMessage(budget))) return;
+    setRows(prev => queueRows(prev, new Set(toRun.map(r => r.id))));
+    queueRef.current.push(...toRun);
+    pump();
+  }, [budget, pump]);
+
+  const loadEntries = useCallback((entries: BatchEntry[]) => {
+    setError(null);
+    if (entries.length === 0) {
+      setError("No strategies found. Use one strategy per line, or a CSV with a \"strategy\" column.");
+      return;
+    }
+    if (entries.length > MAX_BATCH_SIZE) {
+      setError(`Batches are limited to ${MAX_BATCH_SIZE} strategies (found ${entries.length}).`);
+      return;
+    }
+    setRows(pendingRows(entries));
+  }, []);
+
+  const handleFile = async (file: File) => {
+    try {
+      loadEntries(parseStrategyList(await file.text(), file.name));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not read the file");
+    }
+  };
+
+  const handleCancelAll = () => {
+    queueRef.current = [];
+    setRows(unqueueRows);
+    controllersRef.current.forEach(c => c.abort());
+  };
+
+  const isActive = isBatchActive(rows);
+  const pending = rows.filter(row => row.status === "pending");
+  const completed = rows.filter(row => row.status === "complete");
+  const failed = rows.filter(row => row.status === "error" || row.status === "cancelled");
+  const totalCost = completed.reduce((sum, row) => sum + (row.result?.cost_usd ?? 0), 0);
+  const finished = completed.length + rows.filter(row => row.status === "error").length;
+  const heatmapSources = useMemo(() => batchHeatmapSources(rows), [rows]);
+
+  return (
+    <div className="p-8 max-w-6xl">
+      <Link
+        href="/dashboard/tools/material-mapper"
+        className="inline-flex items-center gap-1 mb-6 text-xs font-mono text-gray-400 hover:text-gray-600 transition-colors"
+      >
+        <ArrowLeft size={14} />
+        Material Mapper
+      </Link>
+
+      <header className="mb-8">
+        <h1 className="text-xl font-mono text-gray-800 mb-2">Batch Analysis</h1>
+        <p className="text-sm font-mono text-gray-500">
+          Run a portfolio of building strategies through the Material Mapper.
+        </p>
+      </header>
+
+      <BudgetWarning budget={budget} />
+
+      {/* Input */}
+      {rows.length === 0 && (
+        <div className="mb-8 space-y-3">
+          <textarea
+            value={pasted}
+            onChange={(e) => setPasted(e.target.value)}
+            placeholder={"One strategy per line...\ngreen roof with sedum, timber frame, rainwater harvesting\nsteel frame, glass curtain wall, district heating"}
+            className="w-full h-40 p-4 font-mono text-sm text-gray-800 placeholder-gray-300 border border-gray-200 rounded-lg resize-none focus:outline-none focus:border-gray-400 transition-colors"
+          />
+          <div className="flex items-center gap-3">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.txt,text/csv,text/plain"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleFile(file);
+                e.target.value = "";
+              }}
+            />
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center gap-2 px-4 py-2 font-mono text-sm text-gray-600 border border-gray-300 rounded-lg hover:border-gray-400 hover:text-gray-800 transition-colors"
+            >
+              <Upload size={16} />
+              Upload CSV or text file
+            </button>
+            <p className="flex-1 text-xs font-mono text-gray-400">
+              CSV files need a &quot;strategy&quot; column; an optional &quot;title&quot; column names each row.
+            </p>
+            <button
+              type="button"
+              onClick={() => loadEntries(parseStrategyList(pasted))}
+              disabled={!pasted.trim()}
+              className="flex items-center gap-2 px-6 py-2 bg-gray-900 text-white font-mono text-sm rounded-lg hover:bg-gray-800 disabled:bg-gray-200 disabled:text-gray-400 disabled:cursor-not-allowed transition-colors"
+            >
+              Load strategies
+              <ArrowRight size={16} />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="p-4 mb-6 bg-red-50 border border-red-200 rounded-lg flex items-start gap-3">
+          <AlertCircle size={18} className="text-red-600 mt-0.5" />
+          <p className="font-mono text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
+      {rows.length > 0 && (
+        <>
+          {/* Controls */}
+          <div className="mb-6 flex flex-wrap items-center gap-3">
+            <p className="flex-1 text-sm font-mono text-gray-500">
+              {finished}/{rows.length} finished
+              {failed.length > 0 && <span className="ml-2 text-red-600">{failed.length} failed</span>}
+              {totalCost > 0 && <span className="ml-2">${totalCost.toFixed(4)}</span>}
+            </p>
+            <label className="flex items-center gap-2 text-xs font-mono text-gray-500">
+              Concurrency
+              <select
+                value={concurrency}
+                onChange={(e) => setConcurrency(Number(e.target.value))}
+                className="px-1 py-1 bg-transparent border border-gray-200 rounded focus:outline-none"
+              >
+                {CONCURRENCY_OPTIONS.map(n => (
+                  <option key={n} value={n}>{n}</option>
+                ))}
+              </select>
+            </label>
+            {isActive ? (
+              <button
+                onClick={handleCancelAll}
+                className="flex items-center gap-2 px-4 py-2 font-mono text-sm text-gray-600 border border-gray-300 rounded-lg hover:border-gray-400 hover:text-gray-800 transition-colors"
+              >
+                <Square size={14} />
+                Cancel
+              </button>
+            ) : (
+              <>
+                <button
+                  onClick={() => setRows([])}
+                  className="px-4 py-2 font-mono text-sm text-gray-500 hover:text-gray-800 transition-colors"
+                >
+                  Clear
+                </button>
+                {failed.length > 0 && (
+                  <button
+                    onClick={() => enqueue(failed)}
+                    className="flex items-center gap-2 px-4 py-2 font-mono text-sm text-gray-600 border border-gray-300 rounded-lg hover:border-gray-400 hover:text-gray-800 transition-colors"
+                  >
+                    <RotateCcw size={14} />
+                    Retry failed
+                  </button>
+                )}
+              </>
+            )}
+            {!isActive && pending.length > 0 && (
+              <button
+                onClick={() => enqueue(pending)}
+                className="flex items-center gap-2 px-6 py-2 bg-gray-900 text-white font-mono text-sm rounded-lg hover:bg-gray-800 transition-colors"
+              >
+                Run {pending.length}
+                <ArrowRight size={16} />
+              </button>
+            )}
+            {completed.length > 0 && (
+              <>
+                <button
+                  onClick={() => downloadFile("batch-summary.csv", batchSummaryCsv(rows), "text/csv")}
+                  className="flex items-center gap-2 px-4 py-2 font-mono text-sm text-gray-600 border border-gray-300 rounded-lg hover:border-gray-400 hover:text-gray-800 transition-colors"
+                >
+                  <Download size={14} />
+                  Summary CSV
+                </button>
+                <button
+                  onClick={() => downloadFile("batch-service-matrix.csv", strategyServiceMatrixCsv(rows), "text/csv")}
+                  className="flex items-center gap-2 px-4 py-2 font-mono text-sm text-gray-600 border border-gray-300 rounded-lg hover:border-gray-400 hover:text-gray-800 transition-colors"
+                >
+                  <Download size={14} />
+                  Service matrix CSV
+                </button>
+              </>
+            )}
+          </div>
+
+          {/* Overall progress */}
+          <div className="mb-6 h-1 bg-gray-100 rounded overflow-hidden">
+            <div
+              className="h-full bg-gray-800 transition-all duration-300"
+              style={{ width: `${(finished / rows.length) * 100}%` }}
+            />
+          </div>
+
+          {/* Per-row status */}
+          <div className="border border-gray-200 rounded-lg overflow-hidden">
+            <table className="w-full text-sm font-mono">
+              <thead>
+                <tr className="text-xs text-gray-400 uppercase tracking-wider text-left border-b border-gray-200 bg-gray-50">
+                  <th className="px-3 py-2 w-10">#</th>
+                  <th className="px-3 py-2">Strategy</th>
+                  <th className="px-3 py-2 w-56">Status</th>
+                  <th className="px-3 py-2 w-16 text-right">Flows</th>
+                  <th className="px-3 py-2 w-20 text-right">Services</th>
+                  <th className="px-3 py-2 w-20 text-right">Cost</th>
+                  <th className="px-3 py-2 w-10" />
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row, i) => (
+                  <tr key={row.id} className="border-b border-gray-100 last:border-0 align-top">
+                    <td className="px-3 py-2 text-gray-400">{i + 1}</td>
+                    <td className="px-3 py-2 max-w-0">
+                      <p className="text-gray-800 truncate" title={row.strategy}>{rowLabel(row, i)}</p>
+                      {row.error && <p className="mt-1 text-xs text-red-600">{row.error}</p>}
+                    </td>
+                    <td className="px-3 py-2">
+                      <RowStatus row={row} />
+                    </td>
+                    <td className="px-3 py-2 text-right text-gray-600">{row.result?.matched_bmfs.length ?? ""}</td>
+                    <td className="px-3 py-2 text-right text-gray-600">{row.result?.ecosystem_services.length ?? ""}</td>
+                    <td className="px-3 py-2 text-right text-gray-600">
+                      {row.result ? `$${row.result.cost_usd.toFixed(4)}` : ""}
+                    </td>
+                    <td className="px-3 py-2">
+                      {(row.status === "error" || row.status === "cancelled") && (
+                        <button
+                          onClick={() => enqueue([row])}
+                          className="p-1 text-gray-400 hover:text-gray-600 rounded hover:bg-gray-100 transition-colors"
+                          title="Retry"
+                        >
+                          <RotateCcw size={14} />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {heatmapSources.length > 0 && (
+            <section className="mt-10">
+              <h2 className="text-sm font-mono text-gray-400 uppercase tracking-wider mb-4">
+                Service Heatmap
+              </h2>
+              <ServiceHeatmap sources={heatmapSources} />
+            </section>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+function RowStatus({ row }: { row: BatchRow }) {
+  switch (row.status) {
+    case "pending":
+      return <span className="text-gray-400">Not started</span>;
+    case "queued":
+      return (
+        <span className="flex items-center gap-1.5 text-gray-400">
+          <Clock size={14} />
+          Queued
+        </span>
+      );
+    case "running":
+      return (
+        <span className="flex items-center gap-1.5 text-blue-600">
+          <Loader2 size={14} className="animate-spin flex-shrink-0" />
+          <span className="truncate">
+            {row.stage === "idle" ? "Connecting" : STAGE_LABELS[row.stage]}
+            {row.stage === "stage2" && row.totalChunks ? ` ${row.currentChunk ?? 0}/${row.totalChunks}` : ""}
+          </span>
+        </span>
+      );
+    case "complete":
+      return (
+        <span className="flex items-center gap-1.5 text-green-700">
+          <CheckCircle2 size={14} />
+          {row.result ? `${(row.result.processing_time_ms / 1000).toFixed(1)}s` : "Complete"}
+        </span>
+      );
+    case "error":
+      return (
+        <span className="flex items-center gap-1.5 text-red-600">
+          <AlertCircle size={14} />
+          Failed
+        </span>
+      );
+    case "cancelled":
+      return (
+        <span className="flex items-center gap-1.5 text-gray-500">
+          <Square size={14} />
+          Cancelled
+        </span>
+      );
+  }
+}
@@ -1,441 +1,245 @@
 "use client";
 
-import { useState, useCallback, useMemo, useRef, useEffect } from "react";
-import { useSession } from "@clerk/nextjs";
-import { ArrowRight, Loader2, CheckCircle2, AlertCircle, X } from "lucide-react";
-import { BipartiteGraph, BipartiteItem, BipartiteConnection } from "@/components/ui/BipartiteGraph";
-
-interface MatchedBMF {
-  bmf_name: string;
-  flow_type?: "inflow" | "outflow" | "both";
-  confidence: "high" | "medium" | "low";
-  matched_materials: string[];
-  reason: string;
-}
+import { useState, useCallback, useEffect, useRef, Suspense } from "react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { ArrowRight, Loader2, AlertCircle, AlertTriangle, Save, CheckCircle2, Square, WifiOff, Layers, History, RotateCcw } from "lucide-react";
+import { MapperResults } from "@/components/material-mapper/MapperResults";
+import { ExportMenu } from "@/components/material-mapper/ExportMenu";
+import { CompareWithProject } from "@/components/material-mapper/CompareWithProject";
+import { ResultImport } from "@/components/material-mapper/ResultImport";
+import { StrategyBuilder } from "@/components/material-mapper/StrategyBuilder";
+import { RunTimeline } from "@/components/material-mapper/RunTimeline";
+import { useMapperRun } from "@/components/material-mapper/MapperRunProvider";
+import { clearMapperView } from "@/components/material-mapper/mapperView";
+import { updateQuery } from "@/components/material-mapper/useMapperView";
+import { BudgetWarning } from "@/components/usage/BudgetWarning";
+import { saveProject, saveAnnotations } from "@/lib/projects/client";
+import { draftDescription, shownError, shownSnapshot } from "@/lib/material-mapper/session";
+import { exportFileStem, MapperExport } from "@/lib/material-mapper/export";
+import { serializeStrategy, strategyInputs } from "@/lib/material-mapper/builder";
+import { fetchBudgetStatus, overBudgetMessage } from "@/lib/usage/client";
+import { fetchRun } from "@/lib/history/client";
+import type { BudgetStatus } from "@/lib/usage/types";
+import type { MaterialEdit, ResultAnnotations } from "@/lib/material-mapper/types";
 
-interface EcosystemConnection {
-  bmf_name: string;
-  ecosystem_service: string;
-  relationship_type: string;
+export default function MaterialMapperPage() {
+  // The open run and the results view are read from the URL
+  return (
+    <Suspense>
+      <MaterialMapper />
+    </Suspense>
+  );
 }
 
-interface SupplementaryConnection {
-  bmf_name: string;
-  ecosystem_service: string;
-  text: string;
-  direction?: string;
-}
+function MaterialMapper() {
+  // The session outlives this page, so a run keeps streaming while the user browses
+  const { state, dispatch, start, cancel } = useMapperRun();
+  const { draft, isLoading, invalidEvents, timeline, projectTitle, savedProjectId, submittedStrategy } = state;
+  const { strategy, inputMode, spec } = draft;
+  const { progress, result, curationNotice } = state.run;
+  const description = draftDescription(draft);
+  const [isSaving, setIsSaving] = useState(false);
 
-interface EcosystemServiceDetail {
-  name: string;
-  description: string;
-  category: string;
-  supplementary_connections: SupplementaryConnection[];
-}
+  const setError = useCallback((error: string | null) => dispatch({ type: "setError", error }), [dispatch]);
 
-interface RoleAnalysis {
-  role_name: string;
-  role_id: string;
-  materials_touched: string[];
-  description: string;
-}
+  // Soft monthly budget; runs past it need a confirmation
+  const [budget, setBudget] = useState<BudgetStatus | null>(null);
 
-interface MapperResult {
-  extracted_materials: string[];
-  matched_bmfs: MatchedBMF[];
-  unmatched_materials: string[];
-  ecosystem_connections: EcosystemConnection[];
-  ecosystem_services: string[];
-  ecosystem_service_details: Record<string, EcosystemServiceDetail>;
-  role_analyses: RoleAnalysis[];
-  processing_time_ms: number;
-  cost_usd: number;
-}
+  const refreshBudget = useCallback(() => {
+    fetchBudgetStatus().then(setBudget).catch(() => setBudget(null));
+  }, []);
 
-interface ProgressState {
-  stage: "idle" | "stage1" | "stage2" | "stage3" | "stage4" | "complete" | "error";
-  message: string;
-  currentChunk?: number;
-  totalChunks?: number;
-  elapsedMs?: number;
-}
+  useEffect(refreshBudget, [refreshBudget]);
 
-export default function MaterialMapperPage() {
-  const { session } = useSession();
-  const [strategy, setStrategy] = useState("");
-  const [isLoading, setIsLoading] = useState(false);
-  const [result, setResult] = useState<MapperResult | null>(null);
-  const [error, setError] = useState<string | null>(null);
-
-  // Streaming progress state
-  const [progress, setProgress] = useState<ProgressState>({ stage: "idle", message: "" });
-  const [extractedMaterials, setExtractedMaterials] = useState<string[]>([]);
-  const [matchedBmfs, setMatchedBmfs] = useState<MatchedBMF[]>([]);
-  const [ecosystemConnections, setEcosystemConnections] = useState<EcosystemConnection[]>([]);
-  const [ecosystemServices, setEcosystemServices] = useState<string[]>([]);
-  const [ecosystemServiceDetails, setEcosystemServiceDetails] = useState<Record<string, EcosystemServiceDetail>>({});
-  const [roleAnalyses, setRoleAnalyses] = useState<RoleAnalysis[]>([]);
-  const [selectedEcosystemService, setSelectedEcosystemService] = useState<string | null>(null);
-  const [selectedBmf, setSelectedBmf] = useState<string | null>(null);
-  const [selectedRole, setSelectedRole] = useState<RoleAnalysis | null>(null);
-
-  // Ref for the visualization container to detect outside clicks
-  const vizContainerRef = useRef<HTMLDivElement>(null);
-
-  // Close modal and clear selection when clicking outside visualization
-  useEffect(() => {
-    function handleClickOutside(event: MouseEvent) {
-      if (vizContainerRef.current && !vizContainerRef.current.contains(event.target as Node)) {
-        setSelectedEcosystemService(null);
-        setSelectedBmf(null);
-      }
-    }
-    document.addEventListener("mousedown", handleClickOutside);
-    return () => document.removeEventListener("mousedown", handleClickOutside);
-  }, []);
+  const withinBudget = useCallback(
+    () => !budget?.exceeded || confirm(overBudgetMessage(budget)),
+    [budget]
+  );
 
-  const handleSubmit = useCallback(async (e: React.FormEvent) => {
+  const handleSubmit = useCallback((e: React.FormEvent) => {
     e.preventDefault();
-    if (!strategy.trim() || isLoading) return;
-
-    // Reset state
-    setIsLoading(true);
+    if (!description.trim() || isLoading || !withinBudget()) return;
+    start(
+      inputMode === "builder"
+        ? { strategy_description: description, ...strategyInputs(spec) }
+        : { strategy_description: description }
+    ).then(refreshBudget);
+  }, [description, inputMode, spec, isLoading, withinBudget, start, refreshBudget]);
+
+  // Match the curated materials again, skipping extraction
+  const handleRematch = useCallback((materials: string[], edits: MaterialEdit[]) => {
+    if (isLoading || !withinBudget()) return;
+    const previous = state.inputs ?? { strategy_description: submittedStrategy };
+    start(
+      { ...previous, extracted_materials: materials, start_from_stage: 2 },
+      { materials, edits }
+    ).then(refreshBudget);
+  }, [isLoading, withinBudget, state.inputs, submittedStrategy, start, refreshBudget]);
+
+  // Run an interrupted analysis again from the beginning, as a re-match if it was one
+  const handleRestart = useCallback(() => {
+    if (!state.inputs || isLoading || !withinBudget()) return;
+    start(state.inputs, state.run.curation).then(refreshBudget);
+  }, [isLoading, withinBudget, state.inputs, state.run.curation, start, refreshBudget]);
+
+  const handleImport = useCallback((data: MapperExport) => {
+    dispatch({ type: "import", data });
+  }, [dispatch]);
+
+  const handleSave = useCallback(async () => {
+    if (!result || !projectTitle.trim() || isSaving) return;
+    setIsSaving(true);
     setError(null);
-    setResult(null);
-    setExtractedMaterials([]);
-    setMatchedBmfs([]);
-    setEcosystemConnections([]);
-    setEcosystemServices([]);
-    setEcosystemServiceDetails({});
-    setRoleAnalyses([]);
-    setSelectedEcosystemService(null);
-    setSelectedBmf(null);
-    setSelectedRole(null);
-    setProgress({ stage: "idle", message: "Connecting..." });
-
     try {
-      const apiUrl = process.env.NEXT_PUBLIC_API_URL || "http://localhost:8001";
-
-      // Get the session token for cross-origin requests
-      const token = await session?.getToken();
-      const headers: Record<string, string> = {
-        "Content-Type": "application/json",
-      };
-      if (token) {
-        headers["Authorization"] = `Bearer ${token}`;
-      }
-
-      // Use the streaming endpoint
-      const response = await fetch(
-        `${apiUrl}/v1/agents/agents.ecoservices.material_mapper/invoke/stream`,
-        {
-          method: "POST",
-          headers,
-          body: JSON.stringify({
-            inputs: { strategy_description: strategy },
-          }),
-        }
-      );
-
-      if (!response.ok) {
-        throw new Error(`Request failed: ${response.status}`);
-      }
-
-      // Read the SSE stream
-      const reader = response.body?.getReader();
-      if (!reader) throw new Error("No response body");
-
-      const decoder = new TextDecoder();
-      let buffer = "";
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split("\n");
-
-        // Keep incomplete line in buffer
-        buffer = lines.pop() || "";
-
-        for (const line of lines) {
-          if (line.startsWith("data: ")) {
-            try {
-              const event = JSON.parse(line.slice(6));
-              handleStreamEvent(event);
-            } catch (parseErr) {
-              console.warn("Failed to parse SSE event:", line);
-            }
-          }
-        }
-      }
+      const project = await saveProject({
+        title: projectTitle.trim(),
+        strategy: submittedStrategy,
+        result,
+      });
+      dispatch({ type: "saved", projectId: project.id });
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Something went wrong");
-      setProgress({ stage: "error", message: "Failed to connect" });
+      setError(err instanceof Error ? err.message : "Failed to save project");
     } finally {
-      setIsLoading(false);
+      setIsSaving(false);
     }
-  }, [strategy, isLoading]);
-
-  const handleStreamEvent = useCallback((event: Record<string, unknown>) => {
-    const eventType = event.event_type as string;
-    const message = event.message as string || "";
-    const elapsedMs = event.elapsed_ms as number | undefined;
-
-    switch (eventType) {
-      case "stage1_start":
-        setProgress({
-          stage: "stage1",
-          message: message || "Analyzing strategy...",
-          elapsedMs
-        });
-        break;
-
-      case "stage1_complete":
-        // Show extracted materials IMMEDIATELY
-        const materials = event.extracted_materials as string[] || [];
-        setExtractedMaterials(materials);
-        setProgress({
-          stage: "stage1",
-          message: message || `Found ${materials.length} materials`,
-          elapsedMs
-        });
-        break;
-
-      case "stage2_start":
-        // All chunks start running in parallel immediately
-        setProgress({
-          stage: "stage2",
-          message: message || "Matching to BMF database (parallel)...",
-          totalChunks: event.total_chunks as number,
-          currentChunk: 0,
-          elapsedMs
-        });
-        break;
-
-      case "stage2_chunk_complete":
-        // Add new matches incrementally
-        const chunkBmfs = event.matched_bmfs as MatchedBMF[] || [];
-        if (chunkBmfs.length > 0) {
-          setMatchedBmfs(prev => {
-            // Deduplicate by bmf_name
-            const existingNames = new Set(prev.map(b => b.bmf_name));
-            const newBmfs = chunkBmfs.filter(b => !existingNames.has(b.bmf_name));
-            return [...prev, ...newBmfs];
-          });
-        }
-        setProgress(prev => ({
-          ...prev,
-          currentChunk: event.current_chunk as number,
-          message: message || `Chunk ${event.current_chunk}/${event.total_chunks} complete`,
-          elapsedMs
-        }));
-        break;
-
-      case "stage3_start":
-        setProgress({
-          stage: "stage3",
-          message: message || "Fetching ecosystem service connections...",
-          elapsedMs
-        });
-        break;
-
-      case "stage3_complete":
-        // Set ecosystem data
-        const connections = event.ecosystem_connections as EcosystemConnection[] || [];
-        const services = event.ecosystem_services as string[] || [];
-        const serviceDetails = event.ecosystem_service_details as Record<string, EcosystemServiceDetail> || {};
-        setEcosystemConnections(connections);
-        setEcosystemServices(services);
-        setEcosystemServiceDetails(serviceDetails);
-        setProgress({
-          stage: "stage3",
-          message: message || `Found ${services.length} ecosystem services`,
-          elapsedMs
-        });
-        break;
-
-      case "stage4_start":
-        setProgress({
-          stage: "stage4",
-          message: message || "Analyzing building roles...",
-          elapsedMs
-        });
-        break;
-
-      case "stage4_tier1_complete":
-        setProgress({
-          stage: "stage4",
-          message: message || "Filtered roles, analyzing in detail...",
-          elapsedMs
-        });
-        break;
-
-      case "stage4_batch_complete":
-        setProgress({
-          stage: "stage4",
-          message: message || "Processing role batches...",
-          elapsedMs
-        });
-        break;
-
-      case "stage4_complete":
-        const roles = event.role_analyses as RoleAnalysis[] || [];
-        setRoleAnalyses(roles);
-        setProgress({
-          stage: "stage4",
-          message: message || `Analyzed ${roles.length} building roles`,
-          elapsedMs
-        });
-        break;
-
-      case "complete":
-        setProgress({
-          stage: "complete",
-          message: message || "Complete!",
-          elapsedMs
-        });
-        break;
-
-      case "result":
-        // Final result - update everything
-        setResult({
-          extracted_materials: event.extracted_materials as string[] || [],
-          matched_bmfs: event.matched_bmfs as MatchedBMF[] || [],
-          unmatched_materials: event.unmatched_materials as string[] || [],
-          ecosystem_connections: event.ecosystem_connections as EcosystemConnection[] || [],
-          ecosystem_services: event.ecosystem_services as string[] || [],
-          ecosystem_service_details: event.ecosystem_service_details as Record<string, EcosystemServiceDetail> || {},
-          role_analyses: event.role_analyses as RoleAnalysis[] || [],
-          processing_time_ms: event.processing_time_ms as number || 0,
-          cost_usd: event.cost_usd as number || 0,
-        });
-        setEcosystemServiceDetails(event.ecosystem_service_details as Record<string, EcosystemServiceDetail> || {});
-        setRoleAnalyses(event.role_analyses as RoleAnalysis[] || []);
-        setProgress({ stage: "complete", message: "Analysis complete" });
-        break;
-
-      case "error":
-        setError(event.error as string || "Unknown error");
-        setProgress({ stage: "error", message: message || "Error occurred" });
-        break;
+  }, [result, projectTitle, submittedStrategy, isSaving, dispatch, setError]);
+
+  // Annotations live on the result; once saved, keep the project in sync,
+  // one save at a time so the latest edit is the one stored
+  const handleAnnotationsChange = useCallback((annotations: ResultAnnotations) => {
+    dispatch({ type: "annotate", annotations });
+    if (savedProjectId) {
+      saveAnnotations(savedProjectId, annotations).catch(err =>
+        setError(err instanceof Error ? err.message : "Failed to save annotations")
+      );
     }
-  }, []);
+  }, [savedProjectId, dispatch, setError]);
 
-  // Show either streaming state or final result
-  const showExtractedMaterials = result?.extracted_materials || extractedMaterials;
-  const showMatchedBmfs = result?.matched_bmfs || matchedBmfs;
-  const showEcosystemConnections = result?.ecosystem_connections || ecosystemConnections;
-  const showEcosystemServices = result?.ecosystem_services || ecosystemServices;
-  const showEcosystemServiceDetails = result?.ecosystem_service_details || ecosystemServiceDetails;
-  const showRoleAnalyses = result?.role_analyses || roleAnalyses;
-
-  // Handle ecosystem service click
-  const handleEcosystemServiceClick = useCallback((item: { id: string; label: string }) => {
-    setSelectedEcosystemService(prev => prev === item.id ? null : item.id);
-    setSelectedBmf(null); // Clear BMF selection when ES is clicked
-  }, []);
+  // The open run is linked as `?run=<history id>`. Opening such a link loads the
+  // run; starting, importing or recording a run updates the link in place.
+  const runParam = useSearchParams().get("run");
+  const [isOpening, setIsOpening] = useState(false);
+  const linkedRef = useRef<{ runParam: string | null; runId: number; historyId: string | null } | null>(null);
 
-  // Handle BMF click
-  const handleBmfClick = useCallback((item: { id: string; label: string }) => {
-    setSelectedBmf(prev => prev === item.id ? null : item.id);
-    setSelectedEcosystemService(null); // Clear ES selection when BMF is clicked
-  }, []);
+  useEffect(() => {
+    const previous = linkedRef.current;
+    linkedRef.current = { runParam, runId: state.runId, historyId: state.historyId };
+    const params = new URLSearchParams(window.location.search);
+
+    // A new run or import starts without a selection
+    if (previous && (previous.runId !== state.runId || (previous.historyId && !state.historyId))) {
+      params.delete("run");
+      updateQuery(clearMapperView(params));
+      return;
+    }
 
-  // Handle background click to clear all selections
-  const handleBackgroundClick = useCallback(() => {
-    setSelectedEcosystemService(null);
-    setSelectedBmf(null);
-  }, []);
+    const opening = runParam && runParam !== state.historyId && (!previous || previous.runParam !== runParam);
+    if (opening && !state.isLoading) {
+      setIsOpening(true);
+      fetchRun(runParam)
+        .then(run => dispatch({ type: "open", run }))
+        .catch(err => setError(err instanceof Error ? err.message : "Failed to open run"))
+        .finally(() => setIsOpening(false));
+    } else if (!opening && state.historyId && runParam !== state.historyId) {
+      params.set("run", state.historyId);
+      updateQuery(params);
+    }
+  }, [runParam, state.runId, state.historyId, state.isLoading, dispatch, setError]);
 
-  // Get selected service details
-  const selectedServiceDetail = selectedEcosystemService
-    ? showEcosystemServiceDetails[selectedEcosystemService]
-    : null;
-
-  // Get selected BMF details (with connected materials)
-  const selectedBmfDetail = useMemo(() => {
-    if (!selectedBmf) return null;
-    const bmf = showMatchedBmfs.find(b => b.bmf_name === selectedBmf);
-    if (!bmf) return null;
-
-    // Get the ecosystem services this BMF is connected to
-    const connectedServices = showEcosystemConnections
-      .filter(c => c.bmf_name === selectedBmf)
-      .map(c => c.ecosystem_service);
-
-    return {
-      name: bmf.bmf_name,
-      reason: bmf.reason,
-      matched_materials: bmf.matched_materials,
-      connected_services: [...new Set(connectedServices)],
-    };
-  }, [selectedBmf, showMatchedBmfs, showEcosystemConnections]);
-
-  // Prepare BipartiteGraph data - show all BMFs that have ecosystem connections
-  const bipartiteData = useMemo(() => {
-    if (showEcosystemConnections.length === 0) return null;
-
-    // Get unique BMFs that have ecosystem connections (from Neo4j)
-    const bmfNames = [...new Set(showEcosystemConnections.map(c => c.bmf_name))];
-
-    // Left items: All BMFs that have ecosystem connections
-    const leftItems: BipartiteItem[] = bmfNames
-      .sort()
-      .map(name => ({ id: name, label: name }));
-
-    // Right items: Ecosystem services (sorted)
-    const rightItems: BipartiteItem[] = showEcosystemServices
-      .sort()
-      .map(name => ({ id: name, label: name }));
-
-    // Connections: Only for BMFs in our filtered list, deduplicated
-    const validBmfNames = new Set(leftItems.map(i => i.id));
-    const seenConnections = new Set<string>();
-    const connections: BipartiteConnection[] = showEcosystemConnections
-      .filter(c => validBmfNames.has(c.bmf_name))
-      .filter(c => {
-        const key = `${c.bmf_name}-${c.ecosystem_service}`;
-        if (seenConnections.has(key)) return false;
-        seenConnections.add(key);
-        return true;
-      })
-      .map(c => ({
-        sourceId: c.bmf_name,
-        targetId: c.ecosystem_service,
-      }));
-
-    return { leftItems, rightItems, connections };
-  }, [showEcosystemConnections, showEcosystemServices]);
+  const error = shownError(state);
 
   return (
     <div className="p-8 max-w-5xl">
-      <header className="mb-8">
-        <h1 className="text-xl font-mono text-gray-800 mb-2">Material Mapper</h1>
-        <p className="text-sm font-mono text-gray-500">
-          Describe your building strategy and discover the materials and flows involved.
-        </p>
+      <header className="mb-8 flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-xl font-mono text-gray-800 mb-2">Material Mapper</h1>
+          <p className="text-sm font-mono text-gray-500">
+            Describe your building strategy and discover the materials and flows involved.
+          </p>
+        </div>
+        <div className="flex items-center gap-4">
+          <Link
+            href="/dashboard/history"
+            className="flex items-center gap-1 text-xs font-mono text-gray-400 hover:text-gray-600 transition-colors whitespace-nowrap"
+          >
+            <History size={14} />
+            History
+          </Link>
+          <Link
+            href="/dashboard/tools/material-mapper/batch"
+            className="flex items-center gap-1 text-xs font-mono text-gray-400 hover:text-gray-600 transition-colors whitespace-nowrap"
+          >
+            <Layers size={14} />
+            Batch mode
+          </Link>
+        </div>
       </header>
 
+      <BudgetWarning budget={budget} />
+
       {/* Input Form */}
       <form onSubmit={handleSubmit} className="mb-8">
-        <div className="relative">
-          <textarea
-            value={strategy}
-            onChange={(e) => setStrategy(e.target.value)}
-            placeholder="solar panels on the roof, rainwater collection system, green walls with native plants..."
-            className="w-full h-32 p-4 pr-12 font-mono text-sm text-gray-800 placeholder-gray-300 border border-gray-200 rounded-lg resize-none focus:outline-none focus:border-gray-400 transition-colors"
-            disabled={isLoading}
-          />
-          <p className="mt-2 text-xs font-mono text-gray-400">
-            More detail can be helpful. Try describing materials, systems, and design goals.
-          </p>
+        <div className="flex mb-3 w-fit text-xs font-mono border border-gray-200 rounded overflow-hidden">
+          {([
+            ["text", "Free text"],
+            ["builder", "Builder"],
+          ] as const).map(([mode, label]) => (
+            <button
+              key={mode}
+              type="button"
+              disabled={isLoading}
+              onClick={() => {
+                // Carry the builder's description over when switching to free text
+                const carried = mode === "text" && inputMode === "builder" && !strategy.trim();
+                dispatch({
+                  type: "editDraft",
+                  draft: carried ? { inputMode: mode, strategy: serializeStrategy(spec) } : { inputMode: mode },
+                });
+              }}
+              className={`px-3 py-1 transition-colors ${
+                inputMode === mode ? "bg-gray-100 text-gray-700" : "text-gray-400 hover:text-gray-600"
+              }`}
+            >
+              {label}
+            </button>
+          ))}
         </div>
 
-        <div className="mt-4 flex justify-end">
+        {inputMode === "builder" ? (
+          <StrategyBuilder value={spec} onChange={(spec) => dispatch({ type: "editDraft", draft: { spec } })} disabled={isLoading} />
+        ) : (
+          <div className="relative">
+            <textarea
+              value={strategy}
+              onChange={(e) => dispatch({ type: "editDraft", draft: { strategy: e.target.value } })}
+              placeholder="solar panels on the roof, rainwater collection system, green walls with native plants..."
+              className="w-full h-32 p-4 pr-12 font-mono text-sm text-gray-800 placeholder-gray-300 border border-gray-200 rounded-lg resize-none focus:outline-none focus:border-gray-400 transition-colors"
+              disabled={isLoading}
+            />
+            <p className="mt-2 text-xs font-mono text-gray-400">
+              More detail can be helpful. Try describing materials, systems, and design goals.
+            </p>
+          </div>
+        )}
+
+        <div className="mt-4 flex justify-end gap-3">
+          <div className="mr-auto">
+            <ResultImport onImport={handleImport} onError={setError} disabled={isLoading} />
+          </div>
+          {isLoading && (
+            <button
+              type="button"
+              onClick={cancel}
+              className="flex items-center gap-2 px-5 py-2.5 font-mono text-sm text-gray-600 border border-gray-300 rounded-lg hover:border-gray-400 hover:text-gray-800 transition-colors"
+            >
+              <Square size={14} />
+              Cancel
+            </button>
+          )}
           <button
             type="submit"
-            disabled={!strategy.trim() || isLoading}
+            disabled={!description.trim() || isLoading}
             className="flex items-center gap-2 px-5 py-2.5 font-mono text-sm text-white bg-gray-800 rounded-lg hover:bg-gray-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
           >
             {isLoading ? (
@@ -453,13 +257,35 @@ export default function MaterialMapperPage() {
         </div>
       </form>
 
+      {isOpening && (
+        <div className="mb-6 flex items-center gap-2 text-sm font-mono text-gray-400">
+          <Loader2 size={16} className="animate-spin" />
+          Opening run...
+        </div>
+      )}
+
       {/* Progress Indicator */}
-      {isLoading && progress.stage !== "idle" && (
-        <div className="mb-6 p-4 bg-blue-50 border border-blue-200 rounded-lg">
+      {isLoading && (progress.stage !== "idle" || progress.reconnect) && (
+        <div
+          className={`mb-6 p-4 border rounded-lg ${
+            progress.reconnect ? "bg-amber-50 border-amber-200" : "bg-blue-50 border-blue-200"
+          }`}
+        >
           <div className="flex items-center gap-3">
-            <Loader2 size={18} className="animate-spin text-blue-600" />
+            {progress.reconnect ? (
+              <WifiOff size={18} className="text-amber-600" />
+            ) : (
+              <Loader2 size={18} className="animate-spin text-blue-600" />
+            )}
             <div className="flex-1">
-              <p className="font-mono text-sm text-blue-800">{progress.message}</p>
+              <p className={`font-mono text-sm ${progress.reconnect ? "text-amber-800" : "text-blue-800"}`}>
+                {progress.message}
+              </p>
+              {progress.reconnect && (
+                <p className="mt-1 text-xs font-mono text-amber-600">
+                  Attempt {progress.reconnect.attempt} of {progress.reconnect.maxAttempts}
+                </p>
+              )}
               {progress.stage === "stage2" && progress.totalChunks && (
                 <div className="mt-2">
                   <div className="h-1.5 bg-blue-200 rounded-full overflow-hidden">
@@ -485,6 +311,33 @@ export default function MaterialMapperPage() {
         </div>
       )}
 
+      {/* Cancelled or interrupted - partial results stay visible */}
+      {!isLoading && (progress.stage === "cancelled" || progress.stage === "interrupted") && (
+        <div
+          className={`p-4 mb-6 border rounded-lg flex items-start gap-3 ${
+            progress.stage === "interrupted" ? "bg-amber-50 border-amber-200" : "bg-gray-50 border-gray-200"
+          }`}
+        >
+          {progress.stage === "interrupted" ? (
+            <WifiOff size={18} className="text-amber-600 mt-0.5" />
+          ) : (
+            <Square size={18} className="text-gray-500 mt-0.5" />
+          )}
+          <p className={`flex-1 font-mono text-sm ${progress.stage === "interrupted" ? "text-amber-800" : "text-gray-600"}`}>
+            {progress.message}
+          </p>
+          {progress.stage === "interrupted" && state.inputs && (
+            <button
+              onClick={handleRestart}
+              className="flex items-center gap-1.5 px-3 py-1 font-mono text-xs text-amber-800 border border-amber-300 rounded hover:bg-amber-100 transition-colors whitespace-nowrap"
+            >
+              <RotateCcw size={12} />
+              Restart
+            </button>
+          )}
+        </div>
+      )}
+
       {/* Error */}
       {error && (
         <div className="p-4 mb-6 bg-red-50 border border-red-200 rounded-lg flex items-start gap-3">
@@ -493,374 +346,83 @@ export default function MaterialMapperPage() {
         </div>
       )}
 
-      {/* Streaming Results - Show as data comes in */}
-      {(showExtractedMaterials.length > 0 || showMatchedBmfs.length > 0) && (
-        <div className="space-y-8">
-          {/* Stats */}
-          <div className="flex flex-wrap gap-6 text-sm font-mono text-gray-500">
-            <span className="flex items-center gap-1">
-              {progress.stage === "complete" && <CheckCircle2 size={14} className="text-green-600" />}
-              {showExtractedMaterials.length} materials extracted
-            </span>
-            <span>{showMatchedBmfs.length} flows matched</span>
-            {showEcosystemServices.length > 0 && (
-              <span>{showEcosystemServices.length} ecosystem services</span>
-            )}
-            {showRoleAnalyses.length > 0 && (
-              <span>{showRoleAnalyses.length} roles</span>
-            )}
-            {result?.processing_time_ms && (
-              <span>{(result.processing_time_ms / 1000).toFixed(1)}s</span>
-            )}
-          </div>
+      {/* Re-match fell back to a full run */}
+      {curationNotice && (
+        <div className="p-4 mb-6 bg-amber-50 border border-amber-200 rounded-lg flex items-start gap-3">
+          <AlertTriangle size={18} className="text-amber-600 mt-0.5" />
+          <p className="font-mono text-sm text-amber-800">{curationNotice}</p>
+        </div>
+      )}
 
-          {/* Extracted Materials - Show IMMEDIATELY after Stage 1 */}
-          {showExtractedMaterials.length > 0 && (
-            <section className={isLoading && progress.stage === "stage1" ? "animate-pulse" : ""}>
-              <h2 className="text-sm font-mono text-gray-400 uppercase tracking-wider mb-4">
-                Extracted Materials ({showExtractedMaterials.length})
-                {isLoading && progress.stage !== "complete" && (
-                  <span className="ml-2 text-green-600 normal-case">✓ Ready</span>
-                )}
-              </h2>
-              <div className="flex flex-wrap gap-2">
-                {showExtractedMaterials.map((mat, i) => {
-                  const isMatched = showMatchedBmfs.some((bmf) =>
-                    bmf.matched_materials.includes(mat)
-                  );
-                  return (
-                    <span
-                      key={i}
-                      className={`text-xs font-mono px-2 py-1 rounded transition-colors ${
-                        isMatched
-                          ? "bg-green-50 text-green-700 border border-green-200"
-                          : "bg-gray-100 text-gray-600"
-                      }`}
-                    >
-                      {mat}
-                    </span>
-                  );
-                })}
-              </div>
-            </section>
-          )}
+      {/* Malformed events - the run continues, but the output may be incomplete */}
+      {invalidEvents.length > 0 && (
+        <div className="p-4 mb-6 bg-amber-50 border border-amber-200 rounded-lg flex items-start gap-3">
+          <AlertTriangle size={18} className="text-amber-600 mt-0.5" />
+          <div className="font-mono text-sm text-amber-800">
+            <p>
+              {invalidEvents.length} malformed stream {invalidEvents.length === 1 ? "event was" : "events were"} skipped.
+              Results may be incomplete.
+            </p>
+            <p className="mt-1 text-xs text-amber-600">{invalidEvents[0].reason}</p>
+          </div>
+        </div>
+      )}
 
-          {/* Ecosystem Service Connections - BipartiteGraph visualization */}
-          {bipartiteData && bipartiteData.connections.length > 0 && (
-            <section>
-              <h2 className="text-sm font-mono text-gray-400 uppercase tracking-wider mb-4">
-                Ecosystem Service Connections
-                {isLoading && progress.stage === "stage3" && (
-                  <span className="ml-2 text-blue-600 normal-case animate-pulse">Loading...</span>
-                )}
-              </h2>
-              <div
-                ref={vizContainerRef}
-                className="p-4 border border-gray-200 rounded-lg bg-gray-50/50 overflow-x-auto relative"
+      {/* Save and export - only once the run has completed */}
+      {result && (
+        <div className="mb-8 flex items-center gap-3">
+          {savedProjectId ? (
+            <p className="flex-1 flex items-center gap-2 text-sm font-mono text-gray-500">
+              <CheckCircle2 size={16} className="text-green-600" />
+              Saved to
+              <Link href={`/dashboard/projects/${savedProjectId}`} className="text-blue-600 hover:underline">
+                Projects
+              </Link>
+            </p>
+          ) : (
+            <>
+              <input
+                value={projectTitle}
+                onChange={(e) => dispatch({ type: "setTitle", title: e.target.value })}
+                placeholder="Project title"
+                className="flex-1 px-3 py-2 font-mono text-sm text-gray-800 placeholder-gray-300 border border-gray-200 rounded-lg focus:outline-none focus:border-gray-400 transition-colors"
+              />
+              <button
+                onClick={handleSave}
+                disabled={!projectTitle.trim() || isSaving}
+                className="flex items-center gap-2 px-4 py-2 font-mono text-sm text-gray-600 border border-gray-300 rounded-lg hover:border-gray-400 hover:text-gray-800 disabled:text-gray-300 disabled:border-gray-200 disabled:cursor-not-allowed transition-colors"
               >
-                <BipartiteGraph
-                  leftItems={bipartiteData.leftItems}
-                  rightItems={bipartiteData.rightItems}
-                  connections={bipartiteData.connections}
-                  leftHeader={`Building Flows (${bipartiteData.leftItems.length})`}
-                  rightHeader={`Ecosystem Services (${bipartiteData.rightItems.length})`}
-                  rowHeight={28}
-                  columnWidth={220}
-                  connectionAreaWidth={180}
-                  connectionColor="#cbd5e1"
-                  highlightColor="#2563eb"
-                  onLeftItemClick={handleBmfClick}
-                  onRightItemClick={handleEcosystemServiceClick}
-                  selectedLeftId={selectedBmf}
-                  selectedRightId={selectedEcosystemService}
-                  onBackgroundClick={handleBackgroundClick}
-                />
-              </div>
-            </section>
+                {isSaving ? <Loader2 size={16} className="animate-spin" /> : <Save size={16} />}
+                Save to Projects
+              </button>
+            </>
           )}
+          <ExportMenu title={projectTitle} strategy={submittedStrategy} result={result} />
+        </div>
+      )}
 
-          {/* Modal Overlay for Ecosystem Service Details */}
-          {selectedServiceDetail && (
-            <div
-              className="fixed inset-0 z-50 flex items-center justify-center bg-black/30"
-              onClick={() => setSelectedEcosystemService(null)}
-            >
-              <div
-                className="bg-white rounded-lg shadow-xl max-w-md w-full mx-4 max-h-[80vh] flex flex-col animate-fadeIn"
-                onClick={(e) => e.stopPropagation()}
-              >
-                {/* Header */}
-                <div className="flex items-start justify-between p-4 border-b border-gray-200">
-                  <div>
-                    <h3 className="font-mono text-gray-800 font-medium text-lg">
-                      {selectedServiceDetail.name}
-                    </h3>
-                    {selectedServiceDetail.category && (
-                      <span className="text-xs font-mono text-blue-600 uppercase tracking-wider">
-                        {selectedServiceDetail.category}
-                      </span>
-                    )}
-                  </div>
-                  <button
-                    onClick={() => setSelectedEcosystemService(null)}
-                    className="text-gray-400 hover:text-gray-600 p-1 rounded hover:bg-gray-100 transition-colors"
-                  >
-                    <X size={20} />
-                  </button>
-                </div>
-
-                {/* Scrollable Content */}
-                <div className="p-4 overflow-y-auto flex-1">
-                  {selectedServiceDetail.description && (
-                    <p className="text-sm font-mono text-gray-600 mb-4">
-                      {selectedServiceDetail.description}
-                    </p>
-                  )}
-
-                  {selectedServiceDetail.supplementary_connections.length > 0 && (
-                    <div className="border-t border-gray-200 pt-3">
-                      <h4 className="text-xs font-mono text-gray-400 uppercase tracking-wider mb-2">
-                        Material Connections
-                      </h4>
-                      <div className="space-y-1">
-                        {selectedServiceDetail.supplementary_connections.map((conn, i) => (
-                          <div
-                            key={i}
-                            className="flex items-center gap-2 text-sm font-mono text-gray-600"
-                          >
-                            <span className="text-gray-500">{conn.bmf_name}</span>
-                            <span className="text-gray-300">→</span>
-                            <span className="text-gray-500">{conn.text}</span>
-                          </div>
-                        ))}
-                      </div>
-                    </div>
-                  )}
-                </div>
-              </div>
-            </div>
-          )}
-
-          {/* Modal Overlay for BMF Details */}
-          {selectedBmfDetail && (
-            <div
-              className="fixed inset-0 z-50 flex items-center justify-center bg-black/30"
-              onClick={() => setSelectedBmf(null)}
-            >
-              <div
-                className="bg-white rounded-lg shadow-xl max-w-md w-full mx-4 max-h-[80vh] flex flex-col animate-fadeIn"
-                onClick={(e) => e.stopPropagation()}
-              >
-                {/* Header */}
-                <div className="flex items-start justify-between p-4 border-b border-gray-200">
-                  <div>
-                    <h3 className="font-mono text-gray-800 font-medium text-lg">
-                      {selectedBmfDetail.name}
-                    </h3>
-                    <span className="text-xs font-mono text-green-600 uppercase tracking-wider">
-                      Building Metabolism Flow
-                    </span>
-                  </div>
-                  <button
-                    onClick={() => setSelectedBmf(null)}
-                    className="text-gray-400 hover:text-gray-600 p-1 rounded hover:bg-gray-100 transition-colors"
-                  >
-                    <X size={20} />
-                  </button>
-                </div>
-
-                {/* Scrollable Content */}
-                <div className="p-4 overflow-y-auto flex-1">
-                  {selectedBmfDetail.reason && (
-                    <p className="text-sm font-mono text-gray-600 mb-4">
-                      {selectedBmfDetail.reason}
-                    </p>
-                  )}
-
-                  {selectedBmfDetail.matched_materials.length > 0 && (
-                    <div className="mb-4">
-                      <h4 className="text-xs font-mono text-gray-400 uppercase tracking-wider mb-2">
-                        Extracted Materials
-                      </h4>
-                      <div className="flex flex-wrap gap-1">
-                        {selectedBmfDetail.matched_materials.map((mat, i) => (
-                          <span
-                            key={i}
-                            className="text-xs font-mono text-green-700 bg-green-50 border border-green-200 px-2 py-1 rounded"
-                          >
-                            {mat}
-                          </span>
-                        ))}
-                      </div>
-                    </div>
-                  )}
-
-                  {selectedBmfDetail.connected_services.length > 0 && (
-                    <div className="border-t border-gray-200 pt-3">
-                      <h4 className="text-xs font-mono text-gray-400 uppercase tracking-wider mb-2">
-                        Connected Ecosystem Services
-                      </h4>
-                      <div className="space-y-1">
-                        {selectedBmfDetail.connected_services.map((service, i) => (
-                          <div
-                            key={i}
-                            className="text-sm font-mono text-blue-600"
-                          >
-                            {service}
-                          </div>
-                        ))}
-                      </div>
-                    </div>
-                  )}
-                </div>
-              </div>
-            </div>
-          )}
-
-          {/* Building Roles - Show when available */}
-          {showRoleAnalyses.length > 0 && (
-            <section>
-              <h2 className="text-sm font-mono text-gray-400 uppercase tracking-wider mb-4">
-                Building Roles ({showRoleAnalyses.length})
-                {isLoading && progress.stage === "stage4" && (
-                  <span className="ml-2 text-blue-600 normal-case animate-pulse">Analyzing...</span>
-                )}
-              </h2>
-              <div className="grid gap-3">
-                {showRoleAnalyses.map((role, i) => (
-                  <div
-                    key={i}
-                    className="p-4 border border-gray-200 rounded-lg hover:border-purple-300 cursor-pointer transition-colors"
-                    onClick={() => setSelectedRole(role)}
-                  >
-                    <div className="flex items-start justify-between mb-2">
-                      <h3 className="font-mono text-gray-800 font-medium">{role.role_name}</h3>
-                      <span className="text-xs font-mono text-purple-600 bg-purple-50 px-2 py-0.5 rounded">
-                        {role.materials_touched.length} materials
-                      </span>
-                    </div>
-                    <p className="text-sm font-mono text-gray-500 line-clamp-2">
-                      {role.description}
-                    </p>
-                  </div>
-                ))}
-              </div>
-            </section>
-          )}
-
-          {/* Matched BMFs - Show incrementally as chunks complete */}
-          {showMatchedBmfs.length > 0 && (
-            <section>
-              <h2 className="text-sm font-mono text-gray-400 uppercase tracking-wider mb-4">
-                Matched Flows ({showMatchedBmfs.length})
-                {isLoading && progress.stage === "stage2" && (
-                  <span className="ml-2 text-blue-600 normal-case animate-pulse">Finding more...</span>
-                )}
-              </h2>
-              <div className="grid gap-3">
-                {showMatchedBmfs.map((bmf, i) => (
-                  <div
-                    key={i}
-                    className="p-4 border border-gray-200 rounded-lg animate-fadeIn"
-                  >
-                    <div className="flex items-start justify-between mb-2">
-                      <h3 className="font-mono text-gray-800">{bmf.bmf_name}</h3>
-                    </div>
-                    <p className="text-sm font-mono text-gray-500 mb-2">
-                      {bmf.reason}
-                    </p>
-                    <div className="flex flex-wrap gap-1">
-                      {bmf.matched_materials.map((mat, j) => (
-                        <span
-                          key={j}
-                          className="text-xs font-mono text-gray-500 bg-gray-100 px-2 py-0.5 rounded"
-                        >
-                          {mat}
-                        </span>
-                      ))}
-                    </div>
-                  </div>
-                ))}
-              </div>
-            </section>
-          )}
-
-          {/* Unmatched - Only show when complete */}
-          {result && result.unmatched_materials.length > 0 && (
-            <section>
-              <h2 className="text-sm font-mono text-gray-400 uppercase tracking-wider mb-4">
-                Unmatched Materials ({result.unmatched_materials.length})
-              </h2>
-              <div className="flex flex-wrap gap-2">
-                {result.unmatched_materials.map((mat, i) => (
-                  <span
-                    key={i}
-                    className="text-xs font-mono text-gray-500 bg-gray-100 px-2 py-1 rounded"
-                  >
-                    {mat}
-                  </span>
-                ))}
-              </div>
-            </section>
-          )}
-
-          {/* Modal Overlay for Role Details */}
-          {selectedRole && (
-            <div
-              className="fixed inset-0 z-50 flex items-center justify-center bg-black/30"
-              onClick={() => setSelectedRole(null)}
-            >
-              <div
-                className="bg-white rounded-lg shadow-xl max-w-md w-full mx-4 max-h-[80vh] flex flex-col animate-fadeIn"
-                onClick={(e) => e.stopPropagation()}
-              >
-                {/* Header */}
-                <div className="flex items-start justify-between p-4 border-b border-gray-200">
-                  <div>
-                    <h3 className="font-mono text-gray-800 font-medium text-lg">
-                      {selectedRole.role_name}
-                    </h3>
-                    <span className="text-xs font-mono text-purple-600 uppercase tracking-wider">
-                      Building Role
-                    </span>
-                  </div>
-                  <button
-                    onClick={() => setSelectedRole(null)}
-                    className="text-gray-400 hover:text-gray-600 p-1 rounded hover:bg-gray-100 transition-colors"
-                  >
-                    <X size={20} />
-                  </button>
-                </div>
-
-                {/* Scrollable Content */}
-                <div className="p-4 overflow-y-auto flex-1">
-                  <p className="text-sm font-mono text-gray-600 mb-4">
-                    {selectedRole.description}
-                  </p>
-
-                  {selectedRole.materials_touched.length > 0 && (
-                    <div className="border-t border-gray-200 pt-3">
-                      <h4 className="text-xs font-mono text-gray-400 uppercase tracking-wider mb-2">
-                        Materials Touched
-                      </h4>
-                      <div className="flex flex-wrap gap-1">
-                        {selectedRole.materials_touched.map((mat, i) => (
-                          <span
-                            key={i}
-                            className="text-xs font-mono text-purple-700 bg-purple-50 border border-purple-200 px-2 py-1 rounded"
-                          >
-                            {mat}
-                          </span>
-                        ))}
-                      </div>
-                    </div>
-                  )}
-                </div>
-              </div>
-            </div>
-          )}
+      {/* Compare the finished run against a saved project */}
+      {result && (
+        <div className="mb-8 flex flex-wrap">
+          <CompareWithProject
+            current={{ label: projectTitle.trim() || "Current run", result }}
+            excludeProjectId={savedProjectId ?? undefined}
+          />
         </div>
       )}
+
+      {!isLoading && timeline.length > 0 && (
+        <RunTimeline entries={timeline} fileStem={exportFileStem(projectTitle)} />
+      )}
+
+      <MapperResults
+        data={shownSnapshot(state)}
+        result={result}
+        isLoading={isLoading}
+        stage={progress.stage}
+        onRematch={handleRematch}
+        onAnnotationsChange={result && !isLoading ? handleAnnotationsChange : undefined}
+      />
     </div>
   );
 }
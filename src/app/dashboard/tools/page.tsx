@@ -1,5 +1,7 @@
 import Link from "next/link";
+import { auth } from "@clerk/nextjs/server";
 import { Network } from "lucide-react";
+import { can, workspaceRole } from "@/lib/auth/roles";
 
 const tools = [
   {
@@ -11,7 +13,11 @@ const tools = [
   },
 ];
 
-export default function ToolsPage() {
+export default async function ToolsPage() {
+  // Viewers can't run analyses, so the tools are shown but not linked
+  const { orgId, orgRole } = await auth();
+  const canRun = can(workspaceRole(orgId, orgRole), "runAnalyses");
+
   return (
     <div className="p-8 max-w-4xl">
       <header className="mb-10">
@@ -22,12 +28,8 @@ export default function ToolsPage() {
       </header>
 
       <div className="grid gap-4">
-        {tools.map((tool) => (
-          <Link
-            key={tool.id}
-            href={tool.href}
-            className="block p-5 border border-gray-200 rounded-lg hover:border-gray-300 hover:bg-gray-50 transition-colors group"
-          >
+        {tools.map((tool) => {
+          const card = (
             <div className="flex items-start gap-4">
               <div className="w-10 h-10 rounded-lg bg-gray-100 flex items-center justify-center text-gray-400 group-hover:bg-gray-200 group-hover:text-gray-500 transition-colors">
                 <Network size={20} strokeWidth={1.5} />
@@ -39,11 +41,25 @@ export default function ToolsPage() {
                 </p>
               </div>
               <span className="text-xs font-mono text-gray-400 px-2 py-1 bg-gray-100 rounded">
-                {tool.status}
+                {canRun ? tool.status : "viewers can't run analyses"}
               </span>
             </div>
-          </Link>
-        ))}
+          );
+
+          return canRun ? (
+            <Link
+              key={tool.id}
+              href={tool.href}
+              className="block p-5 border border-gray-200 rounded-lg hover:border-gray-300 hover:bg-gray-50 transition-colors group"
+            >
+              {card}
+            </Link>
+          ) : (
+            <div key={tool.id} className="p-5 border border-gray-200 rounded-lg opacity-60 cursor-not-allowed">
+              {card}
+            </div>
+          );
+        })}
       </div>
     </div>
   );
@@ -0,0 +1,225 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Loader2, AlertCircle } from "lucide-react";
+import { DailyRunsChart, CumulativeSpendChart, StageLatencyBars } from "@/components/usage/UsageCharts";
+import { fetchUsage, updateBudget } from "@/lib/usage/client";
+import type { BudgetStatus, UsageScope, UsageSummary } from "@/lib/usage/types";
+import { useWorkspace } from "@/lib/auth/useWorkspace";
+
+export default function UsagePage() {
+  const workspace = useWorkspace();
+  const [scope, setScope] = useState<UsageScope>("me");
+  const [summary, setSummary] = useState<UsageSummary | null>(null);
+  const [budget, setBudget] = useState<BudgetStatus | null>(null);
+  const [budgetInput, setBudgetInput] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setSummary(null);
+    fetchUsage(scope)
+      .then(data => {
+        setSummary(data.summary);
+        setBudget(data.budget);
+        setBudgetInput(data.budget.monthlyUsd?.toString() ?? "");
+      })
+      .catch(err => setError(err instanceof Error ? err.message : "Failed to load usage"));
+  }, [scope]);
+
+  const saveBudget = useCallback(async (monthlyUsd: number | null) => {
+    setError(null);
+    try {
+      const updated = await updateBudget(monthlyUsd);
+      setBudget(updated);
+      setBudgetInput(updated.monthlyUsd?.toString() ?? "");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save budget");
+    }
+  }, []);
+
+  const monthName = budget
+    ? new Date(`${budget.month}-01T00:00:00Z`).toLocaleDateString(undefined, { month: "long", timeZone: "UTC" })
+    : "";
+  const budgetShare = budget?.monthlyUsd ? Math.min(1, budget.spentUsd / budget.monthlyUsd) : 0;
+
+  return (
+    <div className="p-8 max-w-4xl">
+      <header className="mb-10 flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-xl font-mono text-gray-800 mb-2">Usage</h1>
+          <p className="text-sm font-mono text-gray-500">
+            Analysis runs, spend and latency over the last 30 days.
+          </p>
+        </div>
+        {workspace.orgId && (
+          <div className="flex text-xs font-mono border border-gray-200 rounded overflow-hidden">
+            {([
+              ["me", "Mine"],
+              ["workspace", "Whole workspace"],
+            ] as const).map(([value, label]) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => setScope(value)}
+                className={`px-3 py-1 transition-colors ${
+                  scope === value ? "bg-gray-100 text-gray-700" : "text-gray-400 hover:text-gray-600"
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        )}
+      </header>
+
+      {error && (
+        <div className="p-4 mb-6 bg-red-50 border border-red-200 rounded-lg flex items-start gap-3">
+          <AlertCircle size={18} className="text-red-600 mt-0.5" />
+          <p className="font-mono text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
+      {!summary && !error && (
+        <div className="flex items-center gap-2 text-sm font-mono text-gray-400">
+          <Loader2 size={16} className="animate-spin" />
+          Loading usage...
+        </div>
+      )}
+
+      {summary && budget && (
+        <>
+          <div className="grid grid-cols-3 gap-4 mb-10">
+            {[
+              ["Runs", summary.runs.toString()],
+              ["Total spend", `$${summary.costUsd.toFixed(2)}`],
+              ["Avg run time", summary.avgProcessingMs === null ? "—" : `${(summary.avgProcessingMs / 1000).toFixed(1)}s`],
+            ].map(([label, value]) => (
+              <div key={label} className="p-4 border border-gray-200 rounded-lg">
+                <p className="text-xs font-mono text-gray-400 mb-1">{label}</p>
+                <p className="text-lg font-mono text-gray-800">{value}</p>
+              </div>
+            ))}
+          </div>
+
+          {/* Monthly budget */}
+          <section className="mb-10">
+            <h2 className="text-sm font-mono text-gray-400 uppercase tracking-wider mb-4">
+              Budget · {monthName}
+            </h2>
+            <p className="text-sm font-mono text-gray-600 mb-2">
+              You&apos;ve spent ${budget.spentUsd.toFixed(2)}
+              {budget.monthlyUsd !== null ? ` of your $${budget.monthlyUsd.toFixed(2)} monthly budget` : " this month"}.
+            </p>
+            {budget.monthlyUsd !== null && (
+              <div className="h-1.5 mb-4 bg-gray-100 rounded-full overflow-hidden">
+                <div
+                  className={`h-full ${budget.exceeded ? "bg-amber-500" : "bg-gray-700"}`}
+                  style={{ width: `${budgetShare * 100}%` }}
+                />
+              </div>
+            )}
+            {workspace.can("manageBudgets") ? (
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  const value = Number(budgetInput);
+                  if (value > 0) saveBudget(value);
+                }}
+                className="flex items-center gap-2 text-xs font-mono text-gray-500"
+              >
+                Monthly budget per user $
+                <input
+                  type="number"
+                  min="0.01"
+                  step="0.01"
+                  value={budgetInput}
+                  onChange={(e) => setBudgetInput(e.target.value)}
+                  placeholder="none"
+                  className="w-24 px-2 py-1 text-gray-700 placeholder-gray-300 border border-gray-200 rounded focus:outline-none focus:border-gray-400"
+                />
+                <button
+                  type="submit"
+                  disabled={!(Number(budgetInput) > 0)}
+                  className="px-3 py-1 text-white bg-gray-800 rounded hover:bg-gray-700 disabled:bg-gray-300 transition-colors"
+                >
+                  Save
+                </button>
+                {budget.monthlyUsd !== null && (
+                  <button
+                    type="button"
+                    onClick={() => saveBudget(null)}
+                    className="px-2 py-1 text-gray-400 hover:text-gray-700 transition-colors"
+                  >
+                    Clear
+                  </button>
+                )}
+                <span className="text-gray-400">Runs past the budget ask for confirmation first.</span>
+              </form>
+            ) : (
+              <p className="text-xs font-mono text-gray-400">Budgets are set by workspace admins.</p>
+            )}
+          </section>
+
+          <div className="grid grid-cols-2 gap-8 mb-10">
+            <section>
+              <h2 className="text-sm font-mono text-gray-400 uppercase tracking-wider mb-4">
+                Runs per Day
+              </h2>
+              <DailyRunsChart daily={summary.daily} />
+            </section>
+            <section>
+              <h2 className="text-sm font-mono text-gray-400 uppercase tracking-wider mb-4">
+                Cumulative Spend
+              </h2>
+              <CumulativeSpendChart daily={summary.daily} />
+              <p className="mt-2 text-xs font-mono text-gray-500 text-right">
+                ${(summary.daily[summary.daily.length - 1]?.cumulativeUsd ?? 0).toFixed(2)}
+              </p>
+            </section>
+          </div>
+
+          <section className="mb-10">
+            <h2 className="text-sm font-mono text-gray-400 uppercase tracking-wider mb-4">
+              Average Stage Latency
+            </h2>
+            <StageLatencyBars stageAvgMs={summary.stageAvgMs} />
+          </section>
+
+          <section>
+            <h2 className="text-sm font-mono text-gray-400 uppercase tracking-wider mb-4">
+              Most Expensive Strategies
+            </h2>
+            {summary.topStrategies.length === 0 ? (
+              <p className="text-sm font-mono text-gray-400">No runs yet.</p>
+            ) : (
+              <div className="border border-gray-200 rounded-lg overflow-hidden">
+                <table className="w-full text-sm font-mono">
+                  <thead>
+                    <tr className="text-xs text-gray-400 uppercase tracking-wider text-left border-b border-gray-200 bg-gray-50">
+                      <th className="px-3 py-2">Strategy</th>
+                      <th className="px-3 py-2 w-16 text-right">Runs</th>
+                      <th className="px-3 py-2 w-24 text-right">Spend</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {summary.topStrategies.map(entry => (
+                      <tr key={entry.strategy} className="border-b border-gray-100 last:border-0">
+                        <td className="px-3 py-2 max-w-0">
+                          <p className="text-gray-800 truncate" title={entry.strategy}>
+                            {entry.strategy.split("\n")[0]}
+                          </p>
+                        </td>
+                        <td className="px-3 py-2 text-right text-gray-600">{entry.runs}</td>
+                        <td className="px-3 py-2 text-right text-gray-600">${entry.costUsd.toFixed(4)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </section>
+        </>
+      )}
+    </div>
+  );
+}
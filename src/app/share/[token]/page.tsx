@@ -0,0 +1,72 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { Link2Off } from "lucide-react";
+import { MapperResults } from "@/components/material-mapper/MapperResults";
+import { ExportMenu } from "@/components/material-mapper/ExportMenu";
+import { resolveShare } from "@/lib/shares/store";
+
+/**
+ * Public, read-only view of a shared project. Rendered on the server so the
+ * token is checked (expiry, revocation) on every visit; nothing here can re-run
+ * or edit the analysis.
+ */
+
+export const metadata: Metadata = {
+  title: "Shared analysis · EcoEvo Studio",
+  robots: { index: false, follow: false },
+};
+
+export default async function SharePage({ params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params;
+  const shared = await resolveShare(token);
+
+  if (!shared) {
+    return (
+      <main className="min-h-screen flex items-center justify-center bg-white px-6">
+        <div className="max-w-md text-center">
+          <Link2Off size={24} className="mx-auto mb-4 text-gray-300" />
+          <h1 className="font-mono text-lg text-gray-700 mb-2">This link is no longer available</h1>
+          <p className="font-mono text-sm text-gray-400">
+            It may have expired or been revoked. Ask the person who shared it for a new link.
+          </p>
+          <Link href="/" className="inline-block mt-6 text-xs font-mono text-gray-400 hover:text-gray-600">
+            EcoEvo Studio
+          </Link>
+        </div>
+      </main>
+    );
+  }
+
+  const { project, share } = shared;
+
+  return (
+    <main className="min-h-screen bg-white">
+      <div className="p-8 max-w-5xl mx-auto">
+        <header className="mb-8 flex items-start justify-between gap-4">
+          <div>
+            <p className="text-xs font-mono text-gray-400 uppercase tracking-wider mb-2">
+              Shared analysis · read-only
+            </p>
+            <h1 className="text-xl font-mono text-gray-800 mb-2">{project.title}</h1>
+            <p className="text-xs font-mono text-gray-400">
+              Material Mapper
+              {share.expiresAt && ` · link expires ${new Date(share.expiresAt).toLocaleDateString()}`}
+            </p>
+          </div>
+          <ExportMenu title={project.title} strategy={project.strategy} result={project.result} />
+        </header>
+
+        <section className="mb-8">
+          <h2 className="text-sm font-mono text-gray-400 uppercase tracking-wider mb-4">
+            Strategy
+          </h2>
+          <p className="p-4 font-mono text-sm text-gray-700 bg-gray-50 border border-gray-200 rounded-lg whitespace-pre-wrap">
+            {project.strategy}
+          </p>
+        </section>
+
+        <MapperResults data={project.result} result={project.result} />
+      </div>
+    </main>
+  );
+}
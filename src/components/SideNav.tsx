@@ -4,12 +4,16 @@ import { useState, useRef, useEffect } from "react";
 import Link from "next/link";
 import { usePathname } from "next/navigation";
 import { useUser, useClerk } from "@clerk/nextjs";
-import { Home, Network, Folder, LogOut } from "lucide-react";
+import { Home, Network, Folder, History, BarChart3, LogOut, Loader2, WifiOff } from "lucide-react";
+import { WorkspaceSwitcher } from "./WorkspaceSwitcher";
+import { useMapperRun } from "./material-mapper/MapperRunProvider";
 
 const navItems = [
   { href: "/dashboard", icon: Home, label: "Home" },
   { href: "/dashboard/tools", icon: Network, label: "Tools" },
   { href: "/dashboard/projects", icon: Folder, label: "Projects" },
+  { href: "/dashboard/history", icon: History, label: "History" },
+  { href: "/dashboard/usage", icon: BarChart3, label: "Usage" },
 ];
 
 export function SideNav() {
@@ -17,6 +21,7 @@ export function SideNav() {
   const { user } = useUser();
   const { signOut } = useClerk();
   const [showMenu, setShowMenu] = useState(false);
+  const { state: mapper } = useMapperRun();
   const menuRef = useRef<HTMLDivElement>(null);
 
   const firstInitial = user?.firstName?.[0]?.toUpperCase() || "?";
@@ -55,8 +60,30 @@ export function SideNav() {
             </Link>
           );
         })}
+
+        {/* A mapper run streaming in the background */}
+        {mapper.isLoading && (
+          <Link
+            href="/dashboard/tools/material-mapper"
+            title={`Material Mapper: ${mapper.run.progress.message}`}
+            className={`mt-2 flex flex-col items-center justify-center w-12 h-14 rounded-lg transition-colors ${
+              mapper.run.progress.reconnect
+                ? "text-amber-600 hover:bg-amber-50"
+                : "text-blue-600 hover:bg-blue-50"
+            }`}
+          >
+            {mapper.run.progress.reconnect ? (
+              <WifiOff size={20} strokeWidth={1.5} />
+            ) : (
+              <Loader2 size={20} strokeWidth={1.5} className="animate-spin" />
+            )}
+            <span className="text-[10px] mt-1 font-mono">Running</span>
+          </Link>
+        )}
       </div>
 
+      <WorkspaceSwitcher />
+
       {/* Avatar with menu */}
       <div className="pb-2 relative" ref={menuRef}>
         <button
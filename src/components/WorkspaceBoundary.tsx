@@ -0,0 +1,15 @@
+"use client";
+
+import { useAuth } from "@clerk/nextjs";
+
+/**
+ * WorkspaceBoundary - Remounts its children when the active organization
+ * changes, so pages refetch projects for the new workspace instead of showing
+ * another studio's data.
+ */
+export function WorkspaceBoundary({ children }: { children: React.ReactNode }) {
+  const { orgId } = useAuth();
+  return <div key={orgId ?? "personal"}>{children}</div>;
+}
+
+export default WorkspaceBoundary;
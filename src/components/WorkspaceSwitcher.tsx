@@ -0,0 +1,96 @@
+"use client";
+
+import { useState, useRef, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { useOrganization, useOrganizationList } from "@clerk/nextjs";
+import { Check, User } from "lucide-react";
+import { useWorkspace } from "@/lib/auth/useWorkspace";
+import { ROLE_LABELS, workspaceRole } from "@/lib/auth/roles";
+
+/**
+ * WorkspaceSwitcher - SideNav button for switching between the personal
+ * workspace and the Clerk organizations (studios) the user belongs to.
+ * Projects, share links and permissions all follow the active workspace.
+ */
+
+export function WorkspaceSwitcher() {
+  const router = useRouter();
+  const { organization } = useOrganization();
+  const { isLoaded, setActive, userMemberships } = useOrganizationList({
+    userMemberships: { infinite: true },
+  });
+  const { role } = useWorkspace();
+  const [showMenu, setShowMenu] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close menu when clicking outside
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setShowMenu(false);
+      }
+    }
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, []);
+
+  const memberships = userMemberships.data ?? [];
+
+  // Nothing to switch between
+  if (!isLoaded || (memberships.length === 0 && !organization)) return null;
+
+  const switchTo = async (organizationId: string | null) => {
+    setShowMenu(false);
+    if (organizationId === (organization?.id ?? null)) return;
+    await setActive({ organization: organizationId });
+    router.refresh();
+  };
+
+  const initial = organization?.name[0]?.toUpperCase();
+
+  return (
+    <div className="relative mb-3" ref={menuRef}>
+      <button
+        onClick={() => setShowMenu(!showMenu)}
+        className="w-9 h-9 rounded-lg bg-white border border-gray-200 flex items-center justify-center text-gray-600 text-sm font-mono font-medium hover:border-gray-300 transition-colors cursor-pointer"
+        title={`${organization?.name ?? "Personal workspace"} · ${ROLE_LABELS[role]}`}
+      >
+        {initial ?? <User size={16} strokeWidth={1.5} />}
+      </button>
+
+      {showMenu && (
+        <div className="absolute bottom-0 left-full ml-2 w-56 bg-white border border-gray-200 rounded-lg shadow-lg overflow-hidden z-50">
+          <p className="px-3 pt-2 pb-1 text-[10px] font-mono text-gray-400 uppercase tracking-wider">
+            Workspace
+          </p>
+          <button
+            onClick={() => switchTo(null)}
+            className="w-full flex items-center gap-2 px-3 py-2 text-sm font-mono text-gray-600 hover:bg-gray-100 transition-colors"
+          >
+            <User size={14} className="text-gray-400" />
+            <span className="flex-1 text-left truncate">Personal</span>
+            {!organization && <Check size={14} className="text-gray-500" />}
+          </button>
+          {memberships.map(membership => (
+            <button
+              key={membership.organization.id}
+              onClick={() => switchTo(membership.organization.id)}
+              className="w-full flex items-center gap-2 px-3 py-2 text-sm font-mono text-gray-600 hover:bg-gray-100 transition-colors"
+            >
+              <span className="w-3.5 text-center text-xs text-gray-400">
+                {membership.organization.name[0]?.toUpperCase()}
+              </span>
+              <span className="flex-1 text-left truncate">{membership.organization.name}</span>
+              <span className="text-[10px] text-gray-400">
+                {ROLE_LABELS[workspaceRole(membership.organization.id, membership.role)]}
+              </span>
+              {organization?.id === membership.organization.id && <Check size={14} className="text-gray-500" />}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default WorkspaceSwitcher;
@@ -0,0 +1,56 @@
+"use client";
+
+import { useState } from "react";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import type { VersionChain } from "@/lib/history/versions";
+import type { RunHistorySummary } from "@/lib/history/types";
+
+/**
+ * VersionStepper - Steps through the versions of a strategy, oldest first,
+ * showing each one's full text and outcome. The actions for the shown version
+ * are rendered by the caller.
+ */
+
+export interface VersionStepperProps {
+  chain: VersionChain;
+  renderActions: (run: RunHistorySummary) => React.ReactNode;
+}
+
+export function VersionStepper({ chain, renderActions }: VersionStepperProps) {
+  const [index, setIndex] = useState(chain.index);
+  const run = chain.versions[index];
+  if (!run) return null;
+
+  const stepClass =
+    "p-1 text-gray-400 rounded hover:text-gray-600 hover:bg-gray-100 disabled:text-gray-200 disabled:hover:bg-transparent transition-colors";
+
+  return (
+    <div className="mt-3 p-3 bg-gray-50 border border-gray-200 rounded-lg">
+      <div className="flex items-center gap-2 mb-2">
+        <button type="button" onClick={() => setIndex(index - 1)} disabled={index === 0} className={stepClass} title="Previous version">
+          <ChevronLeft size={16} />
+        </button>
+        <span className="text-xs font-mono text-gray-500">
+          Version {index + 1} of {chain.versions.length}
+        </span>
+        <button
+          type="button"
+          onClick={() => setIndex(index + 1)}
+          disabled={index === chain.versions.length - 1}
+          className={stepClass}
+          title="Next version"
+        >
+          <ChevronRight size={16} />
+        </button>
+        <span className="text-xs font-mono text-gray-400">{new Date(run.createdAt).toLocaleString()}</span>
+        <div className="ml-auto flex items-center gap-1">{renderActions(run)}</div>
+      </div>
+      <p className="font-mono text-sm text-gray-700 whitespace-pre-wrap">{run.strategy}</p>
+      <p className="mt-2 text-xs font-mono text-gray-400">
+        {run.status} · {run.counts.materials} materials · {run.counts.flows} flows · {run.counts.services} services · {run.counts.roles} roles
+      </p>
+    </div>
+  );
+}
+
+export default VersionStepper;
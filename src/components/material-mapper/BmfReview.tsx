@@ -0,0 +1,177 @@
+"use client";
+
+import { useState } from "react";
+import { Check, Plus, X } from "lucide-react";
+import { NoteField } from "./NoteField";
+import { CONFIDENCE_LEVELS, REVIEW_EDGE_STYLES, Confidence } from "./graphStyles";
+import {
+  MANUAL_RELATIONSHIP,
+  annotateBmf,
+  addManualConnection,
+  removeManualConnection,
+} from "@/lib/material-mapper/annotations";
+import type { MatchedBMF, ResultAnnotations, ReviewStatus } from "@/lib/material-mapper/types";
+
+/**
+ * BmfReview - Reviewer controls for a matched flow, shown in its detail modal:
+ * accept or reject the match, override its confidence, add a note, and link it
+ * to ecosystem services by hand.
+ */
+
+export interface BmfReviewProps {
+  /** The flow as matched by the agent (before overrides) */
+  bmf: MatchedBMF;
+  annotations: ResultAnnotations | undefined;
+  onChange: (annotations: ResultAnnotations) => void;
+  /** Known ecosystem services, offered when adding a manual link */
+  services: string[];
+  /** Services the agent already connected to this flow */
+  connectedServices: string[];
+}
+
+const STATUSES: [ReviewStatus | undefined, string][] = [
+  [undefined, "Unreviewed"],
+  ["accepted", "Accept"],
+  ["rejected", "Reject"],
+];
+
+export function BmfReview({ bmf, annotations, onChange, services, connectedServices }: BmfReviewProps) {
+  const [newService, setNewService] = useState("");
+  const [newRelationship, setNewRelationship] = useState("");
+
+  const annotation = annotations?.bmfs[bmf.bmf_name];
+  const manualLinks = (annotations?.manual_connections ?? []).filter(c => c.bmf_name === bmf.bmf_name);
+  const linked = new Set([...connectedServices, ...manualLinks.map(c => c.ecosystem_service)]);
+
+  const addLink = () => {
+    const service = newService.trim();
+    if (!service || linked.has(service)) return;
+    onChange(addManualConnection(annotations, {
+      bmf_name: bmf.bmf_name,
+      ecosystem_service: service,
+      relationship_type: newRelationship.trim() || MANUAL_RELATIONSHIP,
+    }));
+    setNewService("");
+    setNewRelationship("");
+  };
+
+  const inputClass =
+    "px-2 py-1 text-xs font-mono text-gray-700 placeholder-gray-300 border border-gray-200 rounded focus:outline-none focus:border-gray-400";
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="flex text-xs font-mono border border-gray-200 rounded overflow-hidden">
+          {STATUSES.map(([status, label]) => (
+            <button
+              key={label}
+              type="button"
+              onClick={() => onChange(annotateBmf(annotations, bmf.bmf_name, { status }))}
+              className={`flex items-center gap-1 px-2 py-1 transition-colors ${
+                annotation?.status === status
+                  ? status === "rejected"
+                    ? "bg-red-50 text-red-700"
+                    : status === "accepted"
+                      ? "bg-green-50 text-green-700"
+                      : "bg-gray-100 text-gray-700"
+                  : "text-gray-400 hover:text-gray-600"
+              }`}
+            >
+              {status === "accepted" && <Check size={12} />}
+              {status === "rejected" && <X size={12} />}
+              {label}
+            </button>
+          ))}
+        </div>
+
+        <label className="flex items-center gap-1.5 text-xs font-mono text-gray-500">
+          Confidence
+          <select
+            value={annotation?.confidence ?? bmf.confidence}
+            onChange={(e) => {
+              const confidence = e.target.value as Confidence;
+              onChange(annotateBmf(annotations, bmf.bmf_name, {
+                confidence: confidence === bmf.confidence ? undefined : confidence,
+              }));
+            }}
+            className="px-1 py-0.5 text-xs font-mono text-gray-600 bg-transparent border border-gray-200 rounded focus:outline-none"
+          >
+            {CONFIDENCE_LEVELS.map(level => (
+              <option key={level} value={level}>
+                {level}{level === bmf.confidence ? " (agent)" : ""}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <NoteField
+        key={bmf.bmf_name}
+        value={annotation?.note}
+        onSave={(note) => onChange(annotateBmf(annotations, bmf.bmf_name, { note }))}
+      />
+
+      <div>
+        <h4 className="text-xs font-mono text-gray-400 uppercase tracking-wider mb-2">
+          Manual Service Links
+        </h4>
+        {manualLinks.length > 0 && (
+          <div className="space-y-1 mb-2">
+            {manualLinks.map(link => (
+              <div key={link.ecosystem_service} className="flex items-center gap-2 text-sm font-mono">
+                <span style={{ color: REVIEW_EDGE_STYLES.manual.color }}>{link.ecosystem_service}</span>
+                {link.relationship_type !== MANUAL_RELATIONSHIP && (
+                  <span className="text-xs text-gray-400">{link.relationship_type.replace(/_/g, " ")}</span>
+                )}
+                <button
+                  type="button"
+                  onClick={() => onChange(removeManualConnection(annotations, link))}
+                  className="ml-auto text-gray-400 hover:text-red-600 transition-colors"
+                  title="Remove link"
+                >
+                  <X size={14} />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            addLink();
+          }}
+          className="flex items-center gap-2"
+        >
+          <input
+            value={newService}
+            onChange={(e) => setNewService(e.target.value)}
+            list={`services-${bmf.bmf_name}`}
+            placeholder="Ecosystem service"
+            className={`flex-1 ${inputClass}`}
+          />
+          <datalist id={`services-${bmf.bmf_name}`}>
+            {services.filter(s => !linked.has(s)).map(s => (
+              <option key={s} value={s} />
+            ))}
+          </datalist>
+          <input
+            value={newRelationship}
+            onChange={(e) => setNewRelationship(e.target.value)}
+            placeholder="Relationship"
+            className={`w-28 ${inputClass}`}
+          />
+          <button
+            type="submit"
+            disabled={!newService.trim() || linked.has(newService.trim())}
+            className="text-gray-400 hover:text-gray-700 disabled:opacity-40 transition-colors"
+            title="Add link"
+          >
+            <Plus size={16} />
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+export default BmfReview;
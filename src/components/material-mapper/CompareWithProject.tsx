@@ -0,0 +1,111 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { GitCompare, Loader2, X } from "lucide-react";
+import { fetchProjects, fetchProject } from "@/lib/projects/client";
+import type { Project, ProjectSummary } from "@/lib/projects/types";
+import { MapperComparison, ComparisonSide } from "./MapperComparison";
+
+/**
+ * CompareWithProject - Picks a saved project as the baseline and compares the
+ * given run against it.
+ */
+
+export interface CompareWithProjectProps {
+  /** The run being compared (the current run, or an open project) */
+  current: ComparisonSide;
+  /** Hide this project from the picker (when `current` is itself a saved project) */
+  excludeProjectId?: string;
+}
+
+export function CompareWithProject({ current, excludeProjectId }: CompareWithProjectProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [projects, setProjects] = useState<ProjectSummary[] | null>(null);
+  const [baselineId, setBaselineId] = useState("");
+  const [baseline, setBaseline] = useState<Project | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the picker options the first time it opens
+  useEffect(() => {
+    if (!isOpen || projects) return;
+    fetchProjects()
+      .then(setProjects)
+      .catch(err => setError(err instanceof Error ? err.message : "Failed to load projects"));
+  }, [isOpen, projects]);
+
+  useEffect(() => {
+    if (!baselineId) return;
+    let cancelled = false;
+    setBaseline(null);
+    setError(null);
+    fetchProject(baselineId)
+      .then(project => !cancelled && setBaseline(project))
+      .catch(err => !cancelled && setError(err instanceof Error ? err.message : "Failed to load project"));
+    return () => {
+      cancelled = true;
+    };
+  }, [baselineId]);
+
+  const options = projects?.filter(p => p.id !== excludeProjectId) ?? null;
+
+  const close = () => {
+    setIsOpen(false);
+    setBaselineId("");
+    setBaseline(null);
+    setError(null);
+  };
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={() => setIsOpen(true)}
+        className="flex items-center gap-2 px-4 py-2 font-mono text-sm text-gray-600 border border-gray-300 rounded-lg hover:border-gray-400 hover:text-gray-800 transition-colors"
+      >
+        <GitCompare size={16} />
+        Compare
+      </button>
+    );
+  }
+
+  return (
+    <section className="w-full p-4 border border-gray-200 rounded-lg">
+      <div className="flex items-center gap-3 mb-6">
+        <h2 className="text-sm font-mono text-gray-400 uppercase tracking-wider">Compare with</h2>
+        <select
+          value={baselineId}
+          onChange={(e) => setBaselineId(e.target.value)}
+          disabled={!options}
+          className="flex-1 px-2 py-1.5 font-mono text-sm text-gray-800 bg-transparent border border-gray-200 rounded focus:outline-none focus:border-gray-400"
+        >
+          <option value="">{options ? "Choose a saved project..." : "Loading projects..."}</option>
+          {options?.map(p => (
+            <option key={p.id} value={p.id}>{p.title}</option>
+          ))}
+        </select>
+        <button
+          onClick={close}
+          className="text-gray-400 hover:text-gray-600 p-1 rounded hover:bg-gray-100 transition-colors"
+          title="Close comparison"
+        >
+          <X size={18} />
+        </button>
+      </div>
+
+      {error && <p className="mb-4 font-mono text-sm text-red-700">{error}</p>}
+      {options?.length === 0 && (
+        <p className="font-mono text-sm text-gray-400">No other saved projects to compare with.</p>
+      )}
+      {baselineId && !baseline && !error && (
+        <div className="flex items-center gap-2 text-sm font-mono text-gray-400">
+          <Loader2 size={16} className="animate-spin" />
+          Loading project...
+        </div>
+      )}
+      {baseline && (
+        <MapperComparison before={{ label: baseline.title, result: baseline.result }} after={current} />
+      )}
+    </section>
+  );
+}
+
+export default CompareWithProject;
@@ -0,0 +1,98 @@
+"use client";
+
+import { useState, useRef, useEffect } from "react";
+import { Download, FileJson, FileSpreadsheet, FileText } from "lucide-react";
+import { downloadFile } from "@/lib/download";
+import {
+  ExportSource,
+  toExportJson,
+  matchedBmfsCsv,
+  ecosystemConnectionsCsv,
+  roleAnalysesCsv,
+  toMarkdownReport,
+  exportFileStem,
+} from "@/lib/material-mapper/export";
+
+/**
+ * ExportMenu - Dropdown for downloading a completed Material Mapper result
+ * as JSON, CSV tables, or a Markdown report.
+ */
+
+export function ExportMenu({ title, strategy, result }: ExportSource) {
+  const [open, setOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close menu when clicking outside
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    }
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, []);
+
+  const stem = exportFileStem(title);
+  const source = { title, strategy, result };
+
+  const formats = [
+    {
+      label: "Full result (JSON)",
+      icon: FileJson,
+      download: () => downloadFile(`${stem}.json`, toExportJson(source), "application/json"),
+    },
+    {
+      label: "Report (Markdown)",
+      icon: FileText,
+      download: () => downloadFile(`${stem}.md`, toMarkdownReport(source), "text/markdown"),
+    },
+    {
+      label: "Matched flows (CSV)",
+      icon: FileSpreadsheet,
+      download: () => downloadFile(`${stem}-flows.csv`, matchedBmfsCsv(result), "text/csv"),
+    },
+    {
+      label: "Service connections (CSV)",
+      icon: FileSpreadsheet,
+      download: () => downloadFile(`${stem}-connections.csv`, ecosystemConnectionsCsv(result), "text/csv"),
+    },
+    {
+      label: "Building roles (CSV)",
+      icon: FileSpreadsheet,
+      download: () => downloadFile(`${stem}-roles.csv`, roleAnalysesCsv(result), "text/csv"),
+    },
+  ];
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-2 px-4 py-2 font-mono text-sm text-gray-600 border border-gray-300 rounded-lg hover:border-gray-400 hover:text-gray-800 transition-colors"
+      >
+        <Download size={16} />
+        Export
+      </button>
+
+      {open && (
+        <div className="absolute right-0 top-full mt-2 w-60 z-20 bg-white border border-gray-200 rounded-lg shadow-lg overflow-hidden">
+          {formats.map(({ label, icon: Icon, download }) => (
+            <button
+              key={label}
+              onClick={() => {
+                download();
+                setOpen(false);
+              }}
+              className="w-full flex items-center gap-2 px-3 py-2 text-sm font-mono text-gray-600 hover:bg-gray-100 transition-colors"
+            >
+              <Icon size={16} className="text-gray-400" />
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ExportMenu;
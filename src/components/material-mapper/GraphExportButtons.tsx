@@ -0,0 +1,84 @@
+"use client";
+
+import { useState, RefObject } from "react";
+import { Image as ImageIcon, FileCode, AlertCircle } from "lucide-react";
+import type { BipartiteGraphHandle } from "@/components/ui/BipartiteGraph";
+import { downloadFile } from "@/lib/download";
+
+/**
+ * GraphExportButtons - SVG / PNG download buttons for a BipartiteGraph.
+ *
+ * Marked with `data-keep-selection` so clicking them does not count as an
+ * outside click that clears the graph selection. A failed PNG export is
+ * reported next to the buttons.
+ */
+
+export interface GraphExportButtonsProps {
+  graphRef: RefObject<BipartiteGraphHandle | null>;
+  /** File name without extension */
+  fileStem: string;
+  /** Keep the current selection highlighted in the exported figure */
+  includeSelection?: boolean;
+}
+
+const SCALES = [1, 2, 3, 4];
+
+export function GraphExportButtons({ graphRef, fileStem, includeSelection = false }: GraphExportButtonsProps) {
+  const [scale, setScale] = useState(2);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const exportSvg = () => {
+    const svg = graphRef.current?.exportSvg({ includeSelection });
+    if (svg) downloadFile(`${fileStem}.svg`, svg, "image/svg+xml");
+  };
+
+  const exportPng = async () => {
+    if (!graphRef.current || isExporting) return;
+    setIsExporting(true);
+    setError(null);
+    try {
+      const png = await graphRef.current.exportPng({ includeSelection, scale });
+      downloadFile(`${fileStem}@${scale}x.png`, png);
+    } catch (err) {
+      console.error("PNG export failed:", err);
+      setError(err instanceof Error ? err.message : "The graph could not be rendered");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const buttonClass =
+    "flex items-center gap-1 px-2 py-1 text-xs font-mono text-gray-500 border border-gray-200 rounded hover:border-gray-300 hover:text-gray-700 transition-colors";
+
+  return (
+    <div data-keep-selection className="flex items-center gap-1 normal-case tracking-normal">
+      <button type="button" onClick={exportSvg} className={buttonClass} title="Download as SVG">
+        <FileCode size={12} />
+        SVG
+      </button>
+      <button type="button" onClick={exportPng} disabled={isExporting} className={buttonClass} title="Download as PNG">
+        <ImageIcon size={12} />
+        PNG
+      </button>
+      <select
+        value={scale}
+        onChange={(e) => setScale(Number(e.target.value))}
+        className="px-1 py-1 text-xs font-mono text-gray-500 bg-transparent border border-gray-200 rounded focus:outline-none"
+        title="PNG scale"
+      >
+        {SCALES.map(s => (
+          <option key={s} value={s}>{s}x</option>
+        ))}
+      </select>
+      {error && (
+        <span role="alert" className="flex items-center gap-1 ml-1 text-xs font-mono text-red-600" title={error}>
+          <AlertCircle size={12} />
+          PNG export failed
+        </span>
+      )}
+    </div>
+  );
+}
+
+export default GraphExportButtons;
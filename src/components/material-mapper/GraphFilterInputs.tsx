@@ -0,0 +1,45 @@
+"use client";
+
+import { useViewInput } from "./useMapperView";
+import { CONFIDENCE_LEVELS } from "./graphStyles";
+
+/**
+ * GraphFilterInputs - The graph search box and minimum confidence slider.
+ *
+ * Each keeps its value in local state while it is being edited, so typing and
+ * dragging re-render only the input; the URL, and the graphs filtered by it,
+ * follow once the value settles or the input loses focus.
+ */
+
+export function GraphSearchInput() {
+  const { value, change, commit } = useViewInput("search");
+  return (
+    <input
+      type="search"
+      value={value}
+      onChange={(e) => change(e.target.value)}
+      onBlur={commit}
+      placeholder="Find a flow or service..."
+      className="w-48 bg-transparent focus:outline-none text-gray-700"
+    />
+  );
+}
+
+export function ConfidenceSlider() {
+  const { value, change, commit } = useViewInput("minConfidence");
+  return (
+    <>
+      <input
+        type="range"
+        min={0}
+        max={CONFIDENCE_LEVELS.length - 1}
+        step={1}
+        value={CONFIDENCE_LEVELS.indexOf(value)}
+        onChange={(e) => change(CONFIDENCE_LEVELS[Number(e.target.value)])}
+        onBlur={commit}
+        className="w-16"
+      />
+      <span className="w-12 text-gray-700">{value}</span>
+    </>
+  );
+}
@@ -0,0 +1,163 @@
+"use client";
+
+import { useMemo } from "react";
+import { BipartiteGraph, BipartiteConnection, BipartiteItem } from "@/components/ui/BipartiteGraph";
+import type { GraphLegendEntry } from "@/components/ui/GraphLegend";
+import { compareResults, ListDiff, RunSide } from "@/lib/material-mapper/compare";
+import type { MapperResult } from "@/lib/material-mapper/types";
+
+/**
+ * MapperComparison - Side-by-side diff of two Material Mapper runs.
+ *
+ * Lists added, removed and unchanged materials, flows, services and roles, and
+ * merges both runs' connections into one graph colored by the run they come from.
+ */
+
+export interface ComparisonSide {
+  label: string;
+  result: MapperResult;
+}
+
+export interface MapperComparisonProps {
+  /** Baseline run */
+  before: ComparisonSide;
+  /** Run compared against the baseline */
+  after: ComparisonSide;
+}
+
+const RUN_STYLES: Record<RunSide, { color: string; dashArray?: string }> = {
+  before: { color: "#f87171", dashArray: "4 3" }, // red-400
+  after: { color: "#22c55e" }, // green-500
+  both: { color: "#cbd5e1" }, // slate-300
+};
+
+const formatSigned = (value: number, format: (abs: number) => string) =>
+  `${value > 0 ? "+" : value < 0 ? "−" : "±"}${format(Math.abs(value))}`;
+
+const seconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+const dollars = (usd: number) => `$${usd.toFixed(4)}`;
+
+function DiffList<T>({
+  title,
+  diff,
+  label,
+}: {
+  title: string;
+  diff: ListDiff<T>;
+  label: (item: T) => string;
+}) {
+  const total = diff.added.length + diff.removed.length + diff.unchanged.length;
+  if (total === 0) return null;
+
+  const chip = "text-xs font-mono px-2 py-1 rounded border";
+  return (
+    <section>
+      <h3 className="text-sm font-mono text-gray-400 uppercase tracking-wider mb-3">
+        {title}
+        <span className="ml-2 normal-case tracking-normal">
+          <span className="text-green-600">+{diff.added.length}</span>{" "}
+          <span className="text-red-600">−{diff.removed.length}</span>{" "}
+          <span className="text-gray-400">={diff.unchanged.length}</span>
+        </span>
+      </h3>
+      <div className="flex flex-wrap gap-2">
+        {diff.added.map((item, i) => (
+          <span key={`a${i}`} className={`${chip} bg-green-50 text-green-700 border-green-200`}>
+            + {label(item)}
+          </span>
+        ))}
+        {diff.removed.map((item, i) => (
+          <span key={`r${i}`} className={`${chip} bg-red-50 text-red-700 border-red-200 line-through`}>
+            {label(item)}
+          </span>
+        ))}
+        {diff.unchanged.map((item, i) => (
+          <span key={`u${i}`} className={`${chip} bg-gray-50 text-gray-500 border-gray-200`}>
+            {label(item)}
+          </span>
+        ))}
+      </div>
+    </section>
+  );
+}
+
+export function MapperComparison({ before, after }: MapperComparisonProps) {
+  const comparison = useMemo(() => compareResults(before.result, after.result), [before.result, after.result]);
+
+  const graph = useMemo(() => {
+    const toItems = (names: string[]): BipartiteItem[] =>
+      [...new Set(names)].sort().map(name => ({ id: name, label: name }));
+    const connections: BipartiteConnection[] = comparison.connections.map(c => ({
+      sourceId: c.bmf_name,
+      targetId: c.ecosystem_service,
+      ...RUN_STYLES[c.run],
+    }));
+    return {
+      leftItems: toItems(comparison.connections.map(c => c.bmf_name)),
+      rightItems: toItems(comparison.connections.map(c => c.ecosystem_service)),
+      connections,
+    };
+  }, [comparison]);
+
+  const legend: GraphLegendEntry[] = [
+    { label: `Only in ${before.label}`, ...RUN_STYLES.before },
+    { label: `Only in ${after.label}`, ...RUN_STYLES.after },
+    { label: "In both", ...RUN_STYLES.both },
+  ];
+
+  return (
+    <div className="space-y-8">
+      {/* Run totals and deltas */}
+      <div className="grid grid-cols-[auto_1fr_1fr_auto] gap-x-6 gap-y-1 text-sm font-mono">
+        <span />
+        <span className="text-xs text-gray-400 uppercase tracking-wider truncate">{before.label}</span>
+        <span className="text-xs text-gray-400 uppercase tracking-wider truncate">{after.label}</span>
+        <span className="text-xs text-gray-400 uppercase tracking-wider">Change</span>
+
+        <span className="text-gray-500">Time</span>
+        <span className="text-gray-700">{seconds(before.result.processing_time_ms)}</span>
+        <span className="text-gray-700">{seconds(after.result.processing_time_ms)}</span>
+        <span className={comparison.processingTimeDeltaMs > 0 ? "text-amber-700" : "text-green-700"}>
+          {formatSigned(comparison.processingTimeDeltaMs, seconds)}
+        </span>
+
+        <span className="text-gray-500">Cost</span>
+        <span className="text-gray-700">{dollars(before.result.cost_usd)}</span>
+        <span className="text-gray-700">{dollars(after.result.cost_usd)}</span>
+        <span className={comparison.costDeltaUsd > 0 ? "text-amber-700" : "text-green-700"}>
+          {formatSigned(comparison.costDeltaUsd, dollars)}
+        </span>
+      </div>
+
+      <DiffList title="Extracted Materials" diff={comparison.materials} label={m => m} />
+      <DiffList title="Matched Flows" diff={comparison.bmfs} label={b => b.bmf_name} />
+      <DiffList title="Ecosystem Services" diff={comparison.services} label={s => s} />
+      <DiffList title="Building Roles" diff={comparison.roles} label={r => r.role_name} />
+
+      {graph.connections.length > 0 && (
+        <section>
+          <h3 className="text-sm font-mono text-gray-400 uppercase tracking-wider mb-4">
+            Merged Ecosystem Service Connections
+          </h3>
+          <div className="p-4 border border-gray-200 rounded-lg bg-gray-50/50 overflow-x-auto">
+            <BipartiteGraph
+              leftItems={graph.leftItems}
+              rightItems={graph.rightItems}
+              connections={graph.connections}
+              leftHeader={`Building Flows (${graph.leftItems.length})`}
+              rightHeader={`Ecosystem Services (${graph.rightItems.length})`}
+              rowHeight={28}
+              columnWidth={220}
+              connectionAreaWidth={180}
+              highlightColor="#2563eb"
+              ordering="barycenter"
+              legend={legend}
+            />
+          </div>
+        </section>
+      )}
+    </div>
+  );
+}
+
+export default MapperComparison;
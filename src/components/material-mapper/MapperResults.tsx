@@ -0,0 +1,969 @@
+"use client";
+
+import { useCallback, useMemo, useRef, useEffect } from "react";
+import { CheckCircle2, Search, X } from "lucide-react";
+import {
+  BipartiteGraph,
+  BipartiteItem,
+  BipartiteConnection,
+  BipartiteGraphHandle,
+} from "@/components/ui/BipartiteGraph";
+import { MultipartiteGraph, MultipartiteColumn } from "@/components/ui/MultipartiteGraph";
+import type { ColumnLink } from "@/components/ui/multipartiteGraphUtils";
+import { OrderingMode, ORDERING_LABELS } from "@/components/ui/bipartiteGraphOrdering";
+import { GraphExportButtons } from "./GraphExportButtons";
+import { MaterialCurator } from "./MaterialCurator";
+import { BmfReview } from "./BmfReview";
+import { NoteField } from "./NoteField";
+import { deriveBipartiteData } from "./bipartiteData";
+import { useMapperView } from "./useMapperView";
+import { ConfidenceSlider, GraphSearchInput } from "./GraphFilterInputs";
+import {
+  CONFIDENCE_WEIGHTS,
+  CONFIDENCE_BADGES,
+  FLOW_GLYPHS,
+  meetsConfidence,
+  relationshipStyles,
+  relationshipLegend,
+  REVIEW_EDGE_STYLES,
+  REVIEW_LEGEND,
+  REVIEW_BADGES,
+  EdgeStyle,
+} from "./graphStyles";
+import { exportFileStem } from "@/lib/material-mapper/export";
+import {
+  annotateRole,
+  applyAnnotations,
+  manualConnectionKeys,
+  rejectedBmfs,
+} from "@/lib/material-mapper/annotations";
+import type {
+  MapperResult,
+  MapperSnapshot,
+  MaterialEdit,
+  ProgressState,
+  ResultAnnotations,
+} from "@/lib/material-mapper/types";
+
+/**
+ * MapperResults - Displays Material Mapper output, either while a run is streaming
+ * or rehydrated from a saved result.
+ *
+ * Renders the stats line, extracted materials, the BMF → ecosystem service graph
+ * (or the full material → BMF → service chain),
+ * building roles, matched flows, unmatched materials and their detail modals.
+ * Edges are weighted by match confidence and styled by relationship type, and
+ * low-confidence flows can be filtered out of the graphs. Given `onRematch`, the
+ * extracted materials can be curated by hand and matched again.
+ *
+ * Reviewer annotations saved with the result are applied on top of the agent's
+ * output: confidence overrides, manual service links, and rejected flows, which
+ * are struck through in the graphs (or hidden). Given `onAnnotationsChange`, the
+ * flow and role modals let reviewers edit them.
+ *
+ * The selection and graph filters live in the URL query (see `mapperView.ts`),
+ * so a highlighted view can be linked to and back/forward steps through it.
+ */
+
+export interface MapperResultsProps {
+  /** Data to display (partial while streaming, complete once finished) */
+  data: MapperSnapshot;
+  /** Final result, once the run has completed */
+  result: MapperResult | null;
+  /** Whether a run is currently streaming */
+  isLoading?: boolean;
+  /** Current progress stage, used for the per-section loading hints */
+  stage?: ProgressState["stage"];
+  /** Re-run matching on a curated material list; enables editing the material chips */
+  onRematch?: (materials: string[], edits: MaterialEdit[]) => void;
+  /** Save reviewer annotations; enables the review controls in the detail modals */
+  onAnnotationsChange?: (annotations: ResultAnnotations) => void;
+}
+
+export function MapperResults({
+  data,
+  result,
+  isLoading = false,
+  stage = "complete",
+  onRematch,
+  onAnnotationsChange,
+}: MapperResultsProps) {
+  const { view, setView, select } = useMapperView();
+  const {
+    service: selectedEcosystemService,
+    bmf: selectedBmf,
+    material: selectedMaterial,
+    graph: graphView,
+    showRoles: showRolesColumn,
+    // Flows below this confidence are removed from the graphs, along with their edges
+    minConfidence,
+    // Row ordering and search for the BMF → service graph
+    ordering,
+    search: graphSearch,
+    matchesOnly: filterToMatches,
+    // Rejected flows are struck through by default, or removed from the graphs
+    hideRejected,
+  } = view;
+
+  // Ref for the visualization container to detect outside clicks
+  const vizContainerRef = useRef<HTMLDivElement>(null);
+
+  // For SVG/PNG export of the graph
+  const graphRef = useRef<BipartiteGraphHandle>(null);
+
+  // Close modal and clear selection when clicking outside visualization
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      // Detail modals and export controls act on the selection, so keep it
+      if ((event.target as Element).closest?.("[data-keep-selection]")) return;
+      if (vizContainerRef.current && !vizContainerRef.current.contains(event.target as Node)) {
+        select({ service: null, bmf: null, material: null });
+      }
+    }
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, [select]);
+
+  // The agent's output with reviewer overrides and manual links applied
+  const annotations = result?.annotations;
+  const reviewed = useMemo(() => applyAnnotations(data, annotations), [data, annotations]);
+  const rejected = useMemo(() => rejectedBmfs(annotations), [annotations]);
+  const manualKeys = useMemo(() => manualConnectionKeys(annotations), [annotations]);
+
+  const {
+    extracted_materials: showExtractedMaterials,
+    matched_bmfs: showMatchedBmfs,
+    ecosystem_connections: showEcosystemConnections,
+    ecosystem_services: showEcosystemServices,
+    ecosystem_service_details: showEcosystemServiceDetails,
+    role_analyses: showRoleAnalyses,
+  } = reviewed;
+
+  const selectedRole = view.role ? showRoleAnalyses.find(r => r.role_id === view.role) ?? null : null;
+
+  const matchedMaterials = useMemo(
+    () => new Set(showMatchedBmfs.flatMap(bmf => bmf.matched_materials)),
+    [showMatchedBmfs]
+  );
+
+  // Handle ecosystem service click
+  const handleEcosystemServiceClick = useCallback((item: { id: string; label: string }) => {
+    // Clear BMF selection when ES is clicked
+    select({ service: selectedEcosystemService === item.id ? null : item.id, bmf: null });
+  }, [select, selectedEcosystemService]);
+
+  // Handle BMF click
+  const handleBmfClick = useCallback((item: { id: string; label: string }) => {
+    // Clear ES selection when BMF is clicked
+    select({ bmf: selectedBmf === item.id ? null : item.id, service: null });
+  }, [select, selectedBmf]);
+
+  // Handle background click to clear all selections
+  const handleBackgroundClick = useCallback(() => {
+    select({ service: null, bmf: null, material: null });
+  }, [select]);
+
+  // Confidence and flow direction by BMF name
+  const bmfsByName = useMemo(
+    () => new Map(showMatchedBmfs.map(b => [b.bmf_name, b])),
+    [showMatchedBmfs]
+  );
+
+  // BMFs hidden by the confidence filter (and rejected ones, if hidden)
+  const hiddenBmfs = useMemo(
+    () => new Set([
+      ...showMatchedBmfs
+        .filter(b => !meetsConfidence(b.confidence, minConfidence))
+        .map(b => b.bmf_name),
+      ...(hideRejected ? rejected : []),
+    ]),
+    [showMatchedBmfs, minConfidence, hideRejected, rejected]
+  );
+
+  // Styles come from the agent's relationship types; manual links get their own
+  const edgeStyles = useMemo(
+    () => relationshipStyles(data.ecosystem_connections.map(c => c.relationship_type)),
+    [data.ecosystem_connections]
+  );
+  const edgeLegend = useMemo(() => {
+    const legend = relationshipLegend(edgeStyles);
+    if (manualKeys.size > 0) legend.push(REVIEW_LEGEND.manual);
+    if (rejected.size > 0 && !hideRejected) legend.push(REVIEW_LEGEND.rejected);
+    return legend;
+  }, [edgeStyles, manualKeys, rejected, hideRejected]);
+
+  const connectionStyle = useCallback((c: { bmf_name: string; ecosystem_service: string; relationship_type: string }): EdgeStyle | undefined => {
+    if (rejected.has(c.bmf_name)) return REVIEW_EDGE_STYLES.rejected;
+    if (manualKeys.has(`${c.bmf_name}\u0000${c.ecosystem_service}`)) return REVIEW_EDGE_STYLES.manual;
+    return edgeStyles.get(c.relationship_type);
+  }, [rejected, manualKeys, edgeStyles]);
+
+  // BMF graph item with a flow direction glyph
+  const bmfItem = useCallback((name: string): BipartiteItem => {
+    const flowType = bmfsByName.get(name)?.flow_type;
+    return {
+      id: name,
+      label: name,
+      marker: flowType && FLOW_GLYPHS[flowType].glyph,
+      markerTitle: flowType && FLOW_GLYPHS[flowType].label,
+      struck: rejected.has(name),
+    };
+  }, [bmfsByName, rejected]);
+
+  // Edge weight from the BMF's match confidence
+  const bmfWeight = useCallback((name: string) => {
+    const confidence = bmfsByName.get(name)?.confidence;
+    return confidence ? CONFIDENCE_WEIGHTS[confidence] : undefined;
+  }, [bmfsByName]);
+
+  // Get selected service details
+  const selectedServiceDetail = selectedEcosystemService
+    ? showEcosystemServiceDetails[selectedEcosystemService]
+    : null;
+
+  // Get selected BMF details (with connected materials)
+  const selectedBmfDetail = useMemo(() => {
+    if (!selectedBmf) return null;
+    const bmf = showMatchedBmfs.find(b => b.bmf_name === selectedBmf);
+    if (!bmf) return null;
+
+    // Get the ecosystem services this BMF is connected to
+    const connectedServices = showEcosystemConnections
+      .filter(c => c.bmf_name === selectedBmf)
+      .map(c => c.ecosystem_service);
+
+    return {
+      name: bmf.bmf_name,
+      reason: bmf.reason,
+      confidence: bmf.confidence,
+      flow_type: bmf.flow_type,
+      matched_materials: bmf.matched_materials,
+      connected_services: [...new Set(connectedServices)],
+      // As matched by the agent, before reviewer overrides
+      original: data.matched_bmfs.find(b => b.bmf_name === selectedBmf) ?? bmf,
+      agent_services: data.ecosystem_connections
+        .filter(c => c.bmf_name === selectedBmf)
+        .map(c => c.ecosystem_service),
+      annotation: annotations?.bmfs[bmf.bmf_name],
+    };
+  }, [selectedBmf, showMatchedBmfs, showEcosystemConnections, data, annotations]);
+
+  // Prepare BipartiteGraph data - show all BMFs that have ecosystem connections
+  const bipartiteData = useMemo(() => {
+    const source = deriveBipartiteData(showEcosystemConnections, showEcosystemServices, hiddenBmfs);
+    if (!source) return null;
+
+    // Left items: All BMFs that have ecosystem connections
+    const leftItems: BipartiteItem[] = source.bmfNames.map(bmfItem);
+
+    // Right items: Ecosystem services (sorted), grouped by category for the "category" ordering
+    const rightItems: BipartiteItem[] = source.services
+      .map(name => ({ id: name, label: name, group: showEcosystemServiceDetails[name]?.category || undefined }));
+
+    const connections: BipartiteConnection[] = source.connections.map(c => ({
+      sourceId: c.bmf_name,
+      targetId: c.ecosystem_service,
+      weight: bmfWeight(c.bmf_name),
+      ...connectionStyle(c),
+    }));
+
+    return { leftItems, rightItems, connections };
+  }, [showEcosystemConnections, showEcosystemServices, showEcosystemServiceDetails, hiddenBmfs, bmfItem, bmfWeight, connectionStyle]);
+
+  // Prepare MultipartiteGraph data - the full material → BMF → service chain,
+  // optionally preceded by the building roles that touch each material
+  const chainData = useMemo(() => {
+    if (showMatchedBmfs.length === 0) return null;
+
+    const byName = (a: string, b: string) => a.localeCompare(b);
+    const toItems = (names: Iterable<string>): BipartiteItem[] =>
+      [...new Set(names)].sort(byName).map(name => ({ id: name, label: name }));
+
+    // Matched materials may not appear verbatim in the extracted list, so include both
+    const materials = toItems([
+      ...showExtractedMaterials,
+      ...showMatchedBmfs.flatMap(b => b.matched_materials),
+      ...(showRolesColumn ? showRoleAnalyses.flatMap(r => r.materials_touched) : []),
+    ]);
+    const bmfs = toItems([
+      ...showMatchedBmfs.map(b => b.bmf_name),
+      ...showEcosystemConnections.map(c => c.bmf_name),
+    ].filter(name => !hiddenBmfs.has(name))).map(item => bmfItem(item.id));
+    const services = toItems(showEcosystemServices);
+
+    const dedupe = (links: ColumnLink[]) => {
+      const seen = new Set<string>();
+      return links.filter(({ sourceId, targetId }) => {
+        const key = `${sourceId}-${targetId}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+    };
+
+    const columns: MultipartiteColumn[] = [
+      { id: "materials", header: `Materials (${materials.length})`, items: materials },
+      { id: "bmfs", header: `Building Flows (${bmfs.length})`, items: bmfs },
+      { id: "services", header: `Ecosystem Services (${services.length})`, items: services },
+    ];
+    const links: ColumnLink[][] = [
+      dedupe(
+        showMatchedBmfs
+          .filter(b => !hiddenBmfs.has(b.bmf_name))
+          .flatMap(b => b.matched_materials.map(m => ({
+            sourceId: m,
+            targetId: b.bmf_name,
+            weight: CONFIDENCE_WEIGHTS[b.confidence],
+            ...(rejected.has(b.bmf_name) && REVIEW_EDGE_STYLES.rejected),
+          })))
+      ),
+      dedupe(
+        showEcosystemConnections
+          .filter(c => !hiddenBmfs.has(c.bmf_name))
+          .map(c => ({
+            sourceId: c.bmf_name,
+            targetId: c.ecosystem_service,
+            weight: bmfWeight(c.bmf_name),
+            ...connectionStyle(c),
+          }))
+      ),
+    ];
+
+    if (showRolesColumn && showRoleAnalyses.length > 0) {
+      const roles = showRoleAnalyses
+        .map(r => ({ id: r.role_id, label: r.role_name }))
+        .sort((a, b) => byName(a.label, b.label));
+      columns.unshift({ id: "roles", header: `Building Roles (${roles.length})`, items: roles });
+      links.unshift(
+        dedupe(showRoleAnalyses.flatMap(r => r.materials_touched.map(m => ({ sourceId: r.role_id, targetId: m }))))
+      );
+    }
+
+    return { columns, links };
+  }, [
+    showExtractedMaterials, showMatchedBmfs, showEcosystemConnections, showEcosystemServices, showRoleAnalyses,
+    showRolesColumn, hiddenBmfs, rejected, bmfItem, bmfWeight, connectionStyle,
+  ]);
+
+  // Selected item in the chain view, mirroring the BMF/service/material selection
+  const selectedChainItem = useMemo(() => {
+    if (!chainData) return null;
+    const column = (id: string) => chainData.columns.findIndex(c => c.id === id);
+    if (selectedBmf) return { column: column("bmfs"), id: selectedBmf };
+    if (selectedEcosystemService) return { column: column("services"), id: selectedEcosystemService };
+    if (selectedMaterial) return { column: column("materials"), id: selectedMaterial };
+    return null;
+  }, [chainData, selectedBmf, selectedEcosystemService, selectedMaterial]);
+
+  const handleChainItemClick = useCallback((column: MultipartiteColumn, item: BipartiteItem) => {
+    switch (column.id) {
+      case "bmfs":
+        handleBmfClick(item);
+        break;
+      case "services":
+        handleEcosystemServiceClick(item);
+        break;
+      case "materials":
+        // Materials have no detail modal; clicking pins the traced path
+        select({ material: selectedMaterial === item.id ? null : item.id, bmf: null, service: null });
+        break;
+      case "roles":
+        select({ role: item.id });
+        break;
+    }
+  }, [handleBmfClick, handleEcosystemServiceClick, select, selectedMaterial]);
+
+  if (showExtractedMaterials.length === 0 && showMatchedBmfs.length === 0) return null;
+
+  return (
+    <div className="space-y-8">
+      {/* Stats */}
+      <div className="flex flex-wrap gap-6 text-sm font-mono text-gray-500">
+        <span className="flex items-center gap-1">
+          {stage === "complete" && <CheckCircle2 size={14} className="text-green-600" />}
+          {showExtractedMaterials.length} materials extracted
+        </span>
+        <span>{showMatchedBmfs.length} flows matched</span>
+        {showEcosystemServices.length > 0 && (
+          <span>{showEcosystemServices.length} ecosystem services</span>
+        )}
+        {showRoleAnalyses.length > 0 && (
+          <span>{showRoleAnalyses.length} roles</span>
+        )}
+        {result?.processing_time_ms && (
+          <span>{(result.processing_time_ms / 1000).toFixed(1)}s</span>
+        )}
+      </div>
+
+      {/* Extracted Materials - Show IMMEDIATELY after Stage 1 */}
+      {showExtractedMaterials.length > 0 && (
+        <section className={isLoading && stage === "stage1" ? "animate-pulse" : ""}>
+          <h2 className="text-sm font-mono text-gray-400 uppercase tracking-wider mb-4">
+            Extracted Materials ({showExtractedMaterials.length})
+            {isLoading && stage !== "complete" && (
+              <span className="ml-2 text-green-600 normal-case">✓ Ready</span>
+            )}
+          </h2>
+          <MaterialCurator
+            key={[...showExtractedMaterials, ...(result?.material_edits ?? []).map(e => e.at)].join("\u0000")}
+            materials={showExtractedMaterials}
+            matched={matchedMaterials}
+            edits={result?.material_edits}
+            onRematch={result && !isLoading ? onRematch : undefined}
+          />
+        </section>
+      )}
+
+      {/* Ecosystem Service Connections - BipartiteGraph / MultipartiteGraph visualization */}
+      {bipartiteData && bipartiteData.connections.length > 0 && (
+        <section>
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-sm font-mono text-gray-400 uppercase tracking-wider">
+              Ecosystem Service Connections
+              {isLoading && stage === "stage3" && (
+                <span className="ml-2 text-blue-600 normal-case animate-pulse">Loading...</span>
+              )}
+            </h2>
+            <div className="flex items-center gap-3">
+              <label
+                className="flex items-center gap-1.5 text-xs font-mono text-gray-500"
+                title="Hide flows matched with lower confidence"
+              >
+                Min confidence
+                <ConfidenceSlider />
+                {hiddenBmfs.size > 0 && (
+                  <span className="text-gray-400">({hiddenBmfs.size} hidden)</span>
+                )}
+              </label>
+              {rejected.size > 0 && (
+                <label className="flex items-center gap-1.5 text-xs font-mono text-gray-500 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={hideRejected}
+                    onChange={(e) => setView({ hideRejected: e.target.checked })}
+                  />
+                  Hide rejected
+                </label>
+              )}
+              {graphView === "chain" && showRoleAnalyses.length > 0 && (
+                <label className="flex items-center gap-1.5 text-xs font-mono text-gray-500 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={showRolesColumn}
+                    onChange={(e) => setView({ showRoles: e.target.checked })}
+                  />
+                  Roles
+                </label>
+              )}
+              <div className="flex text-xs font-mono border border-gray-200 rounded overflow-hidden">
+                {([
+                  ["services", "Flows → Services"],
+                  ["chain", "Materials → Services"],
+                ] as const).map(([graph, label]) => (
+                  <button
+                    key={graph}
+                    type="button"
+                    onClick={() => setView({ graph })}
+                    className={`px-2 py-1 transition-colors ${
+                      graphView === graph ? "bg-gray-100 text-gray-700" : "text-gray-400 hover:text-gray-600"
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              {!isLoading && graphView === "services" && (
+                <GraphExportButtons graphRef={graphRef} fileStem="ecosystem-service-connections" />
+              )}
+            </div>
+          </div>
+          {graphView === "services" && (
+            <div data-keep-selection className="flex flex-wrap items-center gap-3 mb-3 text-xs font-mono text-gray-500">
+              <div className="flex items-center gap-1.5 px-2 py-1 border border-gray-200 rounded focus-within:border-gray-400">
+                <Search size={12} className="text-gray-400" />
+                <GraphSearchInput />
+              </div>
+              <label className="flex items-center gap-1.5 cursor-pointer" title="Only show matches and what they connect to">
+                <input
+                  type="checkbox"
+                  checked={filterToMatches}
+                  onChange={(e) => setView({ matchesOnly: e.target.checked })}
+                />
+                Matches only
+              </label>
+              <label className="flex items-center gap-1.5 ml-auto">
+                Order
+                <select
+                  value={ordering}
+                  onChange={(e) => setView({ ordering: e.target.value as OrderingMode })}
+                  className="px-1 py-1 bg-transparent border border-gray-200 rounded focus:outline-none text-gray-700"
+                >
+                  {(Object.keys(ORDERING_LABELS) as OrderingMode[])
+                    .filter(mode => mode !== "input")
+                    .map(mode => (
+                      <option key={mode} value={mode}>{ORDERING_LABELS[mode]}</option>
+                    ))}
+                </select>
+              </label>
+            </div>
+          )}
+          <div
+            ref={vizContainerRef}
+            className="p-4 border border-gray-200 rounded-lg bg-gray-50/50 overflow-x-auto relative"
+          >
+            {graphView === "chain" && chainData ? (
+              <MultipartiteGraph
+                columns={chainData.columns}
+                links={chainData.links}
+                rowHeight={28}
+                columnWidth={200}
+                connectionAreaWidth={140}
+                connectionColor="#cbd5e1"
+                highlightColor="#2563eb"
+                onItemClick={handleChainItemClick}
+                selectedItem={selectedChainItem}
+                onBackgroundClick={handleBackgroundClick}
+                legend={edgeLegend}
+              />
+            ) : (
+              <BipartiteGraph
+                ref={graphRef}
+                leftItems={bipartiteData.leftItems}
+                rightItems={bipartiteData.rightItems}
+                connections={bipartiteData.connections}
+                leftHeader={`Building Flows (${bipartiteData.leftItems.length})`}
+                rightHeader={`Ecosystem Services (${bipartiteData.rightItems.length})`}
+                rowHeight={28}
+                columnWidth={220}
+                connectionAreaWidth={180}
+                connectionColor="#cbd5e1"
+                highlightColor="#2563eb"
+                onLeftItemClick={handleBmfClick}
+                onRightItemClick={handleEcosystemServiceClick}
+                selectedLeftId={selectedBmf}
+                selectedRightId={selectedEcosystemService}
+                onBackgroundClick={handleBackgroundClick}
+                legend={edgeLegend}
+                ordering={ordering}
+                searchQuery={graphSearch}
+                filterToMatches={filterToMatches}
+              />
+            )}
+          </div>
+        </section>
+      )}
+
+      {/* Modal Overlay for Ecosystem Service Details */}
+      {selectedServiceDetail && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/30"
+          onClick={() => select({ service: null })}
+        >
+          <div
+            data-keep-selection
+            className="bg-white rounded-lg shadow-xl max-w-md w-full mx-4 max-h-[80vh] flex flex-col animate-fadeIn"
+            onClick={(e) => e.stopPropagation()}
+          >
+            {/* Header */}
+            <div className="flex items-start justify-between p-4 border-b border-gray-200">
+              <div>
+                <h3 className="font-mono text-gray-800 font-medium text-lg">
+                  {selectedServiceDetail.name}
+                </h3>
+                {selectedServiceDetail.category && (
+                  <span className="text-xs font-mono text-blue-600 uppercase tracking-wider">
+                    {selectedServiceDetail.category}
+                  </span>
+                )}
+              </div>
+              <button
+                onClick={() => select({ service: null })}
+                className="text-gray-400 hover:text-gray-600 p-1 rounded hover:bg-gray-100 transition-colors"
+              >
+                <X size={20} />
+              </button>
+            </div>
+
+            {/* Scrollable Content */}
+            <div className="p-4 overflow-y-auto flex-1">
+              {selectedServiceDetail.description && (
+                <p className="text-sm font-mono text-gray-600 mb-4">
+                  {selectedServiceDetail.description}
+                </p>
+              )}
+
+              {selectedServiceDetail.supplementary_connections.length > 0 && (
+                <div className="border-t border-gray-200 pt-3">
+                  <h4 className="text-xs font-mono text-gray-400 uppercase tracking-wider mb-2">
+                    Material Connections
+                  </h4>
+                  <div className="space-y-1">
+                    {selectedServiceDetail.supplementary_connections.map((conn, i) => (
+                      <div
+                        key={i}
+                        className="flex items-center gap-2 text-sm font-mono text-gray-600"
+                      >
+                        <span className="text-gray-500">{conn.bmf_name}</span>
+                        <span className="text-gray-300">→</span>
+                        <span className="text-gray-500">{conn.text}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+
+            {/* Figure export with this service highlighted */}
+            {graphView === "services" && (
+            <div className="flex items-center justify-between px-4 py-3 border-t border-gray-200">
+              <span className="text-xs font-mono text-gray-400">Export figure</span>
+              <GraphExportButtons
+                graphRef={graphRef}
+                fileStem={exportFileStem(selectedServiceDetail.name)}
+                includeSelection
+              />
+            </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Modal Overlay for BMF Details */}
+      {selectedBmfDetail && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/30"
+          onClick={() => select({ bmf: null })}
+        >
+          <div
+            data-keep-selection
+            className="bg-white rounded-lg shadow-xl max-w-md w-full mx-4 max-h-[80vh] flex flex-col animate-fadeIn"
+            onClick={(e) => e.stopPropagation()}
+          >
+            {/* Header */}
+            <div className="flex items-start justify-between p-4 border-b border-gray-200">
+              <div>
+                <h3 className="font-mono text-gray-800 font-medium text-lg">
+                  {selectedBmfDetail.name}
+                </h3>
+                <div className="flex items-center gap-2">
+                  <span className="text-xs font-mono text-green-600 uppercase tracking-wider">
+                    Building Metabolism Flow
+                  </span>
+                  {selectedBmfDetail.flow_type && (
+                    <span className="text-xs font-mono text-gray-500">
+                      {FLOW_GLYPHS[selectedBmfDetail.flow_type].glyph} {FLOW_GLYPHS[selectedBmfDetail.flow_type].label}
+                    </span>
+                  )}
+                  <span className={`text-xs font-mono px-2 py-0.5 rounded ${CONFIDENCE_BADGES[selectedBmfDetail.confidence]}`}>
+                    {selectedBmfDetail.confidence}
+                  </span>
+                  {selectedBmfDetail.annotation?.status && (
+                    <span className={`text-xs font-mono px-2 py-0.5 rounded ${REVIEW_BADGES[selectedBmfDetail.annotation.status]}`}>
+                      {selectedBmfDetail.annotation.status}
+                    </span>
+                  )}
+                </div>
+              </div>
+              <button
+                onClick={() => select({ bmf: null })}
+                className="text-gray-400 hover:text-gray-600 p-1 rounded hover:bg-gray-100 transition-colors"
+              >
+                <X size={20} />
+              </button>
+            </div>
+
+            {/* Scrollable Content */}
+            <div className="p-4 overflow-y-auto flex-1">
+              {selectedBmfDetail.reason && (
+                <p className="text-sm font-mono text-gray-600 mb-4">
+                  {selectedBmfDetail.reason}
+                </p>
+              )}
+
+              {selectedBmfDetail.matched_materials.length > 0 && (
+                <div className="mb-4">
+                  <h4 className="text-xs font-mono text-gray-400 uppercase tracking-wider mb-2">
+                    Extracted Materials
+                  </h4>
+                  <div className="flex flex-wrap gap-1">
+                    {selectedBmfDetail.matched_materials.map((mat, i) => (
+                      <span
+                        key={i}
+                        className="text-xs font-mono text-green-700 bg-green-50 border border-green-200 px-2 py-1 rounded"
+                      >
+                        {mat}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {selectedBmfDetail.connected_services.length > 0 && (
+                <div className="border-t border-gray-200 pt-3">
+                  <h4 className="text-xs font-mono text-gray-400 uppercase tracking-wider mb-2">
+                    Connected Ecosystem Services
+                  </h4>
+                  <div className="space-y-1">
+                    {selectedBmfDetail.connected_services.map((service, i) => {
+                      const manual = manualKeys.has(`${selectedBmfDetail.name}\u0000${service}`);
+                      return (
+                        <div
+                          key={i}
+                          className="text-sm font-mono text-blue-600"
+                          style={manual ? { color: REVIEW_EDGE_STYLES.manual.color } : undefined}
+                        >
+                          {service}
+                          {manual && <span className="ml-2 text-xs text-gray-400">manual</span>}
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+
+              {onAnnotationsChange ? (
+                <div className="border-t border-gray-200 pt-3 mt-4">
+                  <h4 className="text-xs font-mono text-gray-400 uppercase tracking-wider mb-2">
+                    Review
+                  </h4>
+                  <BmfReview
+                    bmf={selectedBmfDetail.original}
+                    annotations={annotations}
+                    onChange={onAnnotationsChange}
+                    services={showEcosystemServices}
+                    connectedServices={selectedBmfDetail.agent_services}
+                  />
+                </div>
+              ) : selectedBmfDetail.annotation?.note && (
+                <div className="border-t border-gray-200 pt-3 mt-4">
+                  <h4 className="text-xs font-mono text-gray-400 uppercase tracking-wider mb-2">
+                    Reviewer Note
+                  </h4>
+                  <p className="text-sm font-mono text-gray-600 whitespace-pre-wrap">
+                    {selectedBmfDetail.annotation.note}
+                  </p>
+                </div>
+              )}
+            </div>
+
+            {/* Figure export with this flow and its services highlighted */}
+            {graphView === "services" && (
+            <div className="flex items-center justify-between px-4 py-3 border-t border-gray-200">
+              <span className="text-xs font-mono text-gray-400">Export figure</span>
+              <GraphExportButtons
+                graphRef={graphRef}
+                fileStem={exportFileStem(selectedBmfDetail.name)}
+                includeSelection
+              />
+            </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Building Roles - Show when available */}
+      {showRoleAnalyses.length > 0 && (
+        <section>
+          <h2 className="text-sm font-mono text-gray-400 uppercase tracking-wider mb-4">
+            Building Roles ({showRoleAnalyses.length})
+            {isLoading && stage === "stage4" && (
+              <span className="ml-2 text-blue-600 normal-case animate-pulse">Analyzing...</span>
+            )}
+          </h2>
+          <div className="grid gap-3">
+            {showRoleAnalyses.map((role, i) => (
+              <div
+                key={i}
+                className="p-4 border border-gray-200 rounded-lg hover:border-purple-300 cursor-pointer transition-colors"
+                onClick={() => select({ role: role.role_id })}
+              >
+                <div className="flex items-start justify-between mb-2">
+                  <h3 className="font-mono text-gray-800 font-medium">{role.role_name}</h3>
+                  <span className="text-xs font-mono text-purple-600 bg-purple-50 px-2 py-0.5 rounded">
+                    {role.materials_touched.length} materials
+                  </span>
+                </div>
+                <p className="text-sm font-mono text-gray-500 line-clamp-2">
+                  {role.description}
+                </p>
+                {annotations?.roles[role.role_id]?.note && (
+                  <p className="mt-2 text-xs font-mono text-gray-500 italic line-clamp-2">
+                    Note: {annotations.roles[role.role_id].note}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {/* Matched BMFs - Show incrementally as chunks complete */}
+      {showMatchedBmfs.length > 0 && (
+        <section>
+          <h2 className="text-sm font-mono text-gray-400 uppercase tracking-wider mb-4">
+            Matched Flows ({showMatchedBmfs.length})
+            {isLoading && stage === "stage2" && (
+              <span className="ml-2 text-blue-600 normal-case animate-pulse">Finding more...</span>
+            )}
+          </h2>
+          <div className="grid gap-3">
+            {showMatchedBmfs.map((bmf, i) => {
+              const annotation = annotations?.bmfs[bmf.bmf_name];
+              return (
+                <div
+                  key={i}
+                  className={`p-4 border rounded-lg animate-fadeIn ${
+                    annotation?.status === "rejected" ? "border-red-100 bg-red-50/30" : "border-gray-200"
+                  } ${onAnnotationsChange ? "cursor-pointer hover:border-gray-300 transition-colors" : ""}`}
+                  onClick={onAnnotationsChange ? () => select({ bmf: bmf.bmf_name }) : undefined}
+                >
+                  <div className="flex items-start justify-between mb-2">
+                    <h3 className={`font-mono ${annotation?.status === "rejected" ? "text-gray-400 line-through" : "text-gray-800"}`}>
+                      {bmf.flow_type && (
+                        <span className="mr-1.5 text-xs text-gray-400" title={FLOW_GLYPHS[bmf.flow_type].label}>
+                          {FLOW_GLYPHS[bmf.flow_type].glyph}
+                        </span>
+                      )}
+                      {bmf.bmf_name}
+                    </h3>
+                    <div className="flex items-center gap-1.5">
+                      {annotation?.status && (
+                        <span className={`text-xs font-mono px-2 py-0.5 rounded ${REVIEW_BADGES[annotation.status]}`}>
+                          {annotation.status}
+                        </span>
+                      )}
+                      <span
+                        className={`text-xs font-mono px-2 py-0.5 rounded ${CONFIDENCE_BADGES[bmf.confidence]}`}
+                        title={annotation?.confidence ? "Confidence set by reviewer" : undefined}
+                      >
+                        {bmf.confidence}{annotation?.confidence ? "*" : ""}
+                      </span>
+                    </div>
+                  </div>
+                  <p className="text-sm font-mono text-gray-500 mb-2">
+                    {bmf.reason}
+                  </p>
+                  {annotation?.note && (
+                    <p className="text-xs font-mono text-gray-500 italic mb-2 whitespace-pre-wrap">
+                      Note: {annotation.note}
+                    </p>
+                  )}
+                  <div className="flex flex-wrap gap-1">
+                    {bmf.matched_materials.map((mat, j) => (
+                      <span
+                        key={j}
+                        className="text-xs font-mono text-gray-500 bg-gray-100 px-2 py-0.5 rounded"
+                      >
+                        {mat}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </section>
+      )}
+
+      {/* Unmatched - Only show when complete */}
+      {result && result.unmatched_materials.length > 0 && (
+        <section>
+          <h2 className="text-sm font-mono text-gray-400 uppercase tracking-wider mb-4">
+            Unmatched Materials ({result.unmatched_materials.length})
+          </h2>
+          <div className="flex flex-wrap gap-2">
+            {result.unmatched_materials.map((mat, i) => (
+              <span
+                key={i}
+                className="text-xs font-mono text-gray-500 bg-gray-100 px-2 py-1 rounded"
+              >
+                {mat}
+              </span>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {/* Modal Overlay for Role Details */}
+      {selectedRole && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/30"
+          onClick={() => select({ role: null })}
+        >
+          <div
+            data-keep-selection
+            className="bg-white rounded-lg shadow-xl max-w-md w-full mx-4 max-h-[80vh] flex flex-col animate-fadeIn"
+            onClick={(e) => e.stopPropagation()}
+          >
+            {/* Header */}
+            <div className="flex items-start justify-between p-4 border-b border-gray-200">
+              <div>
+                <h3 className="font-mono text-gray-800 font-medium text-lg">
+                  {selectedRole.role_name}
+                </h3>
+                <span className="text-xs font-mono text-purple-600 uppercase tracking-wider">
+                  Building Role
+                </span>
+              </div>
+              <button
+                onClick={() => select({ role: null })}
+                className="text-gray-400 hover:text-gray-600 p-1 rounded hover:bg-gray-100 transition-colors"
+              >
+                <X size={20} />
+              </button>
+            </div>
+
+            {/* Scrollable Content */}
+            <div className="p-4 overflow-y-auto flex-1">
+              <p className="text-sm font-mono text-gray-600 mb-4">
+                {selectedRole.description}
+              </p>
+
+              {selectedRole.materials_touched.length > 0 && (
+                <div className="border-t border-gray-200 pt-3">
+                  <h4 className="text-xs font-mono text-gray-400 uppercase tracking-wider mb-2">
+                    Materials Touched
+                  </h4>
+                  <div className="flex flex-wrap gap-1">
+                    {selectedRole.materials_touched.map((mat, i) => (
+                      <span
+                        key={i}
+                        className="text-xs font-mono text-purple-700 bg-purple-50 border border-purple-200 px-2 py-1 rounded"
+                      >
+                        {mat}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {onAnnotationsChange ? (
+                <div className="border-t border-gray-200 pt-3 mt-4">
+                  <h4 className="text-xs font-mono text-gray-400 uppercase tracking-wider mb-2">
+                    Reviewer Note
+                  </h4>
+                  <NoteField
+                    key={selectedRole.role_id}
+                    value={annotations?.roles[selectedRole.role_id]?.note}
+                    onSave={(note) => onAnnotationsChange(annotateRole(annotations, selectedRole.role_id, { note }))}
+                  />
+                </div>
+              ) : annotations?.roles[selectedRole.role_id]?.note && (
+                <div className="border-t border-gray-200 pt-3 mt-4">
+                  <h4 className="text-xs font-mono text-gray-400 uppercase tracking-wider mb-2">
+                    Reviewer Note
+                  </h4>
+                  <p className="text-sm font-mono text-gray-600 whitespace-pre-wrap">
+                    {annotations.roles[selectedRole.role_id].note}
+                  </p>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default MapperResults;
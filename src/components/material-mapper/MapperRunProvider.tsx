@@ -0,0 +1,156 @@
+"use client";
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useReducer, useRef } from "react";
+import { useAuth, useSession } from "@clerk/nextjs";
+import { StreamInterruptedError, StreamRestartRequiredError } from "@/lib/agents/client";
+import { streamMaterialMapper, MapperInputs } from "@/lib/material-mapper/client";
+import { toMapperResult } from "@/lib/material-mapper/events";
+import {
+  initialMapperSession,
+  mapperSessionReducer,
+  shownError,
+  shownSnapshot,
+  MapperAction,
+  MapperSession,
+} from "@/lib/material-mapper/session";
+import { recordStageTiming, StageTimings } from "@/lib/material-mapper/timeline";
+import { logMapperRun } from "@/lib/usage/client";
+import { recordRun } from "@/lib/history/client";
+import { runCounts, runStatus } from "@/lib/history/versions";
+import type { MaterialCuration } from "@/lib/material-mapper/stream";
+
+/**
+ * MapperRunProvider - Holds the Material Mapper session above the dashboard
+ * routes and owns the stream of the current run, so leaving the mapper page
+ * neither loses its state nor stops the analysis. Switching workspace cancels
+ * the run and starts over, since its result belongs to the previous one.
+ * Every run is recorded in the user's history once it has ended.
+ */
+
+export interface MapperRunContextValue {
+  state: MapperSession;
+  dispatch: React.Dispatch<MapperAction>;
+  /**
+   * Stream a run into the session; resolves once it has ended and its usage is
+   * logged. `asVersion` links a repeat of the draft's parent as its new version.
+   */
+  start: (inputs: MapperInputs, curation?: MaterialCuration | null, options?: { asVersion?: boolean }) => Promise<void>;
+  cancel: () => void;
+}
+
+const MapperRunContext = createContext<MapperRunContextValue | null>(null);
+
+export function MapperRunProvider({ children }: { children: React.ReactNode }) {
+  const { session } = useSession();
+  const { orgId } = useAuth();
+  const [state, dispatch] = useReducer(mapperSessionReducer, undefined, initialMapperSession);
+
+  // The token is read when the stream (re)connects, possibly long after starting
+  const sessionRef = useRef(session);
+  sessionRef.current = session;
+
+  const abortRef = useRef<AbortController | null>(null);
+  const lastRunIdRef = useRef(0);
+
+  const cancel = useCallback(() => {
+    abortRef.current?.abort();
+  }, []);
+
+  useEffect(() => cancel, [cancel]);
+
+  // `undefined` while Clerk is loading; `null` is the personal workspace
+  const workspaceRef = useRef(orgId);
+  useEffect(() => {
+    if (orgId === undefined) return;
+    if (workspaceRef.current !== undefined && workspaceRef.current !== orgId) {
+      cancel();
+      dispatch({ type: "reset" });
+    }
+    workspaceRef.current = orgId;
+  }, [orgId, cancel]);
+
+  const start = useCallback(async (
+    inputs: MapperInputs,
+    curation: MaterialCuration | null = null,
+    { asVersion = false }: { asVersion?: boolean } = {}
+  ) => {
+    const runId = ++lastRunIdRef.current;
+    dispatch({ type: "start", runId, inputs, curation, asVersion });
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    let timings: StageTimings = {};
+    let usageLogged: Promise<unknown> = Promise.resolve();
+    const startedAt = performance.now();
+
+    try {
+      const events = streamMaterialMapper(inputs, {
+        // Get the session token for cross-origin requests
+        getToken: async () => sessionRef.current?.getToken(),
+        signal: controller.signal,
+        onRetry: retry => dispatch({ type: "retry", runId, retry }),
+        onInvalidEvent: (invalid) => {
+          console.warn("Skipped malformed stream event:", invalid.reason, invalid.message.data);
+          dispatch({ type: "invalidEvent", runId, invalid });
+        },
+      });
+
+      for await (const event of events) {
+        timings = recordStageTiming(timings, event);
+        const receivedMs = Math.round(performance.now() - startedAt);
+        dispatch({ type: "event", runId, entry: { event, receivedMs } });
+
+        if (event.event_type === "result") {
+          usageLogged = logMapperRun(inputs.strategy_description, "mapper", toMapperResult(event), timings)
+            .catch(err => console.warn("Failed to log usage:", err));
+        }
+      }
+      dispatch({ type: "finished", runId });
+    } catch (err) {
+      if (controller.signal.aborted) {
+        dispatch({ type: "cancelled", runId });
+      } else if (err instanceof StreamInterruptedError) {
+        dispatch({ type: "interrupted", runId, attempts: err.attempts });
+      } else if (err instanceof StreamRestartRequiredError) {
+        dispatch({ type: "restartRequired", runId });
+      } else {
+        dispatch({ type: "failed", runId, error: err instanceof Error ? err.message : "Something went wrong" });
+      }
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+    }
+    await usageLogged;
+  }, []);
+
+  // Record each run once, however it ended
+  const recordedRunIdRef = useRef(0);
+  useEffect(() => {
+    const { runId, isLoading, inputs, run, runParentId } = state;
+    if (isLoading || !inputs || runId === 0 || recordedRunIdRef.current === runId) return;
+    recordedRunIdRef.current = runId;
+
+    recordRun({
+      inputs,
+      status: runStatus(run.progress.stage),
+      counts: runCounts(shownSnapshot(state)),
+      error: shownError(state),
+      result: run.result,
+      parentId: runParentId,
+    })
+      .then(entry => dispatch({ type: "recorded", runId, historyId: entry.id }))
+      .catch(err => console.warn("Failed to record run:", err));
+  }, [state]);
+
+  const value = useMemo(() => ({ state, dispatch, start, cancel }), [state, start, cancel]);
+
+  return <MapperRunContext.Provider value={value}>{children}</MapperRunContext.Provider>;
+}
+
+/** The Material Mapper session of the dashboard */
+export function useMapperRun(): MapperRunContextValue {
+  const value = useContext(MapperRunContext);
+  if (!value) throw new Error("useMapperRun must be used inside a MapperRunProvider");
+  return value;
+}
+
+export default MapperRunProvider;
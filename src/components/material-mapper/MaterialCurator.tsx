@@ -0,0 +1,213 @@
+"use client";
+
+import { useState, useMemo } from "react";
+import { Plus, RotateCcw, RefreshCw, X } from "lucide-react";
+import { recordEdit, editedMaterials, describeEdit } from "@/lib/material-mapper/curation";
+import type { MaterialEdit } from "@/lib/material-mapper/types";
+
+/**
+ * MaterialCurator - Extracted material chips that can be removed, renamed and
+ * added to before re-running the match on the curated list.
+ *
+ * Manually added or renamed materials are marked in amber, and removed ones are
+ * listed struck through, both for the draft and for edits saved in the result.
+ * Without `onRematch` the chips are read-only.
+ *
+ * Remount (e.g. via `key`) when `materials` changes to discard the draft.
+ */
+
+export interface MaterialCuratorProps {
+  /** Materials as currently extracted (or curated in a previous re-match) */
+  materials: string[];
+  /** Materials that matched at least one flow */
+  matched: Set<string>;
+  /** Manual edits already applied to `materials` */
+  edits?: MaterialEdit[];
+  /** Re-run matching on the curated list; omit to make the chips read-only */
+  onRematch?: (materials: string[], edits: MaterialEdit[]) => void;
+  /** Disable editing, e.g. while a run is streaming */
+  disabled?: boolean;
+}
+
+const NO_EDITS: MaterialEdit[] = [];
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+export function MaterialCurator({
+  materials,
+  matched,
+  edits = NO_EDITS,
+  onRematch,
+  disabled = false,
+}: MaterialCuratorProps) {
+  const [draft, setDraft] = useState(materials);
+  const [draftEdits, setDraftEdits] = useState(edits);
+  const [renaming, setRenaming] = useState<{ index: number; value: string } | null>(null);
+  const [newMaterial, setNewMaterial] = useState("");
+
+  const editable = !!onRematch && !disabled;
+  const isDirty = draftEdits !== edits;
+
+  const manual = useMemo(() => editedMaterials(draftEdits), [draftEdits]);
+  const removed = useMemo(() => draftEdits.filter(e => e.action === "removed"), [draftEdits]);
+
+  const exists = (name: string, except?: number) =>
+    draft.some((m, i) => i !== except && sameName(m, name));
+
+  const remove = (index: number) => {
+    setDraftEdits(prev => recordEdit(prev, { action: "removed", from: draft[index] }));
+    setDraft(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const commitRename = () => {
+    if (!renaming) return;
+    const { index, value } = renaming;
+    const to = value.trim();
+    setRenaming(null);
+    if (!to || to === draft[index] || exists(to, index)) return;
+    setDraftEdits(prev => recordEdit(prev, { action: "renamed", from: draft[index], to }));
+    setDraft(prev => prev.map((m, i) => (i === index ? to : m)));
+  };
+
+  const add = () => {
+    const to = newMaterial.trim();
+    if (!to || exists(to)) return;
+    setDraftEdits(prev => recordEdit(prev, { action: "added", to }));
+    setDraft(prev => [...prev, to]);
+    setNewMaterial("");
+  };
+
+  const reset = () => {
+    setDraft(materials);
+    setDraftEdits(edits);
+    setRenaming(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        {draft.map((mat, i) => {
+          const edit = manual.get(mat);
+          const isMatched = matched.has(mat);
+          const chipClass = edit
+            ? "bg-amber-50 text-amber-800 border border-amber-200"
+            : isMatched
+              ? "bg-green-50 text-green-700 border border-green-200"
+              : "bg-gray-100 text-gray-600 border border-transparent";
+
+          if (renaming?.index === i) {
+            return (
+              <input
+                key={i}
+                autoFocus
+                value={renaming.value}
+                onChange={(e) => setRenaming({ index: i, value: e.target.value })}
+                onBlur={commitRename}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") commitRename();
+                  if (e.key === "Escape") setRenaming(null);
+                }}
+                className="text-xs font-mono px-2 py-1 rounded border border-blue-300 focus:outline-none w-40"
+              />
+            );
+          }
+
+          return (
+            <span
+              key={i}
+              className={`inline-flex items-center gap-1 text-xs font-mono px-2 py-1 rounded transition-colors ${chipClass}`}
+              title={edit ? `${describeEdit(edit)} manually` : undefined}
+            >
+              {edit && <span className="text-amber-500">✎</span>}
+              {editable ? (
+                <button
+                  type="button"
+                  onClick={() => setRenaming({ index: i, value: mat })}
+                  className="hover:underline"
+                  title="Rename"
+                >
+                  {mat}
+                </button>
+              ) : (
+                mat
+              )}
+              {editable && (
+                <button
+                  type="button"
+                  onClick={() => remove(i)}
+                  className="text-gray-400 hover:text-red-600 transition-colors"
+                  title="Remove"
+                >
+                  <X size={10} />
+                </button>
+              )}
+            </span>
+          );
+        })}
+
+        {editable && (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              add();
+            }}
+            className="inline-flex items-center gap-1"
+          >
+            <input
+              value={newMaterial}
+              onChange={(e) => setNewMaterial(e.target.value)}
+              placeholder="Add material"
+              className="text-xs font-mono px-2 py-1 rounded border border-dashed border-gray-300 focus:outline-none focus:border-gray-400 w-32"
+            />
+            <button
+              type="submit"
+              disabled={!newMaterial.trim()}
+              className="text-gray-400 hover:text-gray-700 disabled:opacity-40 transition-colors"
+              title="Add material"
+            >
+              <Plus size={14} />
+            </button>
+          </form>
+        )}
+      </div>
+
+      {removed.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 text-xs font-mono text-gray-400">
+          <span>Removed:</span>
+          {removed.map(edit => (
+            <span key={edit.from} className="line-through" title="Removed manually">
+              {edit.from}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {editable && isDirty && (
+        <div className="flex items-center gap-3">
+          <button
+            type="button"
+            onClick={() => onRematch(draft, draftEdits)}
+            disabled={draft.length === 0}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-mono text-white bg-gray-900 rounded hover:bg-gray-800 disabled:opacity-40 transition-colors"
+          >
+            <RefreshCw size={12} />
+            Re-match {draft.length} materials
+          </button>
+          <button
+            type="button"
+            onClick={reset}
+            className="flex items-center gap-1 text-xs font-mono text-gray-500 hover:text-gray-700 transition-colors"
+          >
+            <RotateCcw size={12} />
+            Reset
+          </button>
+          <span className="text-xs font-mono text-gray-400">
+            Matching restarts from stage 2 with this list
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default MaterialCurator;
@@ -0,0 +1,36 @@
+"use client";
+
+import { useState } from "react";
+
+/**
+ * NoteField - Reviewer note textarea that saves when it loses focus.
+ *
+ * Remount (e.g. via `key`) to show a different note.
+ */
+
+export interface NoteFieldProps {
+  /** Saved note */
+  value?: string;
+  /** Called with the trimmed note when it changed */
+  onSave: (note: string) => void;
+  placeholder?: string;
+}
+
+export function NoteField({ value = "", onSave, placeholder = "Add a reviewer note..." }: NoteFieldProps) {
+  const [draft, setDraft] = useState(value);
+
+  return (
+    <textarea
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => {
+        if (draft.trim() !== value) onSave(draft.trim());
+      }}
+      placeholder={placeholder}
+      rows={3}
+      className="w-full p-2 font-mono text-sm text-gray-700 placeholder-gray-300 border border-gray-200 rounded resize-none focus:outline-none focus:border-gray-400 transition-colors"
+    />
+  );
+}
+
+export default NoteField;
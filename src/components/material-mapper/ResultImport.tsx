@@ -0,0 +1,110 @@
+"use client";
+
+import { useState, useRef, useEffect, useCallback } from "react";
+import { Upload } from "lucide-react";
+import { parseExportJson, MapperExport } from "@/lib/material-mapper/export";
+
+/**
+ * ResultImport - Loads a previously exported result JSON, either from the
+ * "Import" button or by dropping a file anywhere on the page.
+ */
+
+export interface ResultImportProps {
+  /** Called with the validated export */
+  onImport: (data: MapperExport) => void;
+  /** Called with a user-facing message when the file cannot be imported */
+  onError: (message: string) => void;
+  disabled?: boolean;
+}
+
+export function ResultImport({ onImport, onError, disabled = false }: ResultImportProps) {
+  const [isDragging, setIsDragging] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const importFile = useCallback(async (file: File) => {
+    try {
+      onImport(parseExportJson(await file.text()));
+    } catch (err) {
+      onError(err instanceof Error ? err.message : "Could not import the file.");
+    }
+  }, [onImport, onError]);
+
+  // Accept files dropped anywhere on the page
+  useEffect(() => {
+    if (disabled) return;
+
+    // dragenter/dragleave fire for every child element, so count them
+    let depth = 0;
+    const hasFiles = (e: DragEvent) => e.dataTransfer?.types.includes("Files") ?? false;
+
+    function handleDragEnter(e: DragEvent) {
+      if (!hasFiles(e)) return;
+      depth++;
+      setIsDragging(true);
+    }
+    function handleDragLeave(e: DragEvent) {
+      if (!hasFiles(e)) return;
+      depth = Math.max(0, depth - 1);
+      if (depth === 0) setIsDragging(false);
+    }
+    function handleDragOver(e: DragEvent) {
+      if (hasFiles(e)) e.preventDefault();
+    }
+    function handleDrop(e: DragEvent) {
+      if (!hasFiles(e)) return;
+      e.preventDefault();
+      depth = 0;
+      setIsDragging(false);
+      const file = e.dataTransfer?.files[0];
+      if (file) importFile(file);
+    }
+
+    window.addEventListener("dragenter", handleDragEnter);
+    window.addEventListener("dragleave", handleDragLeave);
+    window.addEventListener("dragover", handleDragOver);
+    window.addEventListener("drop", handleDrop);
+    return () => {
+      window.removeEventListener("dragenter", handleDragEnter);
+      window.removeEventListener("dragleave", handleDragLeave);
+      window.removeEventListener("dragover", handleDragOver);
+      window.removeEventListener("drop", handleDrop);
+    };
+  }, [disabled, importFile]);
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => inputRef.current?.click()}
+        disabled={disabled}
+        className="flex items-center gap-2 px-5 py-2.5 font-mono text-sm text-gray-600 border border-gray-300 rounded-lg hover:border-gray-400 hover:text-gray-800 disabled:text-gray-300 disabled:border-gray-200 disabled:cursor-not-allowed transition-colors"
+        title="Import a result JSON exported from EcoEvo Studio"
+      >
+        <Upload size={16} />
+        Import
+      </button>
+      <input
+        ref={inputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) importFile(file);
+          // Allow re-importing the same file
+          e.target.value = "";
+        }}
+      />
+
+      {isDragging && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-white/80 pointer-events-none">
+          <div className="px-8 py-6 border-2 border-dashed border-gray-300 rounded-lg bg-white">
+            <p className="font-mono text-sm text-gray-600">Drop a result JSON to import it</p>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
+
+export default ResultImport;
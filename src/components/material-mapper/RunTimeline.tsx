@@ -0,0 +1,196 @@
+"use client";
+
+import { useState, useMemo } from "react";
+import { ChevronDown, ChevronRight, Download, X } from "lucide-react";
+import { downloadFile } from "@/lib/download";
+import { PIPELINE_STAGES, TimelineEntry, buildTimeline, entryTime, isPipelineStage } from "@/lib/material-mapper/timeline";
+import { stageOfEvent } from "@/lib/material-mapper/batch";
+import { STAGE_LABELS } from "@/lib/material-mapper/types";
+import type { MapperEventType } from "@/lib/material-mapper/events";
+
+/**
+ * RunTimeline - Waterfall of a finished run: one bar per stage, with a tick for
+ * every stream event (parallel stage 2 chunks, stage 4 tier 1 and batches).
+ * Clicking a tick or a row in the event list shows that event's payload.
+ */
+
+export interface RunTimelineProps {
+  entries: TimelineEntry[];
+  /** File name stem for the events download */
+  fileStem?: string;
+}
+
+// Tick colors by event type; anything unlisted is drawn in gray
+const TICK_COLORS: Partial<Record<MapperEventType, string>> = {
+  stage2_chunk_complete: "#2563eb",
+  stage4_tier1_complete: "#9333ea",
+  stage4_batch_complete: "#d97706",
+  error: "#dc2626",
+};
+
+const TICK_LEGEND: [string, string][] = [
+  ["stage 2 chunk", "#2563eb"],
+  ["stage 4 tier 1", "#9333ea"],
+  ["stage 4 batch", "#d97706"],
+];
+
+const seconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+export function RunTimeline({ entries, fileStem = "material-mapper" }: RunTimelineProps) {
+  const [open, setOpen] = useState(false);
+  const [selected, setSelected] = useState<number | null>(null);
+
+  const timeline = useMemo(() => buildTimeline(entries), [entries]);
+  const scale = Math.max(1, timeline.totalMs);
+  const pct = (ms: number) => `${(ms / scale) * 100}%`;
+
+  // Events outside the four stages (complete, result, error) get their own row
+  const rows = [
+    ...PIPELINE_STAGES.map(stage => ({ key: stage, label: STAGE_LABELS[stage], span: timeline.spans[stage] })),
+    { key: "other", label: "completion", span: undefined },
+  ];
+  const rowOf = (entry: TimelineEntry) => {
+    const stage = stageOfEvent(entry.event);
+    return isPipelineStage(stage) ? stage : "other";
+  };
+
+  const selectedEntry = selected !== null ? entries[selected] : null;
+
+  return (
+    <section className="mb-8">
+      <div className="flex items-center gap-3">
+        <button
+          type="button"
+          onClick={() => setOpen(!open)}
+          className="flex items-center gap-1 text-sm font-mono text-gray-400 uppercase tracking-wider hover:text-gray-600 transition-colors"
+        >
+          {open ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+          Run Timeline
+        </button>
+        <span className="text-xs font-mono text-gray-400">
+          {seconds(timeline.totalMs)} · {entries.length} events
+        </span>
+        {open && (
+          <button
+            type="button"
+            onClick={() =>
+              downloadFile(`${fileStem}-events.json`, JSON.stringify(entries, null, 2), "application/json")
+            }
+            className="ml-auto flex items-center gap-1 text-xs font-mono text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <Download size={12} />
+            Events JSON
+          </button>
+        )}
+      </div>
+
+      {open && (
+        <div className="mt-4 space-y-4">
+          {/* Waterfall */}
+          <div className="space-y-1.5">
+            {rows.map(row => (
+              <div key={row.key} className="flex items-center gap-3">
+                <span className="w-48 text-xs font-mono text-gray-500 truncate">{row.label}</span>
+                <div className="relative flex-1 h-6 bg-gray-50 rounded">
+                  {row.span && (
+                    <div
+                      className="absolute top-1 bottom-1 bg-gray-200 rounded-sm"
+                      style={{ left: pct(row.span.start), width: pct(row.span.end - row.span.start) }}
+                    />
+                  )}
+                  {entries.map((entry, i) =>
+                    rowOf(entry) === row.key ? (
+                      <button
+                        key={i}
+                        type="button"
+                        onClick={() => setSelected(i)}
+                        title={`${entry.event.event_type} at ${seconds(entryTime(entry))}`}
+                        className={`absolute top-0 bottom-0 w-1 -ml-0.5 rounded-sm hover:opacity-60 ${
+                          selected === i ? "ring-2 ring-gray-400" : ""
+                        }`}
+                        style={{
+                          left: pct(entryTime(entry)),
+                          backgroundColor: TICK_COLORS[entry.event.event_type] ?? "#374151",
+                        }}
+                      />
+                    ) : null
+                  )}
+                </div>
+                <span className="w-14 text-right text-xs font-mono text-gray-600">
+                  {row.span ? seconds(row.span.end - row.span.start) : ""}
+                </span>
+              </div>
+            ))}
+            <div className="flex items-center gap-3 text-[10px] font-mono text-gray-400">
+              <span className="w-48" />
+              <div className="flex-1 flex justify-between">
+                <span>0s</span>
+                <span>{seconds(timeline.totalMs)}</span>
+              </div>
+              <span className="w-14" />
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-4 text-xs font-mono text-gray-500">
+            {TICK_LEGEND.map(([label, color]) => (
+              <span key={label} className="flex items-center gap-1.5">
+                <span className="w-1 h-3 rounded-sm" style={{ backgroundColor: color }} />
+                {label}
+              </span>
+            ))}
+          </div>
+
+          {/* Event list and payload */}
+          <div className="grid grid-cols-2 gap-4">
+            <div className="max-h-72 overflow-y-auto border border-gray-200 rounded-lg divide-y divide-gray-100">
+              {entries.map((entry, i) => (
+                <button
+                  key={i}
+                  type="button"
+                  onClick={() => setSelected(i)}
+                  className={`w-full flex items-center gap-2 px-3 py-1.5 text-left text-xs font-mono transition-colors ${
+                    selected === i ? "bg-gray-100 text-gray-800" : "text-gray-600 hover:bg-gray-50"
+                  }`}
+                >
+                  <span className="w-12 text-right text-gray-400">{seconds(entryTime(entry))}</span>
+                  <span className="flex-1 truncate">{entry.event.event_type}</span>
+                  {entry.event.event_type === "stage2_chunk_complete" && entry.event.current_chunk !== undefined && (
+                    <span className="text-gray-400">
+                      {entry.event.current_chunk}/{entry.event.total_chunks}
+                    </span>
+                  )}
+                </button>
+              ))}
+            </div>
+
+            {selectedEntry ? (
+              <div className="border border-gray-200 rounded-lg overflow-hidden flex flex-col max-h-72">
+                <div className="flex items-center gap-2 px-3 py-1.5 bg-gray-50 border-b border-gray-200 text-xs font-mono">
+                  <span className="text-gray-700">{selectedEntry.event.event_type}</span>
+                  <span className="text-gray-400">
+                    {selectedEntry.event.elapsed_ms !== undefined && `elapsed ${seconds(selectedEntry.event.elapsed_ms)} · `}
+                    received {seconds(selectedEntry.receivedMs)}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => setSelected(null)}
+                    className="ml-auto text-gray-400 hover:text-gray-600"
+                  >
+                    <X size={14} />
+                  </button>
+                </div>
+                <pre className="flex-1 overflow-auto p-3 text-[11px] font-mono text-gray-600 whitespace-pre-wrap break-all">
+                  {JSON.stringify(selectedEntry.event, null, 2)}
+                </pre>
+              </div>
+            ) : (
+              <p className="text-xs font-mono text-gray-400">Select an event to inspect its payload.</p>
+            )}
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
+
+export default RunTimeline;
@@ -0,0 +1,233 @@
+"use client";
+
+import { useState, useMemo } from "react";
+import { X } from "lucide-react";
+import {
+  buildHeatmap,
+  cellCount,
+  orderRows,
+  orderColumns,
+  HeatmapSource,
+  HeatmapRowOrder,
+  HeatmapColumnOrder,
+} from "@/lib/material-mapper/heatmap";
+
+/**
+ * ServiceHeatmap - Strategies (or projects) × ecosystem services, each cell shaded
+ * by the number of flows connecting that strategy to that service.
+ *
+ * Empty columns show services the portfolio barely touches; clicking a cell
+ * lists the flows behind it.
+ */
+
+export interface ServiceHeatmapProps {
+  sources: HeatmapSource[];
+  /** Header for the row labels */
+  rowHeader?: string;
+}
+
+const ROW_ORDERS: Record<HeatmapRowOrder, string> = {
+  input: "As listed",
+  label: "Name",
+  total: "Most connections",
+  cluster: "Cluster similar",
+};
+
+const COLUMN_ORDERS: Record<HeatmapColumnOrder, string> = {
+  label: "Name",
+  total: "Most connections",
+  category: "Category",
+  cluster: "Cluster similar",
+};
+
+const CELL_SIZE = 28;
+const LABEL_WIDTH = 240;
+
+interface SelectedCell {
+  rowId: string;
+  service: string;
+}
+
+export function ServiceHeatmap({ sources, rowHeader = "Strategy" }: ServiceHeatmapProps) {
+  const [rowOrder, setRowOrder] = useState<HeatmapRowOrder>("input");
+  const [columnOrder, setColumnOrder] = useState<HeatmapColumnOrder>("label");
+  const [selected, setSelected] = useState<SelectedCell | null>(null);
+
+  const heatmap = useMemo(() => buildHeatmap(sources), [sources]);
+  const rows = useMemo(() => orderRows(heatmap, rowOrder), [heatmap, rowOrder]);
+  const services = useMemo(() => orderColumns(heatmap, columnOrder), [heatmap, columnOrder]);
+
+  // How many strategies touch each service at all
+  const coverage = useMemo(
+    () => new Map(services.map(s => [s, rows.filter(r => cellCount(heatmap, r.id, s) > 0).length])),
+    [heatmap, rows, services]
+  );
+
+  if (rows.length === 0 || services.length === 0) return null;
+
+  const selectedRow = selected && rows.find(r => r.id === selected.rowId);
+  const selectedFlows = selected ? heatmap.cells.get(selected.rowId)?.get(selected.service) ?? [] : [];
+  const selectedConnections = selectedRow
+    ? selectedRow.result.ecosystem_connections.filter(c => c.ecosystem_service === selected!.service)
+    : [];
+
+  const selectClass = "px-1 py-1 bg-transparent border border-gray-200 rounded focus:outline-none text-gray-700";
+
+  return (
+    <div className="font-mono">
+      {/* Controls */}
+      <div className="flex flex-wrap items-center gap-4 mb-4 text-xs text-gray-500">
+        <label className="flex items-center gap-1.5">
+          Rows
+          <select value={rowOrder} onChange={(e) => setRowOrder(e.target.value as HeatmapRowOrder)} className={selectClass}>
+            {(Object.keys(ROW_ORDERS) as HeatmapRowOrder[]).map(o => (
+              <option key={o} value={o}>{ROW_ORDERS[o]}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-1.5">
+          Columns
+          <select value={columnOrder} onChange={(e) => setColumnOrder(e.target.value as HeatmapColumnOrder)} className={selectClass}>
+            {(Object.keys(COLUMN_ORDERS) as HeatmapColumnOrder[]).map(o => (
+              <option key={o} value={o}>{COLUMN_ORDERS[o]}</option>
+            ))}
+          </select>
+        </label>
+        <span className="ml-auto flex items-center gap-1.5">
+          0
+          <span className="inline-block w-24 h-2 rounded" style={{ background: "linear-gradient(to right, #eff6ff, #1d4ed8)" }} />
+          {heatmap.max} flows
+        </span>
+      </div>
+
+      <div className="overflow-auto border border-gray-200 rounded-lg">
+        <table className="border-collapse text-xs">
+          <thead>
+            <tr>
+              <th
+                className="sticky left-0 z-10 bg-white px-3 align-bottom text-left text-gray-400 uppercase tracking-wider font-normal"
+                style={{ minWidth: LABEL_WIDTH, maxWidth: LABEL_WIDTH }}
+              >
+                {rowHeader} ({rows.length})
+              </th>
+              {services.map(service => (
+                <th key={service} className="align-bottom font-normal p-0" style={{ width: CELL_SIZE }}>
+                  <div
+                    className={`h-40 flex items-end justify-center pb-2 ${coverage.get(service) === 0 ? "text-red-500" : "text-gray-600"}`}
+                    title={heatmap.categories[service] ? `${service} · ${heatmap.categories[service]}` : service}
+                  >
+                    <span className="[writing-mode:vertical-rl] rotate-180 truncate max-h-36">{service}</span>
+                  </div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.id}>
+                <td
+                  className="sticky left-0 z-10 bg-white px-3 text-gray-700 truncate border-t border-gray-100"
+                  style={{ minWidth: LABEL_WIDTH, maxWidth: LABEL_WIDTH, height: CELL_SIZE }}
+                  title={row.label}
+                >
+                  {row.label}
+                </td>
+                {services.map(service => {
+                  const count = cellCount(heatmap, row.id, service);
+                  const intensity = heatmap.max > 0 ? count / heatmap.max : 0;
+                  const isSelected = selected?.rowId === row.id && selected.service === service;
+                  return (
+                    <td key={service} className="p-0 border border-white">
+                      <button
+                        type="button"
+                        disabled={count === 0}
+                        onClick={() => setSelected({ rowId: row.id, service })}
+                        className={`block w-full text-center transition-opacity hover:opacity-80 disabled:cursor-default ${
+                          isSelected ? "ring-2 ring-inset ring-gray-900" : ""
+                        } ${intensity > 0.55 ? "text-white" : "text-blue-900"}`}
+                        style={{
+                          height: CELL_SIZE,
+                          // blue-50 → blue-700
+                          backgroundColor: count === 0 ? "#f9fafb" : `rgba(29, 78, 216, ${0.12 + intensity * 0.88})`,
+                        }}
+                        title={`${row.label} → ${service}: ${count} ${count === 1 ? "flow" : "flows"}`}
+                      >
+                        {count > 0 ? count : ""}
+                      </button>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+            {/* Coverage: how many strategies touch each service */}
+            <tr>
+              <td
+                className="sticky left-0 z-10 bg-white px-3 text-gray-400 uppercase tracking-wider border-t border-gray-200"
+                style={{ height: CELL_SIZE }}
+              >
+                Coverage
+              </td>
+              {services.map(service => (
+                <td
+                  key={service}
+                  className={`text-center border-t border-gray-200 ${coverage.get(service) === 0 ? "text-red-500" : "text-gray-500"}`}
+                >
+                  {coverage.get(service)}
+                </td>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+
+      {/* Flows behind the selected cell */}
+      {selected && selectedRow && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/30"
+          onClick={() => setSelected(null)}
+        >
+          <div
+            className="bg-white rounded-lg shadow-xl max-w-md w-full mx-4 max-h-[80vh] flex flex-col animate-fadeIn"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-start justify-between p-4 border-b border-gray-200">
+              <div className="min-w-0">
+                <h3 className="font-mono text-gray-800 font-medium text-lg">{selected.service}</h3>
+                <p className="text-xs font-mono text-gray-400 truncate">{selectedRow.label}</p>
+              </div>
+              <button
+                onClick={() => setSelected(null)}
+                className="text-gray-400 hover:text-gray-600 p-1 rounded hover:bg-gray-100 transition-colors"
+              >
+                <X size={20} />
+              </button>
+            </div>
+            <div className="p-4 overflow-y-auto flex-1">
+              <h4 className="text-xs font-mono text-gray-400 uppercase tracking-wider mb-2">
+                Contributing Flows ({selectedFlows.length})
+              </h4>
+              <div className="space-y-2">
+                {selectedFlows.map(bmf => {
+                  const match = selectedRow.result.matched_bmfs.find(b => b.bmf_name === bmf);
+                  const relationships = [...new Set(
+                    selectedConnections.filter(c => c.bmf_name === bmf).map(c => c.relationship_type)
+                  )];
+                  return (
+                    <div key={bmf} className="text-sm font-mono">
+                      <p className="text-gray-800">{bmf}</p>
+                      <p className="text-xs text-gray-400">
+                        {[match?.confidence && `${match.confidence} confidence`, ...relationships].filter(Boolean).join(" · ")}
+                      </p>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ServiceHeatmap;
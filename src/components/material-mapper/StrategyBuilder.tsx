@@ -0,0 +1,229 @@
+"use client";
+
+import { useState } from "react";
+import { Plus, X } from "lucide-react";
+import {
+  BUILDING_TYPES,
+  CLIMATE_ZONES,
+  COMPONENT_CATALOG,
+  COMPONENT_KINDS,
+  BuilderComponent,
+  ComponentKind,
+  StrategySpec,
+  newComponent,
+  serializeStrategy,
+} from "@/lib/material-mapper/builder";
+
+/**
+ * StrategyBuilder - Structured alternative to the free-text strategy input.
+ *
+ * Users add typed building components, pick materials and systems for each, and
+ * fill in the site context. The serialized description is previewed below.
+ */
+
+export interface StrategyBuilderProps {
+  value: StrategySpec;
+  onChange: (value: StrategySpec) => void;
+  disabled?: boolean;
+}
+
+interface ChipPickerProps {
+  label: string;
+  selected: string[];
+  suggestions: string[];
+  onChange: (values: string[]) => void;
+  disabled?: boolean;
+}
+
+/** Toggleable suggestion chips plus a free-text field for anything else */
+function ChipPicker({ label, selected, suggestions, onChange, disabled }: ChipPickerProps) {
+  const [custom, setCustom] = useState("");
+  const options = [...suggestions, ...selected.filter(s => !suggestions.includes(s))];
+
+  const toggle = (value: string) =>
+    onChange(selected.includes(value) ? selected.filter(s => s !== value) : [...selected, value]);
+
+  const addCustom = () => {
+    const value = custom.trim();
+    if (value && !selected.includes(value)) onChange([...selected, value]);
+    setCustom("");
+  };
+
+  return (
+    <div>
+      <p className="mb-1.5 text-xs font-mono text-gray-400 uppercase tracking-wider">{label}</p>
+      <div className="flex flex-wrap gap-1.5">
+        {options.map(option => {
+          const isSelected = selected.includes(option);
+          return (
+            <button
+              key={option}
+              type="button"
+              disabled={disabled}
+              onClick={() => toggle(option)}
+              className={`text-xs font-mono px-2 py-1 rounded border transition-colors ${
+                isSelected
+                  ? "bg-gray-800 text-white border-gray-800"
+                  : "text-gray-600 border-gray-200 hover:border-gray-400"
+              }`}
+            >
+              {option}
+            </button>
+          );
+        })}
+        <input
+          value={custom}
+          disabled={disabled}
+          onChange={(e) => setCustom(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              addCustom();
+            }
+          }}
+          onBlur={addCustom}
+          placeholder="+ other"
+          className="w-28 text-xs font-mono px-2 py-1 border border-dashed border-gray-200 rounded placeholder-gray-300 focus:outline-none focus:border-gray-400"
+        />
+      </div>
+    </div>
+  );
+}
+
+export function StrategyBuilder({ value, onChange, disabled }: StrategyBuilderProps) {
+  const updateComponent = (id: string, patch: Partial<BuilderComponent>) =>
+    onChange({
+      ...value,
+      components: value.components.map(c => (c.id === id ? { ...c, ...patch } : c)),
+    });
+
+  const addComponent = (kind: ComponentKind) =>
+    onChange({ ...value, components: [...value.components, newComponent(kind)] });
+
+  const removeComponent = (id: string) =>
+    onChange({ ...value, components: value.components.filter(c => c.id !== id) });
+
+  const updateSite = (patch: Partial<StrategySpec["site"]>) =>
+    onChange({ ...value, site: { ...value.site, ...patch } });
+
+  const preview = serializeStrategy(value);
+  const fieldClass =
+    "w-full px-2 py-1.5 font-mono text-sm text-gray-800 bg-transparent border border-gray-200 rounded focus:outline-none focus:border-gray-400";
+
+  return (
+    <div className="space-y-4">
+      {/* Site context */}
+      <div className="grid grid-cols-3 gap-3">
+        <label className="text-xs font-mono text-gray-400 uppercase tracking-wider">
+          Climate zone
+          <select
+            value={value.site.climateZone}
+            disabled={disabled}
+            onChange={(e) => updateSite({ climateZone: e.target.value })}
+            className={`mt-1 normal-case tracking-normal ${fieldClass}`}
+          >
+            <option value="">—</option>
+            {CLIMATE_ZONES.map(zone => (
+              <option key={zone} value={zone}>{zone}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs font-mono text-gray-400 uppercase tracking-wider">
+          Building type
+          <select
+            value={value.site.buildingType}
+            disabled={disabled}
+            onChange={(e) => updateSite({ buildingType: e.target.value })}
+            className={`mt-1 normal-case tracking-normal ${fieldClass}`}
+          >
+            <option value="">—</option>
+            {BUILDING_TYPES.map(type => (
+              <option key={type} value={type}>{type}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs font-mono text-gray-400 uppercase tracking-wider">
+          Floor area (m²)
+          <input
+            inputMode="numeric"
+            value={value.site.floorArea}
+            disabled={disabled}
+            onChange={(e) => updateSite({ floorArea: e.target.value })}
+            placeholder="e.g. 4500"
+            className={`mt-1 normal-case tracking-normal placeholder-gray-300 ${fieldClass}`}
+          />
+        </label>
+      </div>
+
+      {/* Components */}
+      {value.components.map(component => {
+        const catalog = COMPONENT_CATALOG[component.kind];
+        return (
+          <div key={component.id} className="p-4 border border-gray-200 rounded-lg space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className="font-mono text-sm text-gray-800">{catalog.label}</h3>
+              <button
+                type="button"
+                disabled={disabled}
+                onClick={() => removeComponent(component.id)}
+                className="text-gray-400 hover:text-gray-600 p-1 rounded hover:bg-gray-100 transition-colors"
+                title="Remove component"
+              >
+                <X size={16} />
+              </button>
+            </div>
+            <ChipPicker
+              label="Systems"
+              selected={component.systems}
+              suggestions={catalog.systems}
+              disabled={disabled}
+              onChange={(systems) => updateComponent(component.id, { systems })}
+            />
+            <ChipPicker
+              label="Materials"
+              selected={component.materials}
+              suggestions={catalog.materials}
+              disabled={disabled}
+              onChange={(materials) => updateComponent(component.id, { materials })}
+            />
+            <input
+              value={component.notes}
+              disabled={disabled}
+              onChange={(e) => updateComponent(component.id, { notes: e.target.value })}
+              placeholder="Notes (optional)"
+              className={`placeholder-gray-300 ${fieldClass}`}
+            />
+          </div>
+        );
+      })}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs font-mono text-gray-400">Add</span>
+        {COMPONENT_KINDS.map(kind => (
+          <button
+            key={kind}
+            type="button"
+            disabled={disabled}
+            onClick={() => addComponent(kind)}
+            className="flex items-center gap-1 px-2 py-1 text-xs font-mono text-gray-600 border border-gray-200 rounded hover:border-gray-400 transition-colors"
+          >
+            <Plus size={12} />
+            {COMPONENT_CATALOG[kind].label}
+          </button>
+        ))}
+      </div>
+
+      {/* Serialized description, as sent to the agent */}
+      {preview && (
+        <div>
+          <p className="mb-1.5 text-xs font-mono text-gray-400 uppercase tracking-wider">Strategy description</p>
+          <p className="p-3 font-mono text-sm text-gray-600 bg-gray-50 border border-gray-200 rounded-lg whitespace-pre-wrap">
+            {preview}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default StrategyBuilder;
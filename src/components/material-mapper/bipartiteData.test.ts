@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { deriveBipartiteData } from "./bipartiteData";
+import type { EcosystemConnection } from "@/lib/material-mapper/types";
+
+const link = (bmf_name: string, ecosystem_service: string, relationship_type = "supports"): EcosystemConnection => ({
+  bmf_name,
+  ecosystem_service,
+  relationship_type,
+});
+
+describe("deriveBipartiteData", () => {
+  it("returns null without connections", () => {
+    expect(deriveBipartiteData([], ["Water supply"])).toBeNull();
+  });
+
+  it("lists connected flows and all services, sorted", () => {
+    const data = deriveBipartiteData(
+      [link("Timber", "Carbon storage"), link("Rainwater", "Water supply")],
+      ["Water supply", "Carbon storage", "Pollination"]
+    );
+    expect(data?.bmfNames).toEqual(["Rainwater", "Timber"]);
+    expect(data?.services).toEqual(["Carbon storage", "Pollination", "Water supply"]);
+  });
+
+  it("deduplicates connections per flow and service, keeping the first", () => {
+    const data = deriveBipartiteData(
+      [
+        link("Timber", "Carbon storage", "stores_carbon"),
+        link("Timber", "Carbon storage", "supports"),
+        link("Timber", "Habitat"),
+      ],
+      ["Carbon storage", "Habitat"]
+    );
+    expect(data?.connections).toEqual([link("Timber", "Carbon storage", "stores_carbon"), link("Timber", "Habitat")]);
+  });
+
+  it("does not confuse names that share a separator", () => {
+    const data = deriveBipartiteData([link("a-b", "c"), link("a", "b-c")], ["c", "b-c"]);
+    expect(data?.connections).toHaveLength(2);
+  });
+
+  it("filters hidden flows and their connections", () => {
+    const data = deriveBipartiteData(
+      [link("Timber", "Carbon storage"), link("Steel", "Carbon storage")],
+      ["Carbon storage"],
+      new Set(["Steel"])
+    );
+    expect(data?.bmfNames).toEqual(["Timber"]);
+    expect(data?.connections.map(c => c.bmf_name)).toEqual(["Timber"]);
+  });
+
+  it("keeps the graph when every flow is hidden", () => {
+    const data = deriveBipartiteData([link("Steel", "Carbon storage")], ["Carbon storage"], new Set(["Steel"]));
+    expect(data).toEqual({ bmfNames: [], services: ["Carbon storage"], connections: [] });
+  });
+});
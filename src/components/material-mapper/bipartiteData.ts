@@ -0,0 +1,46 @@
+import type { EcosystemConnection } from "@/lib/material-mapper/types";
+
+/**
+ * Derives the flow → ecosystem service graph shown by MapperResults. Kept pure
+ * so the filtering and deduplication rules can be tested without rendering.
+ */
+
+export interface BipartiteSource {
+  /** Flows on the left, sorted by name */
+  bmfNames: string[];
+  /** Ecosystem services on the right, sorted by name */
+  services: string[];
+  /** One connection per flow/service pair, in their original order */
+  connections: EcosystemConnection[];
+}
+
+/**
+ * Every flow with at least one ecosystem connection, minus hidden ones, and the
+ * connections between those flows and the services. Returns null when there
+ * are no connections at all.
+ */
+export function deriveBipartiteData(
+  connections: EcosystemConnection[],
+  services: string[],
+  hidden: ReadonlySet<string> = new Set()
+): BipartiteSource | null {
+  if (connections.length === 0) return null;
+
+  const bmfNames = [...new Set(connections.map(c => c.bmf_name))]
+    .filter(name => !hidden.has(name))
+    .sort();
+
+  // Connections: only for flows in the filtered list, deduplicated
+  const validBmfNames = new Set(bmfNames);
+  const seenConnections = new Set<string>();
+  const unique = connections
+    .filter(c => validBmfNames.has(c.bmf_name))
+    .filter(c => {
+      const key = `${c.bmf_name}\u0000${c.ecosystem_service}`;
+      if (seenConnections.has(key)) return false;
+      seenConnections.add(key);
+      return true;
+    });
+
+  return { bmfNames, services: [...services].sort(), connections: unique };
+}
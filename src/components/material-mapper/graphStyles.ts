@@ -0,0 +1,87 @@
+import type { GraphLegendEntry } from "@/components/ui/GraphLegend";
+import type { MatchedBMF, ReviewStatus } from "@/lib/material-mapper/types";
+
+/**
+ * Visual encodings for Material Mapper graphs: edge weight by match confidence,
+ * edge color/dash by relationship type (or reviewer override), and a glyph for
+ * each flow direction.
+ */
+
+export type Confidence = MatchedBMF["confidence"];
+export type FlowType = NonNullable<MatchedBMF["flow_type"]>;
+
+/** Ordered weakest to strongest; the filter slider indexes into this */
+export const CONFIDENCE_LEVELS: Confidence[] = ["low", "medium", "high"];
+
+export const CONFIDENCE_WEIGHTS: Record<Confidence, number> = {
+  low: 1,
+  medium: 1.5,
+  high: 2.5,
+};
+
+export const CONFIDENCE_BADGES: Record<Confidence, string> = {
+  low: "text-gray-500 bg-gray-100",
+  medium: "text-amber-700 bg-amber-50",
+  high: "text-green-700 bg-green-50",
+};
+
+export const FLOW_GLYPHS: Record<FlowType, { glyph: string; label: string }> = {
+  inflow: { glyph: "↓", label: "Inflow" },
+  outflow: { glyph: "↑", label: "Outflow" },
+  both: { glyph: "↕", label: "Inflow and outflow" },
+};
+
+/** Whether a BMF's confidence passes the minimum; BMFs without one are always kept */
+export function meetsConfidence(confidence: Confidence | undefined, min: Confidence): boolean {
+  if (!confidence) return true;
+  return CONFIDENCE_LEVELS.indexOf(confidence) >= CONFIDENCE_LEVELS.indexOf(min);
+}
+
+export interface EdgeStyle {
+  color: string;
+  dashArray?: string;
+}
+
+// Colors and dash patterns are combined so types stay distinguishable in grayscale prints
+const RELATIONSHIP_COLORS = ["#64748b", "#0d9488", "#d97706", "#7c3aed", "#db2777", "#0284c7"];
+const RELATIONSHIP_DASHES = [undefined, "6 3", "2 3", "8 3 2 3"];
+
+/**
+ * Assign each relationship type a stable style. Types are sorted first so the
+ * same set of types always maps to the same styles, regardless of stream order.
+ */
+export function relationshipStyles(types: Iterable<string>): Map<string, EdgeStyle> {
+  const sorted = [...new Set(types)].sort((a, b) => a.localeCompare(b));
+  return new Map(
+    sorted.map((type, idx) => [
+      type,
+      {
+        color: RELATIONSHIP_COLORS[idx % RELATIONSHIP_COLORS.length],
+        dashArray: RELATIONSHIP_DASHES[idx % RELATIONSHIP_DASHES.length],
+      },
+    ])
+  );
+}
+
+export function relationshipLegend(styles: Map<string, EdgeStyle>): GraphLegendEntry[] {
+  return [...styles].map(([type, style]) => ({
+    label: type.replace(/_/g, " ") || "unspecified",
+    ...style,
+  }));
+}
+
+/** Reviewer overrides take precedence over the relationship style */
+export const REVIEW_EDGE_STYLES: Record<"rejected" | "manual", EdgeStyle> = {
+  rejected: { color: "#f87171", dashArray: "1 4" },
+  manual: { color: "#c026d3" },
+};
+
+export const REVIEW_LEGEND: Record<keyof typeof REVIEW_EDGE_STYLES, GraphLegendEntry> = {
+  rejected: { label: "rejected flow", ...REVIEW_EDGE_STYLES.rejected },
+  manual: { label: "manual link", ...REVIEW_EDGE_STYLES.manual },
+};
+
+export const REVIEW_BADGES: Record<ReviewStatus, string> = {
+  accepted: "text-green-700 bg-green-50 border border-green-200",
+  rejected: "text-red-700 bg-red-50 border border-red-200",
+};
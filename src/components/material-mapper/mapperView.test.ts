@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { clearMapperView, parseMapperView, writeMapperView, DEFAULT_MAPPER_VIEW, MapperView } from "./mapperView";
+
+const view = (patch: Partial<MapperView>): MapperView => ({ ...DEFAULT_MAPPER_VIEW, ...patch });
+
+describe("parseMapperView", () => {
+  it("defaults everything for an empty query", () => {
+    expect(parseMapperView(new URLSearchParams())).toEqual(DEFAULT_MAPPER_VIEW);
+  });
+
+  it("reads selections and filters", () => {
+    const params = new URLSearchParams(
+      "bmf=Rainwater&role=r1&graph=chain&roles=1&confidence=medium&hideRejected=1&order=degree&q=roof&matches=1"
+    );
+    expect(parseMapperView(params)).toEqual({
+      bmf: "Rainwater",
+      service: null,
+      material: null,
+      role: "r1",
+      graph: "chain",
+      showRoles: true,
+      minConfidence: "medium",
+      hideRejected: true,
+      ordering: "degree",
+      search: "roof",
+      matchesOnly: true,
+    });
+  });
+
+  it("falls back to defaults for unknown values", () => {
+    const params = new URLSearchParams("graph=tree&confidence=certain&order=input&roles=yes");
+    expect(parseMapperView(params)).toEqual(DEFAULT_MAPPER_VIEW);
+  });
+});
+
+describe("writeMapperView", () => {
+  it("leaves defaults out of the query", () => {
+    expect(writeMapperView(DEFAULT_MAPPER_VIEW, new URLSearchParams()).toString()).toBe("");
+    expect(writeMapperView(view({ service: "Pollination", minConfidence: "high" }), new URLSearchParams()).toString())
+      .toBe("service=Pollination&confidence=high");
+  });
+
+  it("round-trips names that need escaping", () => {
+    const selected = view({ bmf: "Timber & glass / 50%", search: "a=b?" });
+    const params = new URLSearchParams(writeMapperView(selected, new URLSearchParams()).toString());
+    expect(parseMapperView(params)).toEqual(selected);
+  });
+
+  it("keeps other parameters and removes cleared fields", () => {
+    const params = new URLSearchParams("run=h1&bmf=Rainwater&matches=1");
+    const next = writeMapperView(view({ service: "Pollination" }), params);
+    expect(next.toString()).toBe("run=h1&service=Pollination");
+    expect(params.toString()).toBe("run=h1&bmf=Rainwater&matches=1");
+  });
+});
+
+describe("clearMapperView", () => {
+  it("removes only the view's parameters", () => {
+    expect(clearMapperView(new URLSearchParams("run=h1&bmf=Rainwater&q=roof")).toString()).toBe("run=h1");
+  });
+});
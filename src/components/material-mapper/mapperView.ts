@@ -0,0 +1,100 @@
+import { CONFIDENCE_LEVELS, Confidence } from "./graphStyles";
+import { ORDERING_LABELS, OrderingMode } from "@/components/ui/bipartiteGraphOrdering";
+
+/**
+ * What `MapperResults` is showing - the selected flow, service, material or
+ * role, and the graph filters - as URL query parameters, so a view can be
+ * linked to and browser history steps through selections. Defaults are left
+ * out of the URL, and parameters that don't belong to the view are kept.
+ */
+
+export interface MapperView {
+  /** Selected flow, by `bmf_name` */
+  bmf: string | null;
+  service: string | null;
+  material: string | null;
+  /** Selected role, by `role_id` */
+  role: string | null;
+  /** "services": BMF → ecosystem service; "chain": materials → BMFs → services (+ roles) */
+  graph: "services" | "chain";
+  showRoles: boolean;
+  minConfidence: Confidence;
+  hideRejected: boolean;
+  ordering: OrderingMode;
+  search: string;
+  matchesOnly: boolean;
+}
+
+export const DEFAULT_MAPPER_VIEW: MapperView = {
+  bmf: null,
+  service: null,
+  material: null,
+  role: null,
+  graph: "services",
+  showRoles: false,
+  minConfidence: "low",
+  hideRejected: false,
+  ordering: "alphabetical",
+  search: "",
+  matchesOnly: false,
+};
+
+/** Query parameter of each field */
+const PARAMS: Record<keyof MapperView, string> = {
+  bmf: "bmf",
+  service: "service",
+  material: "material",
+  role: "role",
+  graph: "graph",
+  showRoles: "roles",
+  minConfidence: "confidence",
+  hideRejected: "hideRejected",
+  ordering: "order",
+  search: "q",
+  matchesOnly: "matches",
+};
+
+// "As given" isn't offered in the order menu
+const ORDERINGS = (Object.keys(ORDERING_LABELS) as OrderingMode[]).filter(mode => mode !== "input");
+
+const pick = <T extends string>(values: readonly T[], value: string | null, fallback: T): T =>
+  values.includes(value as T) ? (value as T) : fallback;
+
+export function parseMapperView(params: URLSearchParams): MapperView {
+  const get = (field: keyof MapperView) => params.get(PARAMS[field]);
+  const flag = (field: keyof MapperView) => get(field) === "1";
+  const d = DEFAULT_MAPPER_VIEW;
+
+  return {
+    bmf: get("bmf") || null,
+    service: get("service") || null,
+    material: get("material") || null,
+    role: get("role") || null,
+    graph: pick(["services", "chain"] as const, get("graph"), d.graph),
+    showRoles: flag("showRoles"),
+    minConfidence: pick(CONFIDENCE_LEVELS, get("minConfidence"), d.minConfidence),
+    hideRejected: flag("hideRejected"),
+    ordering: pick(ORDERINGS, get("ordering"), d.ordering),
+    search: get("search") ?? d.search,
+    matchesOnly: flag("matchesOnly"),
+  };
+}
+
+/** `params` with the view written over it; the input is left unchanged */
+export function writeMapperView(view: MapperView, params: URLSearchParams): URLSearchParams {
+  const next = new URLSearchParams(params);
+  for (const field of Object.keys(PARAMS) as (keyof MapperView)[]) {
+    const value = view[field];
+    if (value === DEFAULT_MAPPER_VIEW[field] || value === null || value === "") {
+      next.delete(PARAMS[field]);
+    } else {
+      next.set(PARAMS[field], typeof value === "boolean" ? "1" : value);
+    }
+  }
+  return next;
+}
+
+/** `params` without any of the view's parameters */
+export function clearMapperView(params: URLSearchParams): URLSearchParams {
+  return writeMapperView(DEFAULT_MAPPER_VIEW, params);
+}
@@ -0,0 +1,86 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useSearchParams } from "next/navigation";
+import { parseMapperView, writeMapperView, MapperView } from "./mapperView";
+
+/**
+ * Replace the URL query, as a new history entry or in place. Uses the History
+ * API directly, which Next.js keeps in sync with `useSearchParams`, so the
+ * page is never refetched.
+ */
+export function updateQuery(params: URLSearchParams, mode: "push" | "replace" = "replace") {
+  const query = params.toString();
+  if (query === window.location.search.replace(/^\?/, "")) return;
+
+  const url = `${window.location.pathname}${query ? `?${query}` : ""}${window.location.hash}`;
+  if (mode === "push") {
+    window.history.pushState(null, "", url);
+  } else {
+    window.history.replaceState(null, "", url);
+  }
+}
+
+/**
+ * The results view held in the URL query. Selections are pushed so back and
+ * forward step through them; filters replace the current entry so typing in
+ * the search or dragging the slider doesn't flood the history.
+ */
+export function useMapperView() {
+  const searchParams = useSearchParams();
+  const view = useMemo(() => parseMapperView(searchParams), [searchParams]);
+
+  const setView = useCallback((patch: Partial<MapperView>, mode: "push" | "replace" = "replace") => {
+    const current = new URLSearchParams(window.location.search);
+    updateQuery(writeMapperView({ ...parseMapperView(current), ...patch }, current), mode);
+  }, []);
+
+  /** Change the selection, as a new history entry */
+  const select = useCallback((patch: Partial<MapperView>) => setView(patch, "push"), [setView]);
+
+  return { view, setView, select };
+}
+
+/**
+ * A view field bound to an input that changes continuously, like the search
+ * box or the confidence slider. The input reads and writes local state; the
+ * URL is updated once the value has settled for `delayMs`, or on `commit`
+ * (e.g. on blur). The local value only follows the URL when it changes from
+ * elsewhere, such as back and forward.
+ */
+export function useViewInput<K extends keyof MapperView>(key: K, delayMs = 300) {
+  const { view, setView } = useMapperView();
+  const urlValue = view[key];
+  const [value, setValue] = useState(urlValue);
+  // Last value this input wrote to the URL, or found there
+  const committedRef = useRef(urlValue);
+  const pendingRef = useRef<{ value: MapperView[K] } | null>(null);
+  const timerRef = useRef<ReturnType<typeof setTimeout>>(undefined);
+
+  useEffect(() => {
+    if (urlValue === committedRef.current) return;
+    committedRef.current = urlValue;
+    pendingRef.current = null;
+    clearTimeout(timerRef.current);
+    setValue(urlValue);
+  }, [urlValue]);
+
+  const commit = useCallback(() => {
+    clearTimeout(timerRef.current);
+    const pending = pendingRef.current;
+    if (!pending) return;
+    pendingRef.current = null;
+    committedRef.current = pending.value;
+    setView({ [key]: pending.value } as Partial<MapperView>);
+  }, [key, setView]);
+
+  const change = useCallback((next: MapperView[K]) => {
+    setValue(next);
+    pendingRef.current = { value: next };
+    clearTimeout(timerRef.current);
+    timerRef.current = setTimeout(commit, delayMs);
+  }, [commit, delayMs]);
+
+  // Once unmounted the URL may belong to another page, so drop the edit
+  useEffect(() => () => clearTimeout(timerRef.current), []);
+
+  return { value, change, commit };
+}
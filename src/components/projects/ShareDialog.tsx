@@ -0,0 +1,255 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Share2, X, Copy, Check, Loader2, AlertCircle, Link2Off } from "lucide-react";
+import { fetchShares, createShareLink, patchShareLink, revokeShareLink } from "@/lib/projects/client";
+import { shareStatus } from "@/lib/shares/links";
+import type { ShareLink, ShareStatus } from "@/lib/shares/types";
+
+/**
+ * ShareDialog - "Share" button and modal for managing a project's read-only
+ * links: create one (optionally expiring), copy it, change its expiry, or
+ * revoke it. Anyone with an active link can view the analysis without an account.
+ */
+
+export interface ShareDialogProps {
+  projectId: string;
+  /** Allow creating, changing and revoking links; otherwise they are only listed */
+  canManage?: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const EXPIRY_OPTIONS: [string, number | null][] = [
+  ["Never expires", null],
+  ["1 day", 1],
+  ["7 days", 7],
+  ["30 days", 30],
+  ["90 days", 90],
+];
+
+const STATUS_BADGES: Record<ShareStatus, string> = {
+  active: "text-green-700 bg-green-50",
+  expired: "text-amber-700 bg-amber-50",
+  revoked: "text-gray-500 bg-gray-100",
+};
+
+const expiryFromDays = (days: number | null) =>
+  days === null ? null : new Date(Date.now() + days * DAY_MS).toISOString();
+
+export function ShareDialog({ projectId, canManage = true }: ShareDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [shares, setShares] = useState<ShareLink[] | null>(null);
+  const [expiryDays, setExpiryDays] = useState<number | null>(7);
+  const [isCreating, setIsCreating] = useState(false);
+  const [copiedToken, setCopiedToken] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    fetchShares(projectId)
+      .then(setShares)
+      .catch(err => setError(err instanceof Error ? err.message : "Failed to load share links"));
+  }, [open, projectId]);
+
+  const replace = (share: ShareLink) =>
+    setShares(prev => prev?.map(s => (s.token === share.token ? share : s)) ?? [share]);
+
+  const handleCreate = useCallback(async () => {
+    setIsCreating(true);
+    setError(null);
+    try {
+      const share = await createShareLink(projectId, { expiresAt: expiryFromDays(expiryDays) });
+      setShares(prev => [share, ...(prev ?? [])]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create share link");
+    } finally {
+      setIsCreating(false);
+    }
+  }, [projectId, expiryDays]);
+
+  const handleExpiryChange = async (share: ShareLink, days: number | null) => {
+    setError(null);
+    try {
+      replace(await patchShareLink(projectId, share.token, { expiresAt: expiryFromDays(days) }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update share link");
+    }
+  };
+
+  const handleRevoke = async (share: ShareLink) => {
+    if (!confirm("Revoke this link? Anyone using it will lose access.")) return;
+    setError(null);
+    try {
+      replace(await revokeShareLink(projectId, share.token));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to revoke share link");
+    }
+  };
+
+  const handleCopy = async (token: string) => {
+    await navigator.clipboard.writeText(`${window.location.origin}/share/${token}`);
+    setCopiedToken(token);
+    setTimeout(() => setCopiedToken(prev => (prev === token ? null : prev)), 2000);
+  };
+
+  const selectClass =
+    "px-1 py-1 text-xs font-mono text-gray-500 bg-transparent border border-gray-200 rounded focus:outline-none";
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className="flex items-center gap-2 px-3 py-2 text-sm font-mono text-gray-600 border border-gray-200 rounded-lg hover:border-gray-300 hover:text-gray-800 transition-colors"
+      >
+        <Share2 size={16} />
+        Share
+      </button>
+
+      {open && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/30"
+          onClick={() => setOpen(false)}
+        >
+          <div
+            data-keep-selection
+            className="bg-white rounded-lg shadow-xl max-w-lg w-full mx-4 max-h-[80vh] flex flex-col animate-fadeIn"
+            onClick={(e) => e.stopPropagation()}
+          >
+            {/* Header */}
+            <div className="flex items-start justify-between p-4 border-b border-gray-200">
+              <div>
+                <h3 className="font-mono text-gray-800 font-medium text-lg">Share read-only link</h3>
+                <span className="text-xs font-mono text-gray-400">
+                  Anyone with an active link can view this analysis without an account.
+                </span>
+              </div>
+              <button
+                onClick={() => setOpen(false)}
+                className="text-gray-400 hover:text-gray-600 p-1 rounded hover:bg-gray-100 transition-colors"
+              >
+                <X size={20} />
+              </button>
+            </div>
+
+            <div className="p-4 overflow-y-auto flex-1 space-y-4">
+              {canManage && (
+                <div className="flex items-center gap-2">
+                  <select
+                    value={expiryDays ?? ""}
+                    onChange={(e) => setExpiryDays(e.target.value ? Number(e.target.value) : null)}
+                    className={selectClass}
+                  >
+                    {EXPIRY_OPTIONS.map(([label, days]) => (
+                      <option key={label} value={days ?? ""}>{label}</option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={handleCreate}
+                    disabled={isCreating}
+                    className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-mono text-white bg-gray-800 rounded hover:bg-gray-700 disabled:bg-gray-300 transition-colors"
+                  >
+                    {isCreating ? <Loader2 size={12} className="animate-spin" /> : <Share2 size={12} />}
+                    Create link
+                  </button>
+                </div>
+              )}
+
+              {error && (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-lg flex items-start gap-2">
+                  <AlertCircle size={16} className="text-red-600 mt-0.5" />
+                  <p className="font-mono text-xs text-red-700">{error}</p>
+                </div>
+              )}
+
+              {shares === null && !error && (
+                <div className="flex items-center gap-2 text-xs font-mono text-gray-400">
+                  <Loader2 size={14} className="animate-spin" />
+                  Loading links...
+                </div>
+              )}
+
+              {shares?.length === 0 && (
+                <p className="text-xs font-mono text-gray-400">No links yet.</p>
+              )}
+
+              {shares && shares.length > 0 && (
+                <div className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                  {shares.map(share => {
+                    const status = shareStatus(share);
+                    return (
+                      <div key={share.token} className="p-3 space-y-2">
+                        <div className="flex items-center gap-2">
+                          <span className={`text-xs font-mono px-2 py-0.5 rounded ${STATUS_BADGES[status]}`}>
+                            {status}
+                          </span>
+                          <code className="flex-1 truncate text-xs font-mono text-gray-500" title={share.token}>
+                            /share/{share.token.slice(0, 12)}…
+                          </code>
+                          {status === "active" && (
+                            <button
+                              type="button"
+                              onClick={() => handleCopy(share.token)}
+                              className="text-gray-400 hover:text-gray-700 transition-colors"
+                              title="Copy link"
+                            >
+                              {copiedToken === share.token ? <Check size={14} className="text-green-600" /> : <Copy size={14} />}
+                            </button>
+                          )}
+                        </div>
+                        <div className="flex items-center gap-2 text-xs font-mono text-gray-400">
+                          <span>Created {new Date(share.createdAt).toLocaleDateString()}</span>
+                          <span>·</span>
+                          <span>
+                            {share.revokedAt
+                              ? `revoked ${new Date(share.revokedAt).toLocaleDateString()}`
+                              : share.expiresAt
+                                ? `${status === "expired" ? "expired" : "expires"} ${new Date(share.expiresAt).toLocaleString()}`
+                                : "never expires"}
+                          </span>
+                          {canManage && !share.revokedAt && (
+                            <div className="ml-auto flex items-center gap-2">
+                              <select
+                                value=""
+                                onChange={(e) => {
+                                  if (e.target.value === "") return;
+                                  handleExpiryChange(share, e.target.value === "never" ? null : Number(e.target.value));
+                                }}
+                                className={selectClass}
+                                title="Change expiry"
+                              >
+                                <option value="">{status === "expired" ? "Renew..." : "Expiry..."}</option>
+                                {EXPIRY_OPTIONS.map(([label, days]) => (
+                                  <option key={label} value={days ?? "never"}>
+                                    {days === null ? label : `${label} from now`}
+                                  </option>
+                                ))}
+                              </select>
+                              <button
+                                type="button"
+                                onClick={() => handleRevoke(share)}
+                                className="flex items-center gap-1 text-gray-400 hover:text-red-600 transition-colors"
+                                title="Revoke link"
+                              >
+                                <Link2Off size={12} />
+                                Revoke
+                              </button>
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
+
+export default ShareDialog;
@@ -0,0 +1,117 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { HighlightIndex, connectionKey, connectionStrokeWidth, traceConnection } from "./bipartiteGraphUtils";
+
+/**
+ * BipartiteEdgeCanvas - canvas2D edge layer used by BipartiteGraph above a size threshold.
+ *
+ * Thousands of SVG paths make every hover re-style thousands of DOM nodes; here a
+ * hover is one redraw. Edges sharing a style are batched into a single stroke, and
+ * only the vertical window currently on screen is drawn.
+ */
+
+export interface CanvasEdge {
+  sourceId: string;
+  targetId: string;
+  y1: number;
+  y2: number;
+  weight?: number;
+  color?: string;
+  dashArray?: string;
+}
+
+export interface BipartiteEdgeCanvasProps {
+  edges: CanvasEdge[];
+  width: number;
+  /** Offset of the drawn window within the full graph height */
+  windowTop: number;
+  windowHeight: number;
+  highlight: HighlightIndex | null;
+  connectionColor: string;
+  highlightColor: string;
+  dimmedOpacity: number;
+  onClick?: () => void;
+}
+
+const parseDash = (dashArray?: string) =>
+  dashArray ? dashArray.split(/[\s,]+/).map(Number).filter(n => !Number.isNaN(n)) : [];
+
+export function BipartiteEdgeCanvas({
+  edges,
+  width,
+  windowTop,
+  windowHeight,
+  highlight,
+  connectionColor,
+  highlightColor,
+  dimmedOpacity,
+  onClick,
+}: BipartiteEdgeCanvasProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = Math.ceil(width * dpr);
+    canvas.height = Math.ceil(windowHeight * dpr);
+    ctx.setTransform(dpr, 0, 0, dpr, 0, -windowTop * dpr);
+    ctx.clearRect(0, windowTop, width, windowHeight);
+
+    const windowBottom = windowTop + windowHeight;
+    const normal = new Map<string, { stroke: string; width: number; dash: number[]; edges: CanvasEdge[] }>();
+    const highlighted: CanvasEdge[] = [];
+
+    for (const edge of edges) {
+      // Skip curves entirely above or below the window
+      if (Math.max(edge.y1, edge.y2) < windowTop || Math.min(edge.y1, edge.y2) > windowBottom) continue;
+      if (highlight?.edges.has(connectionKey(edge.sourceId, edge.targetId))) {
+        highlighted.push(edge);
+        continue;
+      }
+      const stroke = edge.color ?? connectionColor;
+      const strokeWidth = connectionStrokeWidth(edge.weight, false);
+      const key = `${stroke}|${strokeWidth}|${edge.dashArray ?? ""}`;
+      if (!normal.has(key)) {
+        normal.set(key, { stroke, width: strokeWidth, dash: parseDash(edge.dashArray), edges: [] });
+      }
+      normal.get(key)!.edges.push(edge);
+    }
+
+    // Non-highlighted edges, one stroke per style
+    ctx.globalAlpha = highlight ? dimmedOpacity : 0.6;
+    for (const group of normal.values()) {
+      ctx.beginPath();
+      for (const edge of group.edges) traceConnection(ctx, edge.y1, edge.y2, width);
+      ctx.strokeStyle = group.stroke;
+      ctx.lineWidth = group.width;
+      ctx.setLineDash(group.dash);
+      ctx.stroke();
+    }
+
+    // Highlighted edges on top
+    ctx.globalAlpha = 1;
+    ctx.strokeStyle = highlightColor;
+    for (const edge of highlighted) {
+      ctx.beginPath();
+      traceConnection(ctx, edge.y1, edge.y2, width);
+      ctx.lineWidth = connectionStrokeWidth(edge.weight, true);
+      ctx.setLineDash(parseDash(edge.dashArray));
+      ctx.stroke();
+    }
+  }, [edges, width, windowTop, windowHeight, highlight, connectionColor, highlightColor, dimmedOpacity]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="absolute left-0 cursor-pointer"
+      style={{ top: windowTop, width, height: windowHeight }}
+      onClick={onClick}
+    />
+  );
+}
+
+export default BipartiteEdgeCanvas;
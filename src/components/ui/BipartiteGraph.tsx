@@ -1,12 +1,33 @@
 "use client";
 
-import { useState, useMemo, useCallback } from "react";
+import { useState, useMemo, useImperativeHandle, useEffect, useRef, Ref } from "react";
+import {
+  ActiveItems,
+  buildConnectionLookups,
+  rowPositions,
+  computeHighlight,
+  highlightStateOf,
+  connectionPath,
+  connectionStrokeWidth,
+} from "./bipartiteGraphUtils";
+import { BipartiteSvgOptions, renderBipartiteSvg, svgToPng } from "./bipartiteGraphExport";
+import { GraphLegend, GraphLegendEntry } from "./GraphLegend";
+import { BipartiteEdgeCanvas } from "./BipartiteEdgeCanvas";
+import { OrderingMode, orderBipartite, matchesSearch, pinMatches } from "./bipartiteGraphOrdering";
 
 /**
  * BipartiteGraph - A reusable component for visualizing connections between two sets of items.
  *
  * Uses cubic bezier curves that start and end horizontally for smooth, elegant connections.
- * Supports hover interactions to highlight related items and connections.
+ * Supports hover interactions to highlight related items and connections, per-connection
+ * color, dash pattern and weight (explained by an optional legend), and exporting the
+ * graph as a standalone SVG or PNG through its `ref`.
+ *
+ * Rows can be reordered (alphabetically, by degree, by `group`, or to minimize
+ * crossings), and a search query pins matching rows to the top of each column.
+ *
+ * Large graphs stay responsive: tall columns are virtualized inside a scroll
+ * viewport, and above `canvasThreshold` edges are drawn on a canvas.
  *
  * @example
  * <BipartiteGraph
@@ -20,11 +41,24 @@ import { useState, useMemo, useCallback } from "react";
  * />
  */
 
+// Rows mounted above and below the visible viewport when virtualized
+const OVERSCAN_ROWS = 8;
+// Keeps the vertical scrollbar from covering the right column
+const SCROLLBAR_ALLOWANCE = 16;
+
 export interface BipartiteItem {
   id: string;
   label: string;
   /** Optional metadata for display */
   meta?: string;
+  /** Optional glyph shown before the label (e.g. a flow direction arrow) */
+  marker?: string;
+  /** Tooltip for the marker */
+  markerTitle?: string;
+  /** Group used by the "category" ordering */
+  group?: string;
+  /** Draw the label struck through, e.g. for a rejected item */
+  struck?: boolean;
 }
 
 export interface BipartiteConnection {
@@ -32,6 +66,22 @@ export interface BipartiteConnection {
   targetId: string;
   /** Optional weight for line thickness */
   weight?: number;
+  /** Stroke color when not highlighted (defaults to `connectionColor`) */
+  color?: string;
+  /** SVG stroke-dasharray, e.g. "4 3" */
+  dashArray?: string;
+}
+
+export interface GraphExportOptions {
+  /** Keep the current selection highlighted in the export (default true) */
+  includeSelection?: boolean;
+}
+
+export interface BipartiteGraphHandle {
+  /** Standalone SVG document including headers and labels */
+  exportSvg: (options?: GraphExportOptions) => string;
+  /** Rasterized PNG at the given scale (default 2) */
+  exportPng: (options?: GraphExportOptions & { scale?: number }) => Promise<Blob>;
 }
 
 export interface BipartiteGraphProps {
@@ -69,11 +119,27 @@ export interface BipartiteGraphProps {
   selectedRightId?: string | null;
   /** Callback when clicking background (to clear selection) */
   onBackgroundClick?: () => void;
+  /** Legend explaining connection styles, shown below the graph */
+  legend?: GraphLegendEntry[];
+  /** Row ordering for both columns (default: as given) */
+  ordering?: OrderingMode;
+  /** Rows whose label contains this are pinned to the top and marked */
+  searchQuery?: string;
+  /** Only show matching rows and the rows they connect to */
+  filterToMatches?: boolean;
+  /** Above this many rows per column, rows are virtualized in a scroll viewport */
+  virtualizeThreshold?: number;
+  /** Height of the scroll viewport when virtualized */
+  viewportHeight?: number;
+  /** Above this many connections, edges are drawn on a canvas instead of SVG */
+  canvasThreshold?: number;
+  /** Exposes SVG/PNG export */
+  ref?: Ref<BipartiteGraphHandle>;
 }
 
 export function BipartiteGraph({
-  leftItems,
-  rightItems,
+  leftItems: leftItemsProp,
+  rightItems: rightItemsProp,
   connections,
   leftHeader = "Sources",
   rightHeader = "Targets",
@@ -89,246 +155,275 @@ export function BipartiteGraph({
   selectedLeftId,
   selectedRightId,
   onBackgroundClick,
+  legend,
+  ordering = "input",
+  searchQuery = "",
+  filterToMatches = false,
+  virtualizeThreshold = 150,
+  viewportHeight = 640,
+  canvasThreshold = 1000,
+  ref,
 }: BipartiteGraphProps) {
   const [hoveredLeftId, setHoveredLeftId] = useState<string | null>(null);
   const [hoveredRightId, setHoveredRightId] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
 
   // Build lookup maps for efficient access
-  const connectionsBySource = useMemo(() => {
-    const map = new Map<string, Set<string>>();
-    for (const conn of connections) {
-      if (!map.has(conn.sourceId)) {
-        map.set(conn.sourceId, new Set());
-      }
-      map.get(conn.sourceId)!.add(conn.targetId);
-    }
-    return map;
-  }, [connections]);
-
-  const connectionsByTarget = useMemo(() => {
-    const map = new Map<string, Set<string>>();
-    for (const conn of connections) {
-      if (!map.has(conn.targetId)) {
-        map.set(conn.targetId, new Set());
-      }
-      map.get(conn.targetId)!.add(conn.sourceId);
+  const lookups = useMemo(() => buildConnectionLookups(connections), [connections]);
+
+  const ordered = useMemo(
+    () => orderBipartite(leftItemsProp, rightItemsProp, lookups, ordering),
+    [leftItemsProp, rightItemsProp, lookups, ordering]
+  );
+
+  // Apply the search: pin matches to the top, optionally dropping unrelated rows
+  const { leftItems, rightItems, matchIds } = useMemo(() => {
+    const leftMatches = new Set(ordered.leftItems.filter(i => matchesSearch(i, searchQuery)).map(i => i.id));
+    const rightMatches = new Set(ordered.rightItems.filter(i => matchesSearch(i, searchQuery)).map(i => i.id));
+    if (leftMatches.size === 0 && rightMatches.size === 0) {
+      return { ...ordered, matchIds: { left: leftMatches, right: rightMatches } };
     }
-    return map;
-  }, [connections]);
+
+    const connectsTo = (neighbours: Set<string> | undefined, matches: Set<string>) =>
+      [...(neighbours ?? [])].some(id => matches.has(id));
+    const left = filterToMatches
+      ? ordered.leftItems.filter(i => leftMatches.has(i.id) || connectsTo(lookups.bySource.get(i.id), rightMatches))
+      : ordered.leftItems;
+    const right = filterToMatches
+      ? ordered.rightItems.filter(i => rightMatches.has(i.id) || connectsTo(lookups.byTarget.get(i.id), leftMatches))
+      : ordered.rightItems;
+
+    return {
+      leftItems: pinMatches(left, i => leftMatches.has(i.id)),
+      rightItems: pinMatches(right, i => rightMatches.has(i.id)),
+      matchIds: { left: leftMatches, right: rightMatches },
+    };
+  }, [ordered, lookups, searchQuery, filterToMatches]);
+
+  // Bring the first match into view when the query changes (matches are pinned to the top)
+  useEffect(() => {
+    if (!searchQuery.trim()) return;
+    containerRef.current
+      ?.querySelector("[data-search-match]")
+      ?.scrollIntoView({ block: "nearest", inline: "nearest", behavior: "smooth" });
+  }, [searchQuery]);
 
   // Calculate positions for each item
-  const leftPositions = useMemo(() => {
-    const map = new Map<string, number>();
-    leftItems.forEach((item, idx) => {
-      map.set(item.id, idx * rowHeight + rowHeight / 2);
-    });
-    return map;
-  }, [leftItems, rowHeight]);
+  const leftPositions = useMemo(() => rowPositions(leftItems, rowHeight), [leftItems, rowHeight]);
+  const rightPositions = useMemo(() => rowPositions(rightItems, rowHeight), [rightItems, rowHeight]);
 
-  const rightPositions = useMemo(() => {
-    const map = new Map<string, number>();
-    rightItems.forEach((item, idx) => {
-      map.set(item.id, idx * rowHeight + rowHeight / 2);
-    });
-    return map;
-  }, [rightItems, rowHeight]);
-
-  // Determine which items/connections are highlighted
-  const getHighlightState = useCallback(
-    (sourceId: string, targetId: string) => {
-      // Check selection first (takes priority)
-      const activeLeftId = hoveredLeftId ?? selectedLeftId;
-      const activeRightId = hoveredRightId ?? selectedRightId;
-
-      const isActive = activeLeftId !== null || activeRightId !== null;
-      if (!isActive) return "normal";
-
-      if (activeLeftId) {
-        const targets = connectionsBySource.get(activeLeftId);
-        if (sourceId === activeLeftId && targets?.has(targetId)) {
-          return "highlighted";
-        }
-        return "dimmed";
-      }
-
-      if (activeRightId) {
-        const sources = connectionsByTarget.get(activeRightId);
-        if (targetId === activeRightId && sources?.has(sourceId)) {
-          return "highlighted";
-        }
-        return "dimmed";
-      }
-
-      return "normal";
-    },
-    [hoveredLeftId, hoveredRightId, selectedLeftId, selectedRightId, connectionsBySource, connectionsByTarget]
+  // Hover takes priority over selection
+  const active = useMemo<ActiveItems>(
+    () => ({
+      leftId: hoveredLeftId ?? selectedLeftId,
+      rightId: hoveredRightId ?? selectedRightId,
+    }),
+    [hoveredLeftId, hoveredRightId, selectedLeftId, selectedRightId]
   );
 
-  const isLeftItemHighlighted = useCallback(
-    (itemId: string) => {
-      const activeLeftId = hoveredLeftId ?? selectedLeftId;
-      const activeRightId = hoveredRightId ?? selectedRightId;
-      if (!activeLeftId && !activeRightId) return false;
-      if (activeLeftId === itemId) return true;
-      if (activeRightId) {
-        const sources = connectionsByTarget.get(activeRightId);
-        return sources?.has(itemId) ?? false;
-      }
-      return false;
-    },
-    [hoveredLeftId, hoveredRightId, selectedLeftId, selectedRightId, connectionsByTarget]
-  );
+  // Highlighted rows and edges, computed once per hover instead of per edge per render
+  const highlight = useMemo(() => computeHighlight(active, lookups), [active, lookups]);
 
-  const isRightItemHighlighted = useCallback(
-    (itemId: string) => {
-      const activeLeftId = hoveredLeftId ?? selectedLeftId;
-      const activeRightId = hoveredRightId ?? selectedRightId;
-      if (!activeLeftId && !activeRightId) return false;
-      if (activeRightId === itemId) return true;
-      if (activeLeftId) {
-        const targets = connectionsBySource.get(activeLeftId);
-        return targets?.has(itemId) ?? false;
-      }
-      return false;
-    },
-    [hoveredLeftId, hoveredRightId, selectedLeftId, selectedRightId, connectionsBySource]
+  useImperativeHandle(ref, () => {
+    const exportOptions = (includeSelection = true): BipartiteSvgOptions => ({
+      leftItems,
+      rightItems,
+      connections,
+      leftHeader,
+      rightHeader,
+      rowHeight,
+      columnWidth,
+      connectionAreaWidth,
+      connectionColor,
+      highlightColor,
+      dimmedOpacity,
+      legend,
+      active: includeSelection
+        ? { leftId: selectedLeftId, rightId: selectedRightId }
+        : { leftId: null, rightId: null },
+    });
+    return {
+      exportSvg: ({ includeSelection } = {}) => renderBipartiteSvg(exportOptions(includeSelection)),
+      exportPng: ({ includeSelection, scale } = {}) =>
+        svgToPng(renderBipartiteSvg(exportOptions(includeSelection)), scale),
+    };
+  }, [
+    leftItems, rightItems, connections, leftHeader, rightHeader, rowHeight, columnWidth,
+    connectionAreaWidth, connectionColor, highlightColor, dimmedOpacity, legend, selectedLeftId, selectedRightId,
+  ]);
+
+  const svgHeight = Math.max(leftItems.length, rightItems.length) * rowHeight;
+  const totalWidth = columnWidth * 2 + connectionAreaWidth;
+
+  // Large graphs: only rows inside a fixed-height scroll viewport are mounted,
+  // and edges switch from SVG paths to a single canvas
+  const virtualized = Math.max(leftItems.length, rightItems.length) > virtualizeThreshold;
+  const useCanvas = connections.length > canvasThreshold;
+  const [scrollTop, setScrollTop] = useState(0);
+  const windowTop = virtualized ? Math.max(0, scrollTop - OVERSCAN_ROWS * rowHeight) : 0;
+  const windowBottom = virtualized ? scrollTop + viewportHeight + OVERSCAN_ROWS * rowHeight : svgHeight;
+
+  // Reset the viewport when the rows change underneath it
+  useEffect(() => {
+    if (scrollRef.current) scrollRef.current.scrollTop = 0;
+  }, [leftItems, rightItems]);
+
+  // Edges with resolved row positions (connections to hidden rows are dropped)
+  const edges = useMemo(
+    () => connections.flatMap((conn) => {
+      const y1 = leftPositions.get(conn.sourceId);
+      const y2 = rightPositions.get(conn.targetId);
+      if (y1 === undefined || y2 === undefined) return [];
+      return [{ ...conn, y1, y2 }];
+    }),
+    [connections, leftPositions, rightPositions]
   );
 
-  // Generate cubic bezier path
-  const generatePath = useCallback(
-    (y1: number, y2: number) => {
-      const x1 = 0;
-      const x2 = connectionAreaWidth;
-      // Control points at 40% and 60% for smooth horizontal entry/exit
-      const cx = connectionAreaWidth * 0.4;
-      return `M ${x1},${y1} C ${x1 + cx},${y1} ${x2 - cx},${y2} ${x2},${y2}`;
-    },
-    [connectionAreaWidth]
+  const visibleEdges = useMemo(
+    () => virtualized
+      ? edges.filter(e => Math.max(e.y1, e.y2) >= windowTop && Math.min(e.y1, e.y2) <= windowBottom)
+      : edges,
+    [edges, virtualized, windowTop, windowBottom]
   );
 
-  const svgHeight = Math.max(leftItems.length, rightItems.length) * rowHeight;
-  const totalWidth = columnWidth * 2 + connectionAreaWidth;
+  const visibleRows = <T,>(items: T[]) => {
+    const first = Math.floor(windowTop / rowHeight);
+    const last = Math.ceil(windowBottom / rowHeight);
+    return items.slice(first, last).map((item, i) => ({ item, index: first + i }));
+  };
 
-  const isActive = hoveredLeftId !== null || hoveredRightId !== null || selectedLeftId !== null || selectedRightId !== null;
+  const renderRow = (item: BipartiteItem, index: number, side: "left" | "right") => {
+    const isLeft = side === "left";
+    const highlighted = (isLeft ? highlight?.left : highlight?.right)?.has(item.id) ?? false;
+    const dimmed = highlight !== null && !highlighted;
+    const selected = (isLeft ? selectedLeftId : selectedRightId) === item.id;
+    const matched = (isLeft ? matchIds.left : matchIds.right).has(item.id);
+    const rounded = isLeft ? "rounded-l" : "rounded-r";
+    return (
+      <div
+        key={item.id}
+        data-search-match={matched || undefined}
+        className={`
+          absolute inset-x-0 flex items-center text-sm cursor-pointer
+          transition-all duration-150
+          ${isLeft ? "justify-end pr-3" : "pl-3"}
+          ${highlighted ? "text-blue-600 font-medium" : "text-gray-700"}
+          ${dimmed ? "opacity-30" : "opacity-100"}
+          ${selected ? `bg-blue-50 ${rounded}` : matched ? `bg-amber-50 ${rounded}` : ""}
+        `}
+        style={{ top: index * rowHeight, height: rowHeight }}
+        onMouseEnter={() => (isLeft ? setHoveredLeftId : setHoveredRightId)(item.id)}
+        onMouseLeave={() => (isLeft ? setHoveredLeftId : setHoveredRightId)(null)}
+        onClick={() => (isLeft ? onLeftItemClick : onRightItemClick)?.(item)}
+      >
+        {item.marker && (
+          <span className="mr-1.5 text-xs text-gray-400 flex-shrink-0" title={item.markerTitle}>
+            {item.marker}
+          </span>
+        )}
+        <span className={`truncate ${item.struck ? "line-through text-gray-400" : ""}`} title={item.label}>
+          {item.label}
+        </span>
+        {item.meta && (
+          <span className="ml-1 text-xs text-gray-400">{item.meta}</span>
+        )}
+      </div>
+    );
+  };
 
-  return (
-    <div className={`font-mono ${className}`}>
-      {/* Headers */}
-      <div className="flex items-center mb-3" style={{ width: totalWidth }}>
-        <div
-          className="text-xs text-gray-400 uppercase tracking-wider"
-          style={{ width: columnWidth }}
-        >
-          {leftHeader}
-        </div>
-        <div style={{ width: connectionAreaWidth }} />
-        <div
-          className="text-xs text-gray-400 uppercase tracking-wider"
-          style={{ width: columnWidth }}
-        >
-          {rightHeader}
-        </div>
+  const body = (
+    <div className="flex" style={{ width: totalWidth, height: svgHeight }}>
+      {/* Left column */}
+      <div className="relative" style={{ width: columnWidth }}>
+        {visibleRows(leftItems).map(({ item, index }) => renderRow(item, index, "left"))}
       </div>
 
-      {/* Main visualization */}
-      <div className="flex" style={{ width: totalWidth }}>
-        {/* Left column */}
-        <div style={{ width: columnWidth }}>
-          {leftItems.map((item) => {
-            const highlighted = isLeftItemHighlighted(item.id);
-            const dimmed = isActive && !highlighted;
-            const selected = selectedLeftId === item.id;
-            return (
-              <div
-                key={item.id}
-                className={`
-                  flex items-center justify-end pr-3 text-sm cursor-pointer
-                  transition-all duration-150
-                  ${highlighted ? "text-blue-600 font-medium" : "text-gray-700"}
-                  ${dimmed ? "opacity-30" : "opacity-100"}
-                  ${selected ? "bg-blue-50 rounded-l" : ""}
-                `}
-                style={{ height: rowHeight }}
-                onMouseEnter={() => setHoveredLeftId(item.id)}
-                onMouseLeave={() => setHoveredLeftId(null)}
-                onClick={() => onLeftItemClick?.(item)}
-              >
-                <span className="truncate" title={item.label}>
-                  {item.label}
-                </span>
-                {item.meta && (
-                  <span className="ml-1 text-xs text-gray-400">{item.meta}</span>
-                )}
-              </div>
-            );
-          })}
+      {/* Connection area (canvas for large graphs, SVG otherwise) */}
+      {useCanvas ? (
+        <div className="relative flex-shrink-0" style={{ width: connectionAreaWidth, height: svgHeight }}>
+          <BipartiteEdgeCanvas
+            edges={visibleEdges}
+            width={connectionAreaWidth}
+            windowTop={windowTop}
+            windowHeight={Math.min(windowBottom, svgHeight) - windowTop}
+            highlight={highlight}
+            connectionColor={connectionColor}
+            highlightColor={highlightColor}
+            dimmedOpacity={dimmedOpacity}
+            onClick={onBackgroundClick}
+          />
         </div>
-
-        {/* Connection area (SVG) */}
+      ) : (
         <svg
           width={connectionAreaWidth}
           height={svgHeight}
           className="flex-shrink-0 cursor-pointer"
           onClick={onBackgroundClick}
         >
-          {connections.map((conn) => {
-            const y1 = leftPositions.get(conn.sourceId);
-            const y2 = rightPositions.get(conn.targetId);
-            if (y1 === undefined || y2 === undefined) return null;
-
-            const state = getHighlightState(conn.sourceId, conn.targetId);
+          {visibleEdges.map((edge) => {
+            const state = highlightStateOf(edge.sourceId, edge.targetId, highlight);
             const stroke =
-              state === "highlighted" ? highlightColor : connectionColor;
+              state === "highlighted" ? highlightColor : edge.color ?? connectionColor;
             const opacity =
               state === "dimmed" ? dimmedOpacity : state === "highlighted" ? 1 : 0.6;
-            const strokeWidth = state === "highlighted" ? 2 : 1;
+            const strokeWidth = connectionStrokeWidth(edge.weight, state === "highlighted");
 
             return (
               <path
-                key={`${conn.sourceId}-${conn.targetId}`}
-                d={generatePath(y1, y2)}
+                key={`${edge.sourceId}-${edge.targetId}`}
+                d={connectionPath(edge.y1, edge.y2, connectionAreaWidth)}
                 fill="none"
                 stroke={stroke}
                 strokeWidth={strokeWidth}
+                strokeDasharray={edge.dashArray}
                 opacity={opacity}
                 className="transition-all duration-150"
               />
             );
           })}
         </svg>
+      )}
 
-        {/* Right column */}
-        <div style={{ width: columnWidth }}>
-          {rightItems.map((item) => {
-            const highlighted = isRightItemHighlighted(item.id);
-            const dimmed = isActive && !highlighted;
-            const selected = selectedRightId === item.id;
-            return (
-              <div
-                key={item.id}
-                className={`
-                  flex items-center pl-3 text-sm cursor-pointer
-                  transition-all duration-150
-                  ${highlighted ? "text-blue-600 font-medium" : "text-gray-700"}
-                  ${dimmed ? "opacity-30" : "opacity-100"}
-                  ${selected ? "bg-blue-50 rounded-r" : ""}
-                `}
-                style={{ height: rowHeight }}
-                onMouseEnter={() => setHoveredRightId(item.id)}
-                onMouseLeave={() => setHoveredRightId(null)}
-                onClick={() => onRightItemClick?.(item)}
-              >
-                <span className="truncate" title={item.label}>
-                  {item.label}
-                </span>
-                {item.meta && (
-                  <span className="ml-1 text-xs text-gray-400">{item.meta}</span>
-                )}
-              </div>
-            );
-          })}
+      {/* Right column */}
+      <div className="relative" style={{ width: columnWidth }}>
+        {visibleRows(rightItems).map(({ item, index }) => renderRow(item, index, "right"))}
+      </div>
+    </div>
+  );
+
+  return (
+    <div ref={containerRef} className={`font-mono ${className}`}>
+      {/* Headers */}
+      <div className="flex items-center mb-3" style={{ width: totalWidth }}>
+        <div
+          className="text-xs text-gray-400 uppercase tracking-wider"
+          style={{ width: columnWidth }}
+        >
+          {leftHeader}
+        </div>
+        <div style={{ width: connectionAreaWidth }} />
+        <div
+          className="text-xs text-gray-400 uppercase tracking-wider"
+          style={{ width: columnWidth }}
+        >
+          {rightHeader}
         </div>
       </div>
+
+      {/* Main visualization */}
+      {virtualized ? (
+        <div
+          ref={scrollRef}
+          className="overflow-y-auto"
+          style={{ width: totalWidth + SCROLLBAR_ALLOWANCE, height: viewportHeight }}
+          onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+        >
+          {body}
+        </div>
+      ) : body}
+
+      {legend && legend.length > 0 && <GraphLegend entries={legend} className="mt-4" />}
     </div>
   );
 }
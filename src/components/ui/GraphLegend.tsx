@@ -0,0 +1,42 @@
+/**
+ * GraphLegend - Line samples explaining connection colors and dash patterns.
+ */
+
+export interface GraphLegendEntry {
+  label: string;
+  color: string;
+  /** SVG stroke-dasharray, e.g. "4 3" */
+  dashArray?: string;
+  /** Stroke width of the sample (default 2) */
+  weight?: number;
+}
+
+export interface GraphLegendProps {
+  entries: GraphLegendEntry[];
+  className?: string;
+}
+
+export function GraphLegend({ entries, className = "" }: GraphLegendProps) {
+  return (
+    <div className={`flex flex-wrap gap-x-4 gap-y-1 text-xs font-mono text-gray-500 ${className}`}>
+      {entries.map((entry) => (
+        <span key={entry.label} className="flex items-center gap-1.5">
+          <svg width={24} height={8} className="flex-shrink-0">
+            <line
+              x1={0}
+              y1={4}
+              x2={24}
+              y2={4}
+              stroke={entry.color}
+              strokeWidth={entry.weight ?? 2}
+              strokeDasharray={entry.dashArray}
+            />
+          </svg>
+          {entry.label}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+export default GraphLegend;
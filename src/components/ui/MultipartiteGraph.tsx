@@ -0,0 +1,214 @@
+"use client";
+
+import { useState, useMemo } from "react";
+import type { BipartiteItem } from "./BipartiteGraph";
+import { rowPositions, connectionPath, connectionStrokeWidth } from "./bipartiteGraphUtils";
+import { GraphLegend, GraphLegendEntry } from "./GraphLegend";
+import {
+  ColumnLink,
+  ItemRef,
+  buildGapAdjacency,
+  tracePath,
+  itemKey,
+  edgeKey,
+} from "./multipartiteGraphUtils";
+
+/**
+ * MultipartiteGraph - A generalization of BipartiteGraph to N columns.
+ *
+ * Connections only run between neighbouring columns. Hovering (or selecting) an
+ * item traces its full path: rightwards through every following column and
+ * leftwards through every preceding one.
+ *
+ * @example
+ * <MultipartiteGraph
+ *   columns={[
+ *     { id: "materials", header: "Materials", items: [{ id: "timber", label: "Timber" }] },
+ *     { id: "flows", header: "Flows", items: [{ id: "wood", label: "Wood" }] },
+ *     { id: "services", header: "Services", items: [{ id: "carbon", label: "Carbon storage" }] },
+ *   ]}
+ *   links={[
+ *     [{ sourceId: "timber", targetId: "wood" }],
+ *     [{ sourceId: "wood", targetId: "carbon" }],
+ *   ]}
+ * />
+ */
+
+export interface MultipartiteColumn {
+  id: string;
+  header: string;
+  items: BipartiteItem[];
+}
+
+export interface MultipartiteGraphProps {
+  /** Columns, left to right */
+  columns: MultipartiteColumn[];
+  /** links[i] connects columns[i] (source) to columns[i + 1] (target) */
+  links: ColumnLink[][];
+  /** Height of each item row in pixels */
+  rowHeight?: number;
+  /** Width of each item column */
+  columnWidth?: number;
+  /** Width of each connection area between columns */
+  connectionAreaWidth?: number;
+  /** Color for connections (CSS color) */
+  connectionColor?: string;
+  /** Color for highlighted connections */
+  highlightColor?: string;
+  /** Opacity for non-highlighted connections when something is hovered */
+  dimmedOpacity?: number;
+  /** Custom class for the container */
+  className?: string;
+  /** Callback when an item is clicked */
+  onItemClick?: (column: MultipartiteColumn, item: BipartiteItem) => void;
+  /** Currently selected item */
+  selectedItem?: ItemRef | null;
+  /** Callback when clicking background (to clear selection) */
+  onBackgroundClick?: () => void;
+  /** Legend explaining link styles, shown below the graph */
+  legend?: GraphLegendEntry[];
+}
+
+export function MultipartiteGraph({
+  columns,
+  links,
+  rowHeight = 32,
+  columnWidth = 180,
+  connectionAreaWidth = 120,
+  connectionColor = "#94a3b8", // slate-400
+  highlightColor = "#3b82f6", // blue-500
+  dimmedOpacity = 0.15,
+  className = "",
+  onItemClick,
+  selectedItem,
+  onBackgroundClick,
+  legend,
+}: MultipartiteGraphProps) {
+  const [hoveredItem, setHoveredItem] = useState<ItemRef | null>(null);
+
+  const adjacency = useMemo(() => buildGapAdjacency(links), [links]);
+
+  const positions = useMemo(
+    () => columns.map(column => rowPositions(column.items, rowHeight)),
+    [columns, rowHeight]
+  );
+
+  // Hover takes priority over selection
+  const activeItem = hoveredItem ?? selectedItem ?? null;
+  const traced = useMemo(
+    () => (activeItem ? tracePath(activeItem, adjacency) : null),
+    [activeItem, adjacency]
+  );
+
+  const svgHeight = Math.max(0, ...columns.map(c => c.items.length)) * rowHeight;
+  const totalWidth = columns.length * columnWidth + Math.max(0, columns.length - 1) * connectionAreaWidth;
+
+  const labelAlign = (index: number) =>
+    index === 0
+      ? "justify-end pr-3"
+      : index === columns.length - 1
+        ? "pl-3"
+        : "justify-center px-2";
+
+  return (
+    <div className={`font-mono ${className}`}>
+      {/* Headers */}
+      <div className="flex items-center mb-3" style={{ width: totalWidth }}>
+        {columns.map((column, index) => (
+          <div key={column.id} className="flex" style={{ width: columnWidth + (index > 0 ? connectionAreaWidth : 0) }}>
+            {index > 0 && <div style={{ width: connectionAreaWidth }} />}
+            <div
+              className={`text-xs text-gray-400 uppercase tracking-wider truncate ${
+                index === 0 ? "text-right pr-3" : index === columns.length - 1 ? "pl-3" : "text-center"
+              }`}
+              style={{ width: columnWidth }}
+            >
+              {column.header}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Main visualization */}
+      <div className="flex" style={{ width: totalWidth }}>
+        {columns.map((column, index) => (
+          <div key={column.id} className="flex">
+            {/* Connection area (SVG) to the left of every column but the first */}
+            {index > 0 && (
+              <svg
+                width={connectionAreaWidth}
+                height={svgHeight}
+                className="flex-shrink-0 cursor-pointer"
+                onClick={onBackgroundClick}
+              >
+                {links[index - 1]?.map((link) => {
+                  const y1 = positions[index - 1].get(link.sourceId);
+                  const y2 = positions[index].get(link.targetId);
+                  if (y1 === undefined || y2 === undefined) return null;
+
+                  const highlighted = traced?.edges.has(edgeKey(index - 1, link.sourceId, link.targetId)) ?? false;
+                  const dimmed = traced !== null && !highlighted;
+
+                  return (
+                    <path
+                      key={`${link.sourceId}-${link.targetId}`}
+                      d={connectionPath(y1, y2, connectionAreaWidth)}
+                      fill="none"
+                      stroke={highlighted ? highlightColor : link.color ?? connectionColor}
+                      strokeWidth={connectionStrokeWidth(link.weight, highlighted)}
+                      strokeDasharray={link.dashArray}
+                      opacity={dimmed ? dimmedOpacity : highlighted ? 1 : 0.6}
+                      className="transition-all duration-150"
+                    />
+                  );
+                })}
+              </svg>
+            )}
+
+            {/* Item column */}
+            <div style={{ width: columnWidth }}>
+              {column.items.map((item) => {
+                const highlighted = traced?.items.has(itemKey(index, item.id)) ?? false;
+                const dimmed = traced !== null && !highlighted;
+                const selected = selectedItem?.column === index && selectedItem.id === item.id;
+                return (
+                  <div
+                    key={item.id}
+                    className={`
+                      flex items-center text-sm cursor-pointer
+                      transition-all duration-150
+                      ${labelAlign(index)}
+                      ${highlighted ? "text-blue-600 font-medium" : "text-gray-700"}
+                      ${dimmed ? "opacity-30" : "opacity-100"}
+                      ${selected ? "bg-blue-50 rounded" : ""}
+                    `}
+                    style={{ height: rowHeight }}
+                    onMouseEnter={() => setHoveredItem({ column: index, id: item.id })}
+                    onMouseLeave={() => setHoveredItem(null)}
+                    onClick={() => onItemClick?.(column, item)}
+                  >
+                    {item.marker && (
+                      <span className="mr-1.5 text-xs text-gray-400 flex-shrink-0" title={item.markerTitle}>
+                        {item.marker}
+                      </span>
+                    )}
+                    <span className={`truncate ${item.struck ? "line-through text-gray-400" : ""}`} title={item.label}>
+                      {item.label}
+                    </span>
+                    {item.meta && (
+                      <span className="ml-1 text-xs text-gray-400">{item.meta}</span>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {legend && legend.length > 0 && <GraphLegend entries={legend} className="mt-4" />}
+    </div>
+  );
+}
+
+export default MultipartiteGraph;
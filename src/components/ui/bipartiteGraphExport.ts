@@ -0,0 +1,220 @@
+import {
+  ActiveItems,
+  ConnectionLike,
+  buildConnectionLookups,
+  rowPositions,
+  isAnyActive,
+  getHighlightState,
+  isLeftItemHighlighted,
+  isRightItemHighlighted,
+  connectionPath,
+  connectionStrokeWidth,
+} from "./bipartiteGraphUtils";
+import type { GraphLegendEntry } from "./GraphLegend";
+
+/**
+ * Standalone SVG/PNG rendering of a BipartiteGraph.
+ *
+ * The on-screen graph mixes HTML rows with an SVG connection area inside a
+ * scroll container, so instead of cloning the DOM the export re-draws the same
+ * layout as a single self-contained SVG document with inline styles.
+ */
+
+interface SvgItem {
+  id: string;
+  label: string;
+  meta?: string;
+  marker?: string;
+  struck?: boolean;
+}
+
+interface SvgConnection extends ConnectionLike {
+  weight?: number;
+  color?: string;
+  dashArray?: string;
+}
+
+export interface BipartiteSvgOptions {
+  leftItems: SvgItem[];
+  rightItems: SvgItem[];
+  connections: SvgConnection[];
+  leftHeader: string;
+  rightHeader: string;
+  rowHeight: number;
+  columnWidth: number;
+  connectionAreaWidth: number;
+  connectionColor: string;
+  highlightColor: string;
+  dimmedOpacity: number;
+  legend?: GraphLegendEntry[];
+  /** Selection to render as highlighted */
+  active: ActiveItems;
+}
+
+const PADDING = 16;
+const HEADER_HEIGHT = 28;
+const LABEL_PADDING = 12;
+const FONT_SIZE = 14;
+const HEADER_FONT_SIZE = 12;
+// IBM Plex Mono advance width is 0.6em
+const CHAR_WIDTH = FONT_SIZE * 0.6;
+const LEGEND_ROW_HEIGHT = 20;
+const LEGEND_SAMPLE_WIDTH = 24;
+const FONT_FAMILY = "'IBM Plex Mono', Menlo, Monaco, monospace";
+
+const TEXT_COLOR = "#374151"; // gray-700
+const HIGHLIGHT_TEXT_COLOR = "#2563eb"; // blue-600
+const HEADER_COLOR = "#9ca3af"; // gray-400
+const META_COLOR = "#9ca3af"; // gray-400
+const SELECTED_FILL = "#eff6ff"; // blue-50
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Labels are truncated with an ellipsis, like the on-screen `truncate` class
+function fitText(text: string, width: number): string {
+  const maxChars = Math.floor(width / CHAR_WIDTH);
+  return text.length > maxChars ? `${text.slice(0, Math.max(0, maxChars - 1))}…` : text;
+}
+
+export function renderBipartiteSvg({
+  leftItems,
+  rightItems,
+  connections,
+  leftHeader,
+  rightHeader,
+  rowHeight,
+  columnWidth,
+  connectionAreaWidth,
+  connectionColor,
+  highlightColor,
+  dimmedOpacity,
+  legend = [],
+  active,
+}: BipartiteSvgOptions): string {
+  const lookups = buildConnectionLookups(connections);
+  const leftPositions = rowPositions(leftItems, rowHeight);
+  const rightPositions = rowPositions(rightItems, rowHeight);
+  const anyActive = isAnyActive(active);
+
+  const graphHeight = Math.max(leftItems.length, rightItems.length) * rowHeight;
+  const width = columnWidth * 2 + connectionAreaWidth + PADDING * 2;
+  const legendHeight = legend.length > 0 ? PADDING + legend.length * LEGEND_ROW_HEIGHT : 0;
+  const height = graphHeight + HEADER_HEIGHT + legendHeight + PADDING * 2;
+  const top = PADDING + HEADER_HEIGHT;
+  const connectionX = PADDING + columnWidth;
+  const rightX = connectionX + connectionAreaWidth;
+
+  const parts: string[] = [];
+  parts.push(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${FONT_FAMILY}">`,
+    `<rect width="100%" height="100%" fill="#ffffff"/>`
+  );
+
+  // Headers
+  const header = (text: string, x: number) =>
+    `<text x="${x}" y="${PADDING + HEADER_FONT_SIZE}" font-size="${HEADER_FONT_SIZE}" fill="${HEADER_COLOR}" letter-spacing="0.05em">${escapeXml(text.toUpperCase())}</text>`;
+  parts.push(header(leftHeader, PADDING), header(rightHeader, rightX));
+
+  // Connections, with highlighted ones drawn last so they sit on top
+  const paths = connections.flatMap(conn => {
+    const y1 = leftPositions.get(conn.sourceId);
+    const y2 = rightPositions.get(conn.targetId);
+    if (y1 === undefined || y2 === undefined) return [];
+    const state = getHighlightState(conn.sourceId, conn.targetId, active, lookups);
+    return [{ d: connectionPath(y1, y2, connectionAreaWidth), state, conn }];
+  });
+  paths.sort((a, b) => Number(a.state === "highlighted") - Number(b.state === "highlighted"));
+
+  parts.push(`<g transform="translate(${connectionX} ${top})" fill="none">`);
+  for (const { d, state, conn } of paths) {
+    const stroke = state === "highlighted" ? highlightColor : conn.color ?? connectionColor;
+    const opacity = state === "dimmed" ? dimmedOpacity : state === "highlighted" ? 1 : 0.6;
+    const strokeWidth = connectionStrokeWidth(conn.weight, state === "highlighted");
+    const dash = conn.dashArray ? ` stroke-dasharray="${conn.dashArray}"` : "";
+    parts.push(`<path d="${d}" stroke="${stroke}" stroke-width="${strokeWidth}"${dash} opacity="${opacity}"/>`);
+  }
+  parts.push(`</g>`);
+
+  // Item labels
+  const column = (
+    items: BipartiteSvgOptions["leftItems"],
+    side: "left" | "right",
+    isHighlighted: (id: string) => boolean,
+    selectedId: string | null | undefined
+  ) => {
+    items.forEach((item, idx) => {
+      const y = top + idx * rowHeight;
+      const highlighted = isHighlighted(item.id);
+      const opacity = anyActive && !highlighted ? 0.3 : 1;
+      const metaWidth = item.meta ? (item.meta.length + 1) * CHAR_WIDTH : 0;
+      const markerWidth = item.marker ? (item.marker.length + 1) * CHAR_WIDTH : 0;
+      const label = fitText(item.label, columnWidth - LABEL_PADDING - metaWidth - markerWidth);
+      const marker = item.marker
+        ? `<tspan fill="${META_COLOR}" font-size="${HEADER_FONT_SIZE}">${escapeXml(item.marker)} </tspan>`
+        : "";
+      const labelText = item.struck
+        ? `<tspan text-decoration="line-through" fill="${META_COLOR}">${escapeXml(label)}</tspan>`
+        : escapeXml(label);
+      const text = `${marker}${labelText}${
+        item.meta ? `<tspan fill="${META_COLOR}" font-size="${HEADER_FONT_SIZE}"> ${escapeXml(item.meta)}</tspan>` : ""
+      }`;
+
+      if (selectedId === item.id) {
+        parts.push(
+          `<rect x="${side === "left" ? PADDING : rightX}" y="${y}" width="${columnWidth}" height="${rowHeight}" rx="4" fill="${SELECTED_FILL}"/>`
+        );
+      }
+      parts.push(
+        `<text x="${side === "left" ? connectionX - LABEL_PADDING : rightX + LABEL_PADDING}" y="${y + rowHeight / 2}" ` +
+          `dominant-baseline="central" text-anchor="${side === "left" ? "end" : "start"}" font-size="${FONT_SIZE}" ` +
+          `fill="${highlighted ? HIGHLIGHT_TEXT_COLOR : TEXT_COLOR}" font-weight="${highlighted ? 500 : 400}" opacity="${opacity}">${text}</text>`
+      );
+    });
+  };
+  column(leftItems, "left", id => isLeftItemHighlighted(id, active, lookups), active.leftId);
+  column(rightItems, "right", id => isRightItemHighlighted(id, active, lookups), active.rightId);
+
+  // Legend below the graph, one entry per row
+  legend.forEach((entry, idx) => {
+    const y = top + graphHeight + PADDING + idx * LEGEND_ROW_HEIGHT + LEGEND_ROW_HEIGHT / 2;
+    const dash = entry.dashArray ? ` stroke-dasharray="${entry.dashArray}"` : "";
+    parts.push(
+      `<line x1="${PADDING}" y1="${y}" x2="${PADDING + LEGEND_SAMPLE_WIDTH}" y2="${y}" stroke="${entry.color}" stroke-width="${entry.weight ?? 2}"${dash}/>`,
+      `<text x="${PADDING + LEGEND_SAMPLE_WIDTH + 8}" y="${y}" dominant-baseline="central" font-size="${HEADER_FONT_SIZE}" fill="${TEXT_COLOR}">${escapeXml(entry.label)}</text>`
+    );
+  });
+
+  parts.push(`</svg>`);
+  return parts.join("\n");
+}
+
+/** Rasterize an SVG document to a PNG blob in the browser */
+export function svgToPng(svg: string, scale = 2): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([svg], { type: "image/svg+xml;charset=utf-8" }));
+    const image = new Image();
+
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.ceil(image.width * scale);
+      canvas.height = Math.ceil(image.height * scale);
+      const ctx = canvas.getContext("2d");
+      if (!ctx) return reject(new Error("Canvas is not supported"));
+      ctx.scale(scale, scale);
+      ctx.drawImage(image, 0, 0);
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("PNG encoding failed"))), "image/png");
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Could not render the SVG"));
+    };
+    image.src = url;
+  });
+}
@@ -0,0 +1,80 @@
+import type { BipartiteItem, BipartiteConnection } from "./BipartiteGraph";
+
+/**
+ * Synthetic BipartiteGraph data for benchmarking large layouts.
+ *
+ * Generation is seeded, so the same options always produce the same graph and
+ * timings can be compared across changes.
+ */
+
+export interface SyntheticGraphOptions {
+  leftCount: number;
+  rightCount: number;
+  connectionCount: number;
+  /** Number of right-side groups, for the "category" ordering */
+  groupCount?: number;
+  seed?: number;
+}
+
+export interface SyntheticGraph {
+  leftItems: BipartiteItem[];
+  rightItems: BipartiteItem[];
+  connections: BipartiteConnection[];
+}
+
+// mulberry32: small, fast, deterministic PRNG
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function generateSyntheticGraph({
+  leftCount,
+  rightCount,
+  connectionCount,
+  groupCount = 6,
+  seed = 1,
+}: SyntheticGraphOptions): SyntheticGraph {
+  const random = createRandom(seed);
+  const pad = (n: number, total: number) => String(n).padStart(String(total).length, "0");
+
+  const leftItems = Array.from({ length: leftCount }, (_, i) => ({
+    id: `flow-${i}`,
+    label: `Flow ${pad(i, leftCount)}`,
+  }));
+  const rightItems = Array.from({ length: rightCount }, (_, i) => ({
+    id: `service-${i}`,
+    label: `Service ${pad(i, rightCount)}`,
+    group: `Category ${Math.floor(random() * groupCount) + 1}`,
+  }));
+
+  // Skew targets towards a neighbourhood of each source, like real data where
+  // related flows share services, with some long-range edges mixed in
+  const maxConnections = leftCount * rightCount;
+  const target = Math.min(connectionCount, maxConnections);
+  const seen = new Set<string>();
+  const connections: BipartiteConnection[] = [];
+  while (connections.length < target) {
+    const source = Math.floor(random() * leftCount);
+    const local = Math.round((source / Math.max(1, leftCount - 1)) * (rightCount - 1) + (random() - 0.5) * rightCount * 0.2);
+    const targetIndex = random() < 0.8
+      ? Math.min(rightCount - 1, Math.max(0, local))
+      : Math.floor(random() * rightCount);
+    const key = `${source}:${targetIndex}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    connections.push({
+      sourceId: leftItems[source].id,
+      targetId: rightItems[targetIndex].id,
+      weight: 1 + Math.floor(random() * 3) * 0.75,
+    });
+  }
+
+  return { leftItems, rightItems, connections };
+}
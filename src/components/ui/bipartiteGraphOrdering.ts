@@ -0,0 +1,117 @@
+import { ConnectionLookups } from "./bipartiteGraphUtils";
+
+/**
+ * Row ordering and search helpers for BipartiteGraph.
+ *
+ * Alphabetical order produces heavy edge crossings on large graphs; the degree,
+ * category and barycenter modes place connected rows closer together.
+ */
+
+export type OrderingMode = "input" | "alphabetical" | "degree" | "category" | "barycenter";
+
+export const ORDERING_LABELS: Record<OrderingMode, string> = {
+  input: "As given",
+  alphabetical: "Alphabetical",
+  degree: "By connections",
+  category: "By category",
+  barycenter: "Fewest crossings",
+};
+
+interface OrderableItem {
+  id: string;
+  label: string;
+  group?: string;
+}
+
+// Number of alternating left/right sweeps for the barycenter heuristic
+const BARYCENTER_SWEEPS = 4;
+
+const byLabel = (a: OrderableItem, b: OrderableItem) => a.label.localeCompare(b.label);
+
+/** Sort by a numeric key, keeping the current order for ties */
+function sortByKey<T>(items: T[], key: (item: T, index: number) => number): T[] {
+  return items
+    .map((item, index) => ({ item, index, key: key(item, index) }))
+    .sort((a, b) => a.key - b.key || a.index - b.index)
+    .map(({ item }) => item);
+}
+
+/** Mean row index of an item's neighbours in the other column; unconnected items stay put */
+function barycenter(
+  id: string,
+  index: number,
+  neighbours: Map<string, Set<string>>,
+  otherPositions: Map<string, number>
+): number {
+  const positions = [...(neighbours.get(id) ?? [])]
+    .map(n => otherPositions.get(n))
+    .filter((p): p is number => p !== undefined);
+  if (positions.length === 0) return index;
+  return positions.reduce((sum, p) => sum + p, 0) / positions.length;
+}
+
+const indexMap = (items: OrderableItem[]) => new Map(items.map((item, idx) => [item.id, idx]));
+
+/** Order both columns of a bipartite graph */
+export function orderBipartite<L extends OrderableItem, R extends OrderableItem>(
+  leftItems: L[],
+  rightItems: R[],
+  lookups: ConnectionLookups,
+  mode: OrderingMode
+): { leftItems: L[]; rightItems: R[] } {
+  switch (mode) {
+    case "input":
+      return { leftItems, rightItems };
+
+    case "alphabetical":
+      return { leftItems: [...leftItems].sort(byLabel), rightItems: [...rightItems].sort(byLabel) };
+
+    case "degree": {
+      const degree = (map: Map<string, Set<string>>, id: string) => map.get(id)?.size ?? 0;
+      return {
+        leftItems: sortByKey([...leftItems].sort(byLabel), item => -degree(lookups.bySource, item.id)),
+        rightItems: sortByKey([...rightItems].sort(byLabel), item => -degree(lookups.byTarget, item.id)),
+      };
+    }
+
+    case "category": {
+      // Group both columns (ungrouped items last), then line the other side up with the groups
+      const byGroup = (a: OrderableItem, b: OrderableItem) => {
+        if (a.group === b.group) return byLabel(a, b);
+        if (!a.group) return 1;
+        if (!b.group) return -1;
+        return a.group.localeCompare(b.group);
+      };
+      const right = [...rightItems].sort(byGroup);
+      const left = leftItems.some(item => item.group)
+        ? [...leftItems].sort(byGroup)
+        : sortByKey([...leftItems].sort(byLabel), (item, idx) =>
+            barycenter(item.id, idx, lookups.bySource, indexMap(right))
+          );
+      return { leftItems: left, rightItems: right };
+    }
+
+    case "barycenter": {
+      let left = [...leftItems].sort(byLabel);
+      let right = [...rightItems].sort(byLabel);
+      for (let sweep = 0; sweep < BARYCENTER_SWEEPS; sweep++) {
+        const leftPositions = indexMap(left);
+        right = sortByKey(right, (item, idx) => barycenter(item.id, idx, lookups.byTarget, leftPositions));
+        const rightPositions = indexMap(right);
+        left = sortByKey(left, (item, idx) => barycenter(item.id, idx, lookups.bySource, rightPositions));
+      }
+      return { leftItems: left, rightItems: right };
+    }
+  }
+}
+
+/** Case-insensitive substring match on the label */
+export function matchesSearch(item: OrderableItem, query: string): boolean {
+  const q = query.trim().toLowerCase();
+  return q.length > 0 && item.label.toLowerCase().includes(q);
+}
+
+/** Move matching items to the top, preserving order within each part */
+export function pinMatches<T extends OrderableItem>(items: T[], isMatch: (item: T) => boolean): T[] {
+  return [...items.filter(isMatch), ...items.filter(item => !isMatch(item))];
+}
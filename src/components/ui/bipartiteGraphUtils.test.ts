@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildConnectionLookups,
+  computeHighlight,
+  getHighlightState,
+  highlightStateOf,
+  isLeftItemHighlighted,
+  isRightItemHighlighted,
+  ActiveItems,
+} from "./bipartiteGraphUtils";
+
+// Timber → Carbon, Timber → Habitat, Rainwater → Water
+const connections = [
+  { sourceId: "Timber", targetId: "Carbon" },
+  { sourceId: "Timber", targetId: "Habitat" },
+  { sourceId: "Rainwater", targetId: "Water" },
+];
+const lookups = buildConnectionLookups(connections);
+const none: ActiveItems = { leftId: null, rightId: null };
+
+describe("getHighlightState", () => {
+  it("is normal when nothing is active", () => {
+    expect(getHighlightState("Timber", "Carbon", none, lookups)).toBe("normal");
+    expect(getHighlightState("Timber", "Carbon", { leftId: undefined, rightId: undefined }, lookups)).toBe("normal");
+  });
+
+  it("highlights a left item's connections and dims the rest", () => {
+    const active = { leftId: "Timber", rightId: null };
+    expect(getHighlightState("Timber", "Carbon", active, lookups)).toBe("highlighted");
+    expect(getHighlightState("Timber", "Habitat", active, lookups)).toBe("highlighted");
+    expect(getHighlightState("Rainwater", "Water", active, lookups)).toBe("dimmed");
+  });
+
+  it("highlights a right item's connections and dims the rest", () => {
+    const active = { leftId: null, rightId: "Water" };
+    expect(getHighlightState("Rainwater", "Water", active, lookups)).toBe("highlighted");
+    expect(getHighlightState("Timber", "Carbon", active, lookups)).toBe("dimmed");
+  });
+
+  it("gives the left side priority when both are active", () => {
+    const active = { leftId: "Rainwater", rightId: "Carbon" };
+    expect(getHighlightState("Rainwater", "Water", active, lookups)).toBe("highlighted");
+    expect(getHighlightState("Timber", "Carbon", active, lookups)).toBe("dimmed");
+  });
+
+  it("dims everything for an active item without connections", () => {
+    const active = { leftId: "Steel", rightId: null };
+    expect(getHighlightState("Timber", "Carbon", active, lookups)).toBe("dimmed");
+  });
+});
+
+describe("isLeftItemHighlighted", () => {
+  it("is false when nothing is active", () => {
+    expect(isLeftItemHighlighted("Timber", none, lookups)).toBe(false);
+  });
+
+  it("highlights the active left item only", () => {
+    const active = { leftId: "Timber", rightId: null };
+    expect(isLeftItemHighlighted("Timber", active, lookups)).toBe(true);
+    expect(isLeftItemHighlighted("Rainwater", active, lookups)).toBe(false);
+  });
+
+  it("highlights the sources of the active right item", () => {
+    const active = { leftId: null, rightId: "Carbon" };
+    expect(isLeftItemHighlighted("Timber", active, lookups)).toBe(true);
+    expect(isLeftItemHighlighted("Rainwater", active, lookups)).toBe(false);
+  });
+
+  it("handles an active right item without connections", () => {
+    expect(isLeftItemHighlighted("Timber", { leftId: null, rightId: "Pollination" }, lookups)).toBe(false);
+  });
+});
+
+describe("computeHighlight", () => {
+  it("matches the per-item helpers", () => {
+    const cases: ActiveItems[] = [
+      none,
+      { leftId: "Timber", rightId: null },
+      { leftId: null, rightId: "Water" },
+      { leftId: "Rainwater", rightId: "Carbon" },
+    ];
+    for (const active of cases) {
+      const index = computeHighlight(active, lookups);
+      for (const { sourceId, targetId } of connections) {
+        expect(highlightStateOf(sourceId, targetId, index)).toBe(getHighlightState(sourceId, targetId, active, lookups));
+        expect(index?.left.has(sourceId) ?? false).toBe(isLeftItemHighlighted(sourceId, active, lookups));
+        expect(index?.right.has(targetId) ?? false).toBe(isRightItemHighlighted(targetId, active, lookups));
+      }
+    }
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Pure layout and highlight helpers shared by BipartiteGraph and its SVG export.
+ */
+
+export interface ConnectionLike {
+  sourceId: string;
+  targetId: string;
+}
+
+export interface ConnectionLookups {
+  /** sourceId -> connected targetIds */
+  bySource: Map<string, Set<string>>;
+  /** targetId -> connected sourceIds */
+  byTarget: Map<string, Set<string>>;
+}
+
+export type HighlightState = "normal" | "highlighted" | "dimmed";
+
+/** The hovered or selected item on each side (hover takes priority) */
+export interface ActiveItems {
+  leftId: string | null | undefined;
+  rightId: string | null | undefined;
+}
+
+export function buildConnectionLookups(connections: ConnectionLike[]): ConnectionLookups {
+  const bySource = new Map<string, Set<string>>();
+  const byTarget = new Map<string, Set<string>>();
+  for (const conn of connections) {
+    if (!bySource.has(conn.sourceId)) {
+      bySource.set(conn.sourceId, new Set());
+    }
+    bySource.get(conn.sourceId)!.add(conn.targetId);
+    if (!byTarget.has(conn.targetId)) {
+      byTarget.set(conn.targetId, new Set());
+    }
+    byTarget.get(conn.targetId)!.add(conn.sourceId);
+  }
+  return { bySource, byTarget };
+}
+
+/** Map each item id to the vertical center of its row */
+export function rowPositions(items: { id: string }[], rowHeight: number): Map<string, number> {
+  const map = new Map<string, number>();
+  items.forEach((item, idx) => {
+    map.set(item.id, idx * rowHeight + rowHeight / 2);
+  });
+  return map;
+}
+
+export function isAnyActive({ leftId, rightId }: ActiveItems): boolean {
+  return (leftId ?? null) !== null || (rightId ?? null) !== null;
+}
+
+export function getHighlightState(
+  sourceId: string,
+  targetId: string,
+  active: ActiveItems,
+  lookups: ConnectionLookups
+): HighlightState {
+  if (!isAnyActive(active)) return "normal";
+
+  if (active.leftId) {
+    const targets = lookups.bySource.get(active.leftId);
+    if (sourceId === active.leftId && targets?.has(targetId)) {
+      return "highlighted";
+    }
+    return "dimmed";
+  }
+
+  if (active.rightId) {
+    const sources = lookups.byTarget.get(active.rightId);
+    if (targetId === active.rightId && sources?.has(sourceId)) {
+      return "highlighted";
+    }
+    return "dimmed";
+  }
+
+  return "normal";
+}
+
+export function isLeftItemHighlighted(itemId: string, active: ActiveItems, lookups: ConnectionLookups): boolean {
+  if (!active.leftId && !active.rightId) return false;
+  if (active.leftId === itemId) return true;
+  if (active.rightId) {
+    return lookups.byTarget.get(active.rightId)?.has(itemId) ?? false;
+  }
+  return false;
+}
+
+export function isRightItemHighlighted(itemId: string, active: ActiveItems, lookups: ConnectionLookups): boolean {
+  if (!active.leftId && !active.rightId) return false;
+  if (active.rightId === itemId) return true;
+  if (active.leftId) {
+    return lookups.bySource.get(active.leftId)?.has(itemId) ?? false;
+  }
+  return false;
+}
+
+/** Items and edges lit up by the active items, precomputed once per hover/selection change */
+export interface HighlightIndex {
+  left: Set<string>;
+  right: Set<string>;
+  /** Edge keys (see `connectionKey`) */
+  edges: Set<string>;
+}
+
+export const connectionKey = (sourceId: string, targetId: string) => `${sourceId}\u0000${targetId}`;
+
+/**
+ * Same result as calling `getHighlightState` / `is*ItemHighlighted` for every
+ * connection and row, but in O(degree) per change instead of O(edges) per render.
+ * Returns null when nothing is active.
+ */
+export function computeHighlight(active: ActiveItems, lookups: ConnectionLookups): HighlightIndex | null {
+  if (!isAnyActive(active)) return null;
+  const { leftId, rightId } = active;
+
+  const left = new Set<string>(leftId ? [leftId] : []);
+  const right = new Set<string>(rightId ? [rightId] : []);
+  if (rightId) lookups.byTarget.get(rightId)?.forEach(id => left.add(id));
+  if (leftId) lookups.bySource.get(leftId)?.forEach(id => right.add(id));
+
+  const edges = new Set<string>();
+  if (leftId) {
+    lookups.bySource.get(leftId)?.forEach(target => edges.add(connectionKey(leftId, target)));
+  } else if (rightId) {
+    lookups.byTarget.get(rightId)?.forEach(source => edges.add(connectionKey(source, rightId)));
+  }
+
+  return { left, right, edges };
+}
+
+/** Highlight state of a single connection from a precomputed index */
+export function highlightStateOf(sourceId: string, targetId: string, index: HighlightIndex | null): HighlightState {
+  if (!index) return "normal";
+  return index.edges.has(connectionKey(sourceId, targetId)) ? "highlighted" : "dimmed";
+}
+
+/** Stroke width for a connection; weights scale the 1px base, highlighting adds 1px */
+export function connectionStrokeWidth(weight: number | undefined, highlighted: boolean): number {
+  return (weight ?? 1) + (highlighted ? 1 : 0);
+}
+
+/** Horizontal offset of the bezier control points */
+function controlOffset(width: number): number {
+  // Control points at 40% and 60% for smooth horizontal entry/exit
+  return width * 0.4;
+}
+
+/** Cubic bezier from (0, y1) to (width, y2) that starts and ends horizontally */
+export function connectionPath(y1: number, y2: number, width: number): string {
+  const x1 = 0;
+  const x2 = width;
+  const cx = controlOffset(width);
+  return `M ${x1},${y1} C ${x1 + cx},${y1} ${x2 - cx},${y2} ${x2},${y2}`;
+}
+
+/** Same curve as `connectionPath`, appended to the current canvas path */
+export function traceConnection(ctx: CanvasRenderingContext2D, y1: number, y2: number, width: number): void {
+  const cx = controlOffset(width);
+  ctx.moveTo(0, y1);
+  ctx.bezierCurveTo(cx, y1, width - cx, y2, width, y2);
+}
@@ -0,0 +1,91 @@
+/**
+ * Pure helpers for MultipartiteGraph: adjacency between neighbouring columns and
+ * tracing the full path through the columns from a single item.
+ */
+
+export interface ColumnLink {
+  sourceId: string;
+  targetId: string;
+  /** Optional weight for line thickness */
+  weight?: number;
+  /** Stroke color when not highlighted */
+  color?: string;
+  /** SVG stroke-dasharray */
+  dashArray?: string;
+}
+
+/** Reference to an item in a given column */
+export interface ItemRef {
+  column: number;
+  id: string;
+}
+
+export interface TracedPath {
+  /** Item keys (see `itemKey`) on the traced path, including the origin */
+  items: Set<string>;
+  /** Edge keys (see `edgeKey`) on the traced path */
+  edges: Set<string>;
+}
+
+export const itemKey = (column: number, id: string) => `${column}:${id}`;
+export const edgeKey = (gap: number, sourceId: string, targetId: string) => `${gap}:${sourceId}->${targetId}`;
+
+interface GapAdjacency {
+  forward: Map<string, Set<string>>;
+  backward: Map<string, Set<string>>;
+}
+
+/** Build forward/backward adjacency for each gap between neighbouring columns */
+export function buildGapAdjacency(links: ColumnLink[][]): GapAdjacency[] {
+  return links.map(gapLinks => {
+    const forward = new Map<string, Set<string>>();
+    const backward = new Map<string, Set<string>>();
+    for (const { sourceId, targetId } of gapLinks) {
+      if (!forward.has(sourceId)) forward.set(sourceId, new Set());
+      forward.get(sourceId)!.add(targetId);
+      if (!backward.has(targetId)) backward.set(targetId, new Set());
+      backward.get(targetId)!.add(sourceId);
+    }
+    return { forward, backward };
+  });
+}
+
+/**
+ * Trace everything reachable from `origin`: rightwards through every following
+ * column, and leftwards through every preceding one. Hovering a material thus
+ * lights up its flows and every service those flows touch, and vice versa.
+ */
+export function tracePath(origin: ItemRef, adjacency: GapAdjacency[]): TracedPath {
+  const items = new Set<string>([itemKey(origin.column, origin.id)]);
+  const edges = new Set<string>();
+
+  // Rightwards: gap i connects column i to column i + 1
+  let frontier = new Set([origin.id]);
+  for (let gap = origin.column; gap < adjacency.length && frontier.size > 0; gap++) {
+    const next = new Set<string>();
+    for (const id of frontier) {
+      for (const target of adjacency[gap].forward.get(id) ?? []) {
+        next.add(target);
+        items.add(itemKey(gap + 1, target));
+        edges.add(edgeKey(gap, id, target));
+      }
+    }
+    frontier = next;
+  }
+
+  // Leftwards
+  frontier = new Set([origin.id]);
+  for (let gap = origin.column - 1; gap >= 0 && frontier.size > 0; gap--) {
+    const next = new Set<string>();
+    for (const id of frontier) {
+      for (const source of adjacency[gap].backward.get(id) ?? []) {
+        next.add(source);
+        items.add(itemKey(gap, source));
+        edges.add(edgeKey(gap, source, id));
+      }
+    }
+    frontier = next;
+  }
+
+  return { items, edges };
+}
@@ -0,0 +1,26 @@
+import Link from "next/link";
+import { AlertTriangle } from "lucide-react";
+import type { BudgetStatus } from "@/lib/usage/types";
+
+/**
+ * BudgetWarning - Amber banner shown above run controls once the user's soft
+ * monthly budget is used up. Runs are still allowed after a confirmation.
+ */
+export function BudgetWarning({ budget }: { budget: BudgetStatus | null }) {
+  if (!budget?.exceeded || budget.monthlyUsd === null) return null;
+
+  return (
+    <div className="p-4 mb-6 bg-amber-50 border border-amber-200 rounded-lg flex items-start gap-3">
+      <AlertTriangle size={18} className="text-amber-600 mt-0.5" />
+      <p className="font-mono text-sm text-amber-800">
+        You&apos;ve spent ${budget.spentUsd.toFixed(2)} of your ${budget.monthlyUsd.toFixed(2)} monthly budget.
+        New runs will ask for confirmation.{" "}
+        <Link href="/dashboard/usage" className="underline hover:text-amber-900">
+          View usage
+        </Link>
+      </p>
+    </div>
+  );
+}
+
+export default BudgetWarning;
@@ -0,0 +1,91 @@
+import type { DailyUsage } from "@/lib/usage/types";
+import { PIPELINE_STAGES, PipelineStage } from "@/lib/material-mapper/timeline";
+import { STAGE_LABELS } from "@/lib/material-mapper/types";
+
+/**
+ * Small SVG charts for the usage page: daily run counts, cumulative spend and
+ * average latency per pipeline stage. Plain markup, sized to their container.
+ */
+
+const CHART_HEIGHT = 120;
+
+const shortDate = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, { month: "short", day: "numeric", timeZone: "UTC" });
+
+function AxisLabels({ daily }: { daily: DailyUsage[] }) {
+  if (daily.length === 0) return null;
+  return (
+    <div className="mt-1 flex justify-between text-[10px] font-mono text-gray-400">
+      <span>{shortDate(daily[0].date)}</span>
+      <span>{shortDate(daily[daily.length - 1].date)}</span>
+    </div>
+  );
+}
+
+export function DailyRunsChart({ daily }: { daily: DailyUsage[] }) {
+  const max = Math.max(1, ...daily.map(d => d.runs));
+  const width = 100 / Math.max(1, daily.length);
+
+  return (
+    <div>
+      <svg viewBox={`0 0 100 ${CHART_HEIGHT}`} preserveAspectRatio="none" className="w-full" style={{ height: CHART_HEIGHT }}>
+        {daily.map((day, i) => {
+          const height = (day.runs / max) * (CHART_HEIGHT - 4);
+          return (
+            <rect
+              key={day.date}
+              x={i * width + width * 0.15}
+              y={CHART_HEIGHT - height}
+              width={width * 0.7}
+              height={height}
+              className="fill-gray-700"
+            >
+              <title>{`${shortDate(day.date)}: ${day.runs} ${day.runs === 1 ? "run" : "runs"}, $${day.costUsd.toFixed(4)}`}</title>
+            </rect>
+          );
+        })}
+        <line x1={0} x2={100} y1={CHART_HEIGHT} y2={CHART_HEIGHT} className="stroke-gray-200" vectorEffect="non-scaling-stroke" />
+      </svg>
+      <AxisLabels daily={daily} />
+    </div>
+  );
+}
+
+export function CumulativeSpendChart({ daily }: { daily: DailyUsage[] }) {
+  const max = Math.max(0.0001, ...daily.map(d => d.cumulativeUsd));
+  const step = 100 / Math.max(1, daily.length - 1);
+  const y = (usd: number) => CHART_HEIGHT - (usd / max) * (CHART_HEIGHT - 4);
+  const points = daily.map((day, i) => `${i * step},${y(day.cumulativeUsd)}`).join(" ");
+
+  return (
+    <div>
+      <svg viewBox={`0 0 100 ${CHART_HEIGHT}`} preserveAspectRatio="none" className="w-full" style={{ height: CHART_HEIGHT }}>
+        <polygon points={`0,${CHART_HEIGHT} ${points} 100,${CHART_HEIGHT}`} className="fill-gray-100" />
+        <polyline points={points} fill="none" className="stroke-gray-700" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+        <line x1={0} x2={100} y1={CHART_HEIGHT} y2={CHART_HEIGHT} className="stroke-gray-200" vectorEffect="non-scaling-stroke" />
+      </svg>
+      <AxisLabels daily={daily} />
+    </div>
+  );
+}
+
+export function StageLatencyBars({ stageAvgMs }: { stageAvgMs: Record<PipelineStage, number | null> }) {
+  const max = Math.max(1, ...PIPELINE_STAGES.map(s => stageAvgMs[s] ?? 0));
+
+  return (
+    <div className="space-y-2">
+      {PIPELINE_STAGES.map(stage => {
+        const ms = stageAvgMs[stage];
+        return (
+          <div key={stage} className="flex items-center gap-3 text-xs font-mono">
+            <span className="w-48 text-gray-500 truncate">{STAGE_LABELS[stage]}</span>
+            <div className="flex-1 h-2 bg-gray-100 rounded overflow-hidden">
+              <div className="h-full bg-gray-700" style={{ width: `${((ms ?? 0) / max) * 100}%` }} />
+            </div>
+            <span className="w-14 text-right text-gray-600">{ms === null ? "—" : `${(ms / 1000).toFixed(1)}s`}</span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
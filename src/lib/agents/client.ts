@@ -0,0 +1,207 @@
+import { readSSE, SSEMessage } from "./sse";
+
+/**
+ * Client for the agent invoke/stream protocol shared by all EcoEvo Studio tools:
+ *
+ *   POST {NEXT_PUBLIC_API_URL}/v1/agents/{agentId}/invoke/stream
+ *   body: { inputs: {...} }
+ *
+ * The response is an SSE stream whose `data:` fields are JSON-encoded events.
+ * Dropped connections are retried with exponential backoff. If the server sent
+ * event ids, the reconnect carries a `Last-Event-ID` header so it can resume;
+ * otherwise the caller may supply inputs that continue the run from a later
+ * stage. A run that cannot be continued either way fails with
+ * `StreamRestartRequiredError` instead of silently starting over.
+ */
+
+/** The server rejected the request (non-2xx response) */
+export class AgentRequestError extends Error {
+  constructor(public readonly status: number) {
+    super(`Request failed: ${status}`);
+    this.name = "AgentRequestError";
+  }
+}
+
+/** The stream dropped and could not be re-established */
+export class StreamInterruptedError extends Error {
+  constructor(
+    public readonly attempts: number,
+    public readonly lastEventId: string | undefined,
+    public readonly lastError: unknown
+  ) {
+    super("Stream interrupted");
+    this.name = "StreamInterruptedError";
+  }
+}
+
+/**
+ * The stream dropped after data had arrived, and the server can neither resume
+ * it by event id nor continue it from a later stage. Reconnecting would run the
+ * agent again from the beginning, so that is left for the user to decide.
+ */
+export class StreamRestartRequiredError extends Error {
+  constructor(public readonly lastError: unknown) {
+    super("Stream interrupted and cannot be resumed");
+    this.name = "StreamRestartRequiredError";
+  }
+}
+
+export interface RetryInfo {
+  /** 1-based reconnection attempt */
+  attempt: number;
+  /** Maximum number of reconnection attempts */
+  maxAttempts: number;
+  /** Delay before this attempt */
+  delayMs: number;
+  /** Last event id received, if the server sends ids */
+  lastEventId?: string;
+  error: unknown;
+}
+
+export interface AgentStreamOptions {
+  /** Returns a Clerk session token, sent as a Bearer token for cross-origin requests */
+  getToken?: () => Promise<string | null | undefined>;
+  /** Abort the request and stop reading the stream */
+  signal?: AbortSignal;
+  /** Number of reconnection attempts after a dropped stream (default 3) */
+  retries?: number;
+  /** Cap on reconnections over the whole run, however much data arrives in between (default 10) */
+  maxReconnects?: number;
+  /** Initial backoff delay, doubled on every attempt (default 1000ms) */
+  retryDelayMs?: number;
+  /** Called before each reconnection attempt */
+  onRetry?: (info: RetryInfo) => void;
+  /**
+   * Whether a message ends the run. A stream that closes before a terminal
+   * message is treated as dropped. Without this, any clean close is final.
+   */
+  isTerminal?: (message: SSEMessage) => boolean;
+  /**
+   * Inputs that continue the run from the furthest point reached, used to
+   * reconnect when the server sends no event ids. Return undefined while there
+   * is nothing to resume from.
+   */
+  resumeInputs?: () => Record<string, unknown> | undefined;
+}
+
+const MAX_RETRY_DELAY_MS = 15000;
+
+export function getApiUrl(): string {
+  // The local mock backend replays recorded runs (see ./mock.ts)
+  if (process.env.NEXT_PUBLIC_MOCK_AGENTS === "true") return "/api/mock";
+  return process.env.NEXT_PUBLIC_API_URL || "http://localhost:8001";
+}
+
+/** Client errors will fail the same way again; everything else is worth a retry */
+function isRetryable(error: unknown): boolean {
+  if (error instanceof AgentRequestError) {
+    return error.status >= 500 || error.status === 408 || error.status === 429;
+  }
+  return true;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/** Invoke an agent and yield the raw SSE messages of its response stream */
+export async function* streamAgent(
+  agentId: string,
+  inputs: Record<string, unknown>,
+  {
+    getToken,
+    signal,
+    retries = 3,
+    maxReconnects = 10,
+    retryDelayMs = 1000,
+    onRetry,
+    isTerminal,
+    resumeInputs,
+  }: AgentStreamOptions = {}
+): AsyncGenerator<SSEMessage> {
+  let requestInputs = inputs;
+  let lastEventId: string | undefined;
+  let serverRetryMs: number | undefined;
+  let attempt = 0;
+  let reconnects = 0;
+  let received = false;
+
+  while (true) {
+    try {
+      const headers: Record<string, string> = {
+        "Content-Type": "application/json",
+        Accept: "text/event-stream",
+      };
+      // Fetch a fresh token per connection; session tokens are short-lived
+      const token = await getToken?.();
+      if (token) {
+        headers["Authorization"] = `Bearer ${token}`;
+      }
+      if (lastEventId) {
+        headers["Last-Event-ID"] = lastEventId;
+      }
+
+      const response = await fetch(`${getApiUrl()}/v1/agents/${agentId}/invoke/stream`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({ inputs: requestInputs }),
+        signal,
+      });
+
+      if (!response.ok) {
+        throw new AgentRequestError(response.status);
+      }
+      if (!response.body) {
+        throw new Error("No response body");
+      }
+
+      for await (const message of readSSE(response.body)) {
+        lastEventId = message.id ?? lastEventId;
+        serverRetryMs = message.retry ?? serverRetryMs;
+        // Data is flowing again, so later drops get a fresh retry budget
+        attempt = 0;
+        received = true;
+        yield message;
+        if (isTerminal?.(message)) return;
+      }
+
+      if (!isTerminal) return;
+      throw new Error("Stream closed before the run completed");
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      if (!isRetryable(error)) throw error;
+      if (attempt >= retries || reconnects >= maxReconnects) {
+        // Never connected at all: report the underlying error instead
+        if (!received) throw error;
+        throw new StreamInterruptedError(reconnects, lastEventId, error);
+      }
+
+      // Without an event id, re-posting the same inputs would replay the run
+      if (received && !lastEventId) {
+        const resumed = resumeInputs?.();
+        if (!resumed) throw new StreamRestartRequiredError(error);
+        requestInputs = resumed;
+      }
+
+      attempt++;
+      reconnects++;
+      const delayMs = Math.min(
+        (serverRetryMs ?? retryDelayMs) * 2 ** (attempt - 1),
+        MAX_RETRY_DELAY_MS
+      );
+      onRetry?.({ attempt, maxAttempts: retries, delayMs, lastEventId, error });
+      await sleep(delayMs, signal);
+    }
+  }
+}
@@ -0,0 +1,159 @@
+/**
+ * Mock agent backend for local development and tests. With
+ * `NEXT_PUBLIC_MOCK_AGENTS=true` the agent client talks to the local
+ * `/api/mock` route instead of `NEXT_PUBLIC_API_URL`, which replays recorded
+ * fixtures over the same invoke/stream protocol.
+ *
+ * Behaviour is configured with `MOCK_AGENT_*` env vars, overridable per browser
+ * with a `mock_agent` cookie in query string form, e.g.
+ * `mock_agent=delayMs=50&chunks=8&failAt=stage3_start&malformed=2`.
+ */
+
+export interface MockAgentConfig {
+  /** Pause before each event */
+  delayMs: number;
+  /** Number of parallel stage 2 chunks to report */
+  chunks: number;
+  /** Send an error event in place of the first event of this type */
+  failAt: string | null;
+  errorMessage: string;
+  /** Number of malformed lines mixed into the stream */
+  malformed: number;
+  /** Close the connection after this many events (first connection only), to exercise reconnects */
+  dropAfter: number | null;
+  /** Reject the request with this HTTP status instead of streaming */
+  status: number | null;
+}
+
+/** A fixture's events, in order; each is sent as the JSON `data:` of one message */
+export type MockEvent = { event_type: string } & Record<string, unknown>;
+
+export const MOCK_CONFIG_COOKIE = "mock_agent";
+
+const DEFAULT_CONFIG: MockAgentConfig = {
+  delayMs: 400,
+  chunks: 4,
+  failAt: null,
+  errorMessage: "Injected failure from the mock agent backend",
+  malformed: 0,
+  dropAfter: null,
+  status: null,
+};
+
+export function mockAgentsEnabled(): boolean {
+  return process.env.NEXT_PUBLIC_MOCK_AGENTS === "true";
+}
+
+const ENV_KEYS: Record<keyof MockAgentConfig, string> = {
+  delayMs: "MOCK_AGENT_DELAY_MS",
+  chunks: "MOCK_AGENT_CHUNKS",
+  failAt: "MOCK_AGENT_FAIL_AT",
+  errorMessage: "MOCK_AGENT_ERROR_MESSAGE",
+  malformed: "MOCK_AGENT_MALFORMED",
+  dropAfter: "MOCK_AGENT_DROP_AFTER",
+  status: "MOCK_AGENT_STATUS",
+};
+
+// Non-negative integer, or undefined to keep the previous value
+function count(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+  const n = Number(value);
+  return Number.isInteger(n) && n >= 0 ? n : undefined;
+}
+
+/** Apply string settings (from env or a cookie) over a config; invalid values are ignored */
+export function parseMockConfig(
+  get: (key: keyof MockAgentConfig) => string | null | undefined,
+  base: MockAgentConfig = DEFAULT_CONFIG
+): MockAgentConfig {
+  return {
+    delayMs: count(get("delayMs")) ?? base.delayMs,
+    chunks: Math.max(1, count(get("chunks")) ?? base.chunks),
+    failAt: get("failAt") || base.failAt,
+    errorMessage: get("errorMessage") || base.errorMessage,
+    malformed: count(get("malformed")) ?? base.malformed,
+    dropAfter: count(get("dropAfter")) ?? base.dropAfter,
+    status: count(get("status")) ?? base.status,
+  };
+}
+
+/** Config for a request: env defaults, then the `mock_agent` cookie */
+export function mockConfigFromRequest(request: Request): MockAgentConfig {
+  const fromEnv = parseMockConfig(key => process.env[ENV_KEYS[key]]);
+
+  const cookie = (request.headers.get("cookie") ?? "")
+    .split(";")
+    .map(c => c.trim())
+    .find(c => c.startsWith(`${MOCK_CONFIG_COOKIE}=`));
+  if (!cookie) return fromEnv;
+
+  const params = new URLSearchParams(decodeURIComponent(cookie.slice(MOCK_CONFIG_COOKIE.length + 1)));
+  return parseMockConfig(key => params.get(key), fromEnv);
+}
+
+// Lines the client must skip without ending the run
+const MALFORMED_LINES = [
+  "data: {\"event_type\": \"stage2_chunk_complete\", \"matched_bmfs\": [",
+  "data: {\"event_type\": \"stage9_unknown\"}",
+  "data: {\"event_type\": \"stage1_complete\", \"extracted_materials\": \"not a list\"}",
+];
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const done = () => {
+      clearTimeout(timer);
+      signal.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal.addEventListener("abort", done, { once: true });
+  });
+}
+
+/**
+ * Encode fixture events as an SSE stream, applying the configured delays and
+ * faults. Events carry 1-based ids, so a reconnect with `Last-Event-ID`
+ * resumes after the last event the client received.
+ */
+export function mockEventStream(
+  events: MockEvent[],
+  config: MockAgentConfig,
+  { lastEventId, signal }: { lastEventId: string | null; signal: AbortSignal }
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const resumeAfter = count(lastEventId) ?? 0;
+
+  // Spread malformed lines evenly between the real events
+  const malformedAt = new Map<number, string>();
+  for (let i = 0; i < config.malformed; i++) {
+    const position = Math.floor(((i + 1) * events.length) / (config.malformed + 1));
+    malformedAt.set(position, MALFORMED_LINES[i % MALFORMED_LINES.length]);
+  }
+
+  return new ReadableStream({
+    async start(controller) {
+      const send = (text: string) => controller.enqueue(encoder.encode(text));
+      let sent = 0;
+
+      for (let i = resumeAfter; i < events.length && !signal.aborted; i++) {
+        await sleep(config.delayMs, signal);
+        if (signal.aborted) break;
+
+        const malformed = malformedAt.get(i);
+        if (malformed) send(`${malformed}\n\n`);
+
+        if (events[i].event_type === config.failAt) {
+          send(`data: ${JSON.stringify({ event_type: "error", error: config.errorMessage })}\n\n`);
+          break;
+        }
+
+        send(`id: ${i + 1}\ndata: ${JSON.stringify(events[i])}\n\n`);
+        sent++;
+
+        // Simulate a dropped connection; the resumed stream runs to the end
+        if (resumeAfter === 0 && config.dropAfter !== null && sent >= config.dropAfter) break;
+      }
+      controller.close();
+    },
+  });
+}
@@ -0,0 +1,125 @@
+/**
+ * Server-Sent Events parser following the WHATWG event stream format.
+ *
+ * Handles `data:` fields spanning multiple lines, `event:`, `id:` and `retry:`
+ * fields, comment lines (starting with `:`), and CRLF / LF / CR line endings.
+ *
+ * @see https://html.spec.whatwg.org/multipage/server-sent-events.html#event-stream-interpretation
+ */
+
+export interface SSEMessage {
+  /** Event type, "message" unless an `event:` field was given */
+  event: string;
+  /** Data lines joined with "\n" */
+  data: string;
+  /** Last event id seen on the stream (persists across messages, per spec) */
+  id?: string;
+  /** Reconnection time in milliseconds, if the server sent one */
+  retry?: number;
+}
+
+/**
+ * Incremental line-based parser. Feed it decoded text chunks as they arrive;
+ * it returns the messages completed by each chunk.
+ */
+export function createSSEParser() {
+  let buffer = "";
+  let data: string[] = [];
+  let eventType = "";
+  let lastEventId: string | undefined;
+  let retry: number | undefined;
+  // A chunk may end between "\r" and "\n" of a CRLF pair
+  let skipLeadingLF = false;
+
+  function processLine(line: string): SSEMessage | null {
+    // Blank line: dispatch the event
+    if (line === "") {
+      if (data.length === 0) {
+        eventType = "";
+        return null;
+      }
+      const message: SSEMessage = {
+        event: eventType || "message",
+        data: data.join("\n"),
+        id: lastEventId,
+        retry,
+      };
+      data = [];
+      eventType = "";
+      return message;
+    }
+
+    // Comment
+    if (line.startsWith(":")) return null;
+
+    const colon = line.indexOf(":");
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? "" : line.slice(colon + 1);
+    if (value.startsWith(" ")) value = value.slice(1);
+
+    switch (field) {
+      case "data":
+        data.push(value);
+        break;
+      case "event":
+        eventType = value;
+        break;
+      case "id":
+        if (!value.includes("\0")) lastEventId = value;
+        break;
+      case "retry":
+        if (/^\d+$/.test(value)) retry = parseInt(value, 10);
+        break;
+      // Unknown fields are ignored
+    }
+    return null;
+  }
+
+  return {
+    push(chunk: string): SSEMessage[] {
+      if (skipLeadingLF && chunk.startsWith("\n")) chunk = chunk.slice(1);
+      skipLeadingLF = false;
+      buffer += chunk;
+
+      const messages: SSEMessage[] = [];
+      const lineBreak = /\r\n|\r|\n/g;
+      let start = 0;
+      let match: RegExpExecArray | null;
+
+      while ((match = lineBreak.exec(buffer)) !== null) {
+        // A trailing "\r" might be the first half of a CRLF split across chunks
+        if (match[0] === "\r" && match.index === buffer.length - 1) {
+          skipLeadingLF = true;
+        }
+        const message = processLine(buffer.slice(start, match.index));
+        if (message) messages.push(message);
+        start = match.index + match[0].length;
+      }
+
+      // Keep the incomplete line in the buffer
+      buffer = buffer.slice(start);
+      return messages;
+    },
+  };
+}
+
+/**
+ * Read a byte stream and yield SSE messages as they complete.
+ * An unterminated event at the end of the stream is discarded, per spec.
+ */
+export async function* readSSE(stream: ReadableStream<Uint8Array>): AsyncGenerator<SSEMessage> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  const parser = createSSEParser();
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      yield* parser.push(decoder.decode(value, { stream: true }));
+    }
+    yield* parser.push(decoder.decode());
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Workspace roles and what each may do. A workspace is either a Clerk
+ * organization (a studio) or, without an active organization, the user's own
+ * personal workspace, where they are always the admin.
+ *
+ * Pure so it can run in middleware, route handlers and the browser alike.
+ */
+
+export type WorkspaceRole = "admin" | "editor" | "viewer";
+
+export type WorkspaceAction =
+  | "runAnalyses"
+  | "editProjects"
+  | "deleteProjects"
+  | "shareProjects"
+  | "manageBudgets";
+
+/** Lowest role allowed to perform each action */
+const MINIMUM_ROLE: Record<WorkspaceAction, WorkspaceRole> = {
+  runAnalyses: "editor",
+  editProjects: "editor",
+  deleteProjects: "editor",
+  shareProjects: "editor",
+  manageBudgets: "admin",
+};
+
+const RANK: Record<WorkspaceRole, number> = { viewer: 0, editor: 1, admin: 2 };
+
+export const ROLE_LABELS: Record<WorkspaceRole, string> = {
+  admin: "Admin",
+  editor: "Editor",
+  viewer: "Viewer",
+};
+
+/**
+ * Map a Clerk organization role key to a workspace role. Clerk's built-in
+ * "org:member" counts as an editor; unknown custom roles get the least access.
+ */
+export function workspaceRole(orgId: string | null | undefined, orgRole: string | null | undefined): WorkspaceRole {
+  if (!orgId) return "admin";
+  switch (orgRole) {
+    case "org:admin":
+      return "admin";
+    case "org:editor":
+    case "org:member":
+      return "editor";
+    default:
+      return "viewer";
+  }
+}
+
+export function can(role: WorkspaceRole, action: WorkspaceAction): boolean {
+  return RANK[role] >= RANK[MINIMUM_ROLE[action]];
+}
+
+const ACTION_LABELS: Record<WorkspaceAction, string> = {
+  runAnalyses: "run analyses",
+  editProjects: "edit projects",
+  deleteProjects: "delete projects",
+  shareProjects: "create share links",
+  manageBudgets: "set usage budgets",
+};
+
+/** Thrown by the server stores when the workspace role does not allow an action */
+export class ForbiddenError extends Error {
+  constructor(public readonly action: WorkspaceAction) {
+    super(`Your workspace role does not allow you to ${ACTION_LABELS[action]}`);
+    this.name = "ForbiddenError";
+  }
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { NextRequest } from "next/server";
+import { isAnalysisRoute, isProjectApiRoute, isPublicRoute } from "./routes";
+
+const request = (path: string) => new NextRequest(new URL(path, "http://localhost:3000"));
+
+describe("isPublicRoute", () => {
+  it.each([
+    "/",
+    "/sign-in",
+    "/sign-in/factor-one",
+    "/sign-up",
+    "/sign-up/verify-email-address",
+    "/share/abc123",
+    "/api/mock/v1/agents/agents.ecoservices.material_mapper/invoke/stream",
+  ])("allows %s", path => {
+    expect(isPublicRoute(request(path))).toBe(true);
+  });
+
+  it.each([
+    "/dashboard",
+    "/dashboard/projects",
+    "/dashboard/tools/material-mapper",
+    "/api/projects",
+    "/api/projects/abc/shares",
+    "/api/usage",
+    "/share",
+    "/shared/abc",
+  ])("protects %s", path => {
+    expect(isPublicRoute(request(path))).toBe(false);
+  });
+
+  it("ignores the query string", () => {
+    expect(isPublicRoute(request("/share/abc?utm_source=email"))).toBe(true);
+    expect(isPublicRoute(request("/dashboard?next=/share/abc"))).toBe(false);
+  });
+});
+
+describe("role-gated routes", () => {
+  it("matches the analysis pages", () => {
+    expect(isAnalysisRoute(request("/dashboard/tools/material-mapper"))).toBe(true);
+    expect(isAnalysisRoute(request("/dashboard/tools/material-mapper/batch"))).toBe(true);
+    expect(isAnalysisRoute(request("/dashboard/tools"))).toBe(false);
+  });
+
+  it("matches the project API", () => {
+    expect(isProjectApiRoute(request("/api/projects"))).toBe(true);
+    expect(isProjectApiRoute(request("/api/projects/abc/duplicate"))).toBe(true);
+    expect(isProjectApiRoute(request("/api/usage"))).toBe(false);
+  });
+});
@@ -0,0 +1,23 @@
+import { createRouteMatcher } from "@clerk/nextjs/server";
+
+/**
+ * Route groups the middleware treats differently. Kept apart from
+ * `middleware.ts` so the matching can be tested without Clerk.
+ */
+
+export const PUBLIC_ROUTES = [
+  "/",
+  "/sign-in(.*)",
+  "/sign-up(.*)",
+  // Read-only share links; the token itself grants access
+  "/share/(.*)",
+  // Mock agent backend; only answers when NEXT_PUBLIC_MOCK_AGENTS is set
+  "/api/mock/(.*)",
+];
+
+export const isPublicRoute = createRouteMatcher(PUBLIC_ROUTES);
+
+// Pages that start analysis runs
+export const isAnalysisRoute = createRouteMatcher(["/dashboard/tools/material-mapper(.*)"]);
+
+export const isProjectApiRoute = createRouteMatcher(["/api/projects(.*)"]);
@@ -0,0 +1,16 @@
+import { useAuth } from "@clerk/nextjs";
+import { WorkspaceAction, can, workspaceRole } from "./roles";
+
+/**
+ * The active workspace and role in the browser, for hiding controls the role
+ * cannot use. The server enforces the same rules regardless.
+ */
+export function useWorkspace() {
+  const { orgId, orgRole } = useAuth();
+  const role = workspaceRole(orgId, orgRole);
+  return {
+    orgId: orgId ?? null,
+    role,
+    can: (action: WorkspaceAction) => can(role, action),
+  };
+}
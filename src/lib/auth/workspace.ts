@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { ForbiddenError, WorkspaceAction, WorkspaceRole, can, workspaceRole } from "./roles";
+
+/**
+ * The signed-in user's active workspace, as seen by route handlers. Server
+ * stores take a `Workspace` instead of a bare user id so every read is scoped
+ * to the active organization and every write is checked against the role.
+ */
+
+export interface Workspace {
+  userId: string;
+  /** Active Clerk organization, or null for the personal workspace */
+  orgId: string | null;
+  role: WorkspaceRole;
+}
+
+/** Resolve the active workspace, or null when signed out */
+export async function currentWorkspace(): Promise<Workspace | null> {
+  const { userId, orgId, orgRole } = await auth();
+  if (!userId) return null;
+  return { userId, orgId: orgId ?? null, role: workspaceRole(orgId, orgRole) };
+}
+
+export function assertCan(workspace: Workspace, action: WorkspaceAction): void {
+  if (!can(workspace.role, action)) throw new ForbiddenError(action);
+}
+
+/** JSON 403 for a `ForbiddenError` thrown by a store; anything else is rethrown */
+export function forbiddenResponse(err: unknown): NextResponse {
+  if (err instanceof ForbiddenError) {
+    return NextResponse.json({ error: err.message }, { status: 403 });
+  }
+  throw err;
+}
@@ -0,0 +1,24 @@
+import { requestJson as request } from "@/lib/http";
+import type { RecordRunInput, RunHistoryEntry, RunHistorySummary } from "./types";
+
+/**
+ * Browser client for the `/api/history` routes.
+ */
+
+export async function fetchRunHistory(): Promise<RunHistorySummary[]> {
+  const { runs } = await request<{ runs: RunHistorySummary[] }>("/api/history");
+  return runs;
+}
+
+export async function fetchRun(id: string): Promise<RunHistoryEntry> {
+  const { run } = await request<{ run: RunHistoryEntry }>(`/api/history/${id}`);
+  return run;
+}
+
+export async function recordRun(input: RecordRunInput): Promise<RunHistoryEntry> {
+  const { run } = await request<{ run: RunHistoryEntry }>("/api/history", {
+    method: "POST",
+    body: JSON.stringify(input),
+  });
+  return run;
+}
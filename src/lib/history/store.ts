@@ -0,0 +1,56 @@
+import { getCollection, newId } from "@/lib/server/storage";
+import { Workspace, assertCan } from "@/lib/auth/workspace";
+import type { RecordRunInput, RunHistoryEntry, RunHistorySummary } from "./types";
+
+/**
+ * Server-side run history. Every Material Mapper run is recorded for the user
+ * who started it, within the active workspace; unlike projects, history is
+ * never shared with the rest of an organization.
+ */
+
+const runs = () => getCollection<RunHistoryEntry>("runs");
+
+function isOwn(run: RunHistoryEntry, workspace: Workspace): boolean {
+  return run.userId === workspace.userId && run.orgId === workspace.orgId;
+}
+
+export function summarizeRun({ result, ...rest }: RunHistoryEntry): RunHistorySummary {
+  return { ...rest, hasResult: result !== null };
+}
+
+export async function listRuns(workspace: Workspace): Promise<RunHistorySummary[]> {
+  const all = await runs().list();
+  return all
+    .filter(r => isOwn(r, workspace))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .map(summarizeRun);
+}
+
+export async function getRun(workspace: Workspace, id: string): Promise<RunHistoryEntry | null> {
+  const run = await runs().get(id);
+  if (!run || !isOwn(run, workspace)) return null;
+  return run;
+}
+
+export async function recordRun(workspace: Workspace, input: RecordRunInput): Promise<RunHistoryEntry> {
+  assertCan(workspace, "runAnalyses");
+
+  // A parent from another user or workspace would leak into this chain
+  const parent = input.parentId ? await getRun(workspace, input.parentId) : null;
+  const run: RunHistoryEntry = {
+    id: newId(),
+    userId: workspace.userId,
+    orgId: workspace.orgId,
+    strategy: input.inputs.strategy_description,
+    inputs: input.inputs,
+    status: input.status,
+    counts: input.counts,
+    costUsd: input.result?.cost_usd ?? null,
+    error: input.error,
+    result: input.status === "complete" ? input.result : null,
+    parentId: parent?.id ?? null,
+    createdAt: new Date().toISOString(),
+  };
+  await runs().put(run.id, run);
+  return run;
+}
@@ -0,0 +1,51 @@
+import type { MapperInputs } from "@/lib/material-mapper/client";
+import type { MapperResult } from "@/lib/material-mapper/types";
+
+/** How a run ended */
+export type RunStatus = "complete" | "error" | "cancelled" | "interrupted";
+
+export interface RunCounts {
+  materials: number;
+  flows: number;
+  services: number;
+  roles: number;
+}
+
+/** One strategy submitted to the Material Mapper, recorded automatically */
+export interface RunHistoryEntry {
+  id: string;
+  /** User who started the run */
+  userId: string;
+  /** Clerk organization the run was made in, or null for the personal workspace */
+  orgId: string | null;
+  strategy: string;
+  /** Everything the run was started with, so it can be repeated exactly */
+  inputs: MapperInputs;
+  status: RunStatus;
+  /** Of the final result, or of the partial results when the run did not complete */
+  counts: RunCounts;
+  /** Billed cost; only known for completed runs */
+  costUsd: number | null;
+  /** Why the run failed */
+  error: string | null;
+  /** Final result of a completed run */
+  result: MapperResult | null;
+  /** Run whose strategy this one was edited from, forming a version chain */
+  parentId: string | null;
+  /** ISO timestamp */
+  createdAt: string;
+}
+
+/** History entry without its (potentially large) result, used for listings */
+export interface RunHistorySummary extends Omit<RunHistoryEntry, "result"> {
+  hasResult: boolean;
+}
+
+export interface RecordRunInput {
+  inputs: MapperInputs;
+  status: RunStatus;
+  counts: RunCounts;
+  error: string | null;
+  result: MapperResult | null;
+  parentId: string | null;
+}
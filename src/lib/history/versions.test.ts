@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import { runCounts, runStatus, sameInputs, versionChain } from "./versions";
+import type { RunHistorySummary } from "./types";
+
+const run = (id: string, parentId: string | null, createdAt: string): RunHistorySummary => ({
+  id,
+  userId: "user_1",
+  orgId: null,
+  strategy: `Strategy ${id}`,
+  inputs: { strategy_description: `Strategy ${id}` },
+  status: "complete",
+  counts: { materials: 0, flows: 0, services: 0, roles: 0 },
+  costUsd: null,
+  error: null,
+  parentId,
+  createdAt,
+  hasResult: false,
+});
+
+const ids = (runs: RunHistorySummary[]) => runs.map(r => r.id);
+
+describe("versionChain", () => {
+  const runs = [
+    run("a", null, "2026-01-01T00:00:00Z"),
+    run("b", "a", "2026-01-02T00:00:00Z"),
+    run("c", "b", "2026-01-03T00:00:00Z"),
+    run("other", null, "2026-01-02T12:00:00Z"),
+  ];
+
+  it("walks from the first version to the latest", () => {
+    expect(ids(versionChain(runs, "b").versions)).toEqual(["a", "b", "c"]);
+    expect(versionChain(runs, "b").index).toBe(1);
+    expect(versionChain(runs, "c").index).toBe(2);
+  });
+
+  it("is a single version for a run that was never edited", () => {
+    expect(versionChain(runs, "other")).toEqual({ versions: [runs[3]], index: 0 });
+  });
+
+  it("follows the latest edit when a version was edited more than once", () => {
+    const branched = [...runs, run("b2", "a", "2026-01-04T00:00:00Z")];
+    expect(ids(versionChain(branched, "a").versions)).toEqual(["a", "b2"]);
+    expect(ids(versionChain(branched, "c").versions)).toEqual(["a", "b", "c"]);
+  });
+
+  it("stops at parents that are no longer listed", () => {
+    const orphan = [run("d", "missing", "2026-01-05T00:00:00Z")];
+    expect(versionChain(orphan, "d")).toEqual({ versions: orphan, index: 0 });
+  });
+
+  it("survives cycles", () => {
+    const cyclic = [run("x", "y", "2026-01-01T00:00:00Z"), run("y", "x", "2026-01-02T00:00:00Z")];
+    expect(ids(versionChain(cyclic, "x").versions)).toEqual(["y", "x"]);
+  });
+
+  it("is empty for an unknown run", () => {
+    expect(versionChain(runs, "nope")).toEqual({ versions: [], index: -1 });
+  });
+});
+
+describe("runStatus", () => {
+  it("maps how the stream ended", () => {
+    expect(runStatus("complete")).toBe("complete");
+    expect(runStatus("error")).toBe("error");
+    expect(runStatus("cancelled")).toBe("cancelled");
+    expect(runStatus("interrupted")).toBe("interrupted");
+    expect(runStatus("stage3")).toBe("interrupted");
+  });
+});
+
+describe("runCounts", () => {
+  it("counts each section", () => {
+    expect(
+      runCounts({
+        extracted_materials: ["timber", "glass"],
+        matched_bmfs: [],
+        ecosystem_connections: [],
+        ecosystem_services: ["Pollination"],
+        ecosystem_service_details: {},
+        role_analyses: [],
+      })
+    ).toEqual({ materials: 2, flows: 0, services: 1, roles: 0 });
+  });
+});
+
+describe("sameInputs", () => {
+  it("ignores key order and surrounding whitespace", () => {
+    expect(sameInputs(
+      { strategy_description: "Timber frame\n", site_context: { climate_zone: "Cfb", building_type: "office" } },
+      { site_context: { building_type: "office", climate_zone: "Cfb" }, strategy_description: "Timber frame" }
+    )).toBe(true);
+  });
+
+  it("tells apart edited text and structured inputs", () => {
+    const inputs = { strategy_description: "Timber frame", site_context: { climate_zone: "Cfb" } };
+    expect(sameInputs(inputs, { ...inputs, strategy_description: "Steel frame" })).toBe(false);
+    expect(sameInputs(inputs, { ...inputs, site_context: { climate_zone: "Dfb" } })).toBe(false);
+    expect(sameInputs(inputs, { ...inputs, extracted_materials: ["timber"], start_from_stage: 2 })).toBe(false);
+  });
+});
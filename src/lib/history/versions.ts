@@ -0,0 +1,79 @@
+import { isPlainObject } from "@/lib/validation";
+import type { MapperInputs } from "@/lib/material-mapper/client";
+import type { ProgressState, MapperSnapshot } from "@/lib/material-mapper/types";
+import type { RunCounts, RunHistorySummary, RunStatus } from "./types";
+
+/**
+ * Run history helpers shared by the browser and the server: summary counts,
+ * how a run ended, and the version chains formed by editing a strategy.
+ */
+
+export function runCounts(snapshot: MapperSnapshot): RunCounts {
+  return {
+    materials: snapshot.extracted_materials.length,
+    flows: snapshot.matched_bmfs.length,
+    services: snapshot.ecosystem_services.length,
+    roles: snapshot.role_analyses.length,
+  };
+}
+
+/** Status of a run that has stopped streaming; a stream that just ended early counts as interrupted */
+export function runStatus(stage: ProgressState["stage"]): RunStatus {
+  switch (stage) {
+    case "complete":
+    case "error":
+    case "cancelled":
+      return stage;
+    default:
+      return "interrupted";
+  }
+}
+
+// Inputs read back from the history list their keys in the validator's order
+const canonical = (value: unknown): unknown =>
+  Array.isArray(value)
+    ? value.map(canonical)
+    : isPlainObject(value)
+      ? Object.keys(value).sort().filter(k => value[k] !== undefined).map(k => [k, canonical(value[k])])
+      : value;
+
+/** Whether two runs were submitted with the same strategy and structured inputs */
+export const sameInputs = (a: MapperInputs, b: MapperInputs) =>
+  JSON.stringify(canonical({ ...a, strategy_description: a.strategy_description.trim() })) ===
+  JSON.stringify(canonical({ ...b, strategy_description: b.strategy_description.trim() }));
+
+export interface VersionChain {
+  versions: RunHistorySummary[];
+  /** Position of the requested run in `versions` */
+  index: number;
+}
+
+/**
+ * The versions a run belongs to, oldest first: its ancestors, the run itself,
+ * then its most recent descendants. When an older version was edited more than
+ * once, the chain follows the latest edit.
+ */
+export function versionChain(runs: RunHistorySummary[], id: string): VersionChain {
+  const byId = new Map(runs.map(r => [r.id, r]));
+  const run = byId.get(id);
+  if (!run) return { versions: [], index: -1 };
+
+  const ancestors: RunHistorySummary[] = [];
+  const seen = new Set([run.id]);
+  for (let parent = run.parentId && byId.get(run.parentId); parent && !seen.has(parent.id); parent = parent.parentId && byId.get(parent.parentId)) {
+    seen.add(parent.id);
+    ancestors.unshift(parent);
+  }
+
+  const latestChild = (parentId: string) =>
+    runs
+      .filter(r => r.parentId === parentId && !seen.has(r.id))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0];
+  const descendants: RunHistorySummary[] = [];
+  for (let child = latestChild(run.id); child; child = latestChild(child.id)) {
+    seen.add(child.id);
+    descendants.push(child);
+  }
+
+  return { versions: [...ancestors, run, ...descendants], index: ancestors.length };
+}
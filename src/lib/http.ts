@@ -0,0 +1,18 @@
+/**
+ * JSON fetch helper for the app's own API routes. Requests are same-origin, so
+ * the Clerk session cookie authenticates them; failures throw with the route's
+ * `error` message.
+ */
+export async function requestJson<T>(path: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(path, {
+    ...init,
+    headers: { "Content-Type": "application/json", ...init?.headers },
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || `Request failed: ${response.status}`);
+  }
+
+  return (response.status === 204 ? undefined : await response.json()) as T;
+}
@@ -0,0 +1,126 @@
+import type {
+  BmfAnnotation,
+  EcosystemConnection,
+  MapperSnapshot,
+  ResultAnnotations,
+  RoleAnnotation,
+} from "./types";
+
+/**
+ * Reviewer annotations on a mapper result: accepting or rejecting matched flows,
+ * overriding their confidence, notes, and hand-added BMF ↔ service links.
+ *
+ * Annotations are stored next to the agent's output rather than rewriting it, so
+ * the raw result stays intact and `applyAnnotations` derives the reviewed view.
+ */
+
+export const MANUAL_RELATIONSHIP = "manual";
+
+export function emptyAnnotations(): ResultAnnotations {
+  return { bmfs: {}, roles: {}, manual_connections: [] };
+}
+
+export function hasAnnotations(annotations: ResultAnnotations | undefined): annotations is ResultAnnotations {
+  return !!annotations && (
+    Object.keys(annotations.bmfs).length > 0 ||
+    Object.keys(annotations.roles).length > 0 ||
+    annotations.manual_connections.length > 0
+  );
+}
+
+// Drop unset fields (and the whole entry once nothing is left)
+function patchEntry<T extends object>(
+  entries: Record<string, T>,
+  key: string,
+  patch: Partial<T>
+): Record<string, T> {
+  const merged = { ...entries[key], ...patch };
+  const cleaned = Object.fromEntries(
+    Object.entries(merged).filter(([, value]) => value !== undefined && value !== "")
+  ) as T;
+  const { [key]: _previous, ...rest } = entries;
+  return Object.keys(cleaned).length > 0 ? { ...rest, [key]: cleaned } : rest;
+}
+
+const touched = (annotations: ResultAnnotations): ResultAnnotations => ({
+  ...annotations,
+  updated_at: new Date().toISOString(),
+});
+
+export function annotateBmf(
+  annotations: ResultAnnotations | undefined,
+  bmfName: string,
+  patch: Partial<BmfAnnotation>
+): ResultAnnotations {
+  const base = annotations ?? emptyAnnotations();
+  return touched({ ...base, bmfs: patchEntry(base.bmfs, bmfName, patch) });
+}
+
+export function annotateRole(
+  annotations: ResultAnnotations | undefined,
+  roleId: string,
+  patch: Partial<RoleAnnotation>
+): ResultAnnotations {
+  const base = annotations ?? emptyAnnotations();
+  return touched({ ...base, roles: patchEntry(base.roles, roleId, patch) });
+}
+
+const sameLink = (a: EcosystemConnection, b: Pick<EcosystemConnection, "bmf_name" | "ecosystem_service">) =>
+  a.bmf_name === b.bmf_name && a.ecosystem_service === b.ecosystem_service;
+
+export function addManualConnection(
+  annotations: ResultAnnotations | undefined,
+  connection: EcosystemConnection
+): ResultAnnotations {
+  const base = annotations ?? emptyAnnotations();
+  if (base.manual_connections.some(c => sameLink(c, connection))) return base;
+  return touched({ ...base, manual_connections: [...base.manual_connections, connection] });
+}
+
+export function removeManualConnection(
+  annotations: ResultAnnotations | undefined,
+  connection: Pick<EcosystemConnection, "bmf_name" | "ecosystem_service">
+): ResultAnnotations {
+  const base = annotations ?? emptyAnnotations();
+  return touched({ ...base, manual_connections: base.manual_connections.filter(c => !sameLink(c, connection)) });
+}
+
+/** Names of flows a reviewer rejected */
+export function rejectedBmfs(annotations: ResultAnnotations | undefined): Set<string> {
+  return new Set(
+    Object.entries(annotations?.bmfs ?? {})
+      .filter(([, a]) => a.status === "rejected")
+      .map(([name]) => name)
+  );
+}
+
+/** Keys (`bmf_name` + `ecosystem_service`) of hand-added links */
+export function manualConnectionKeys(annotations: ResultAnnotations | undefined): Set<string> {
+  return new Set((annotations?.manual_connections ?? []).map(c => `${c.bmf_name}\u0000${c.ecosystem_service}`));
+}
+
+/**
+ * The reviewed view of a result: confidence overrides applied and manual links
+ * (and any services they introduce) added. Rejected flows are kept so callers
+ * can decide whether to hide or strike them. Returns `data` unchanged when there
+ * is nothing to apply.
+ */
+export function applyAnnotations<T extends MapperSnapshot>(data: T, annotations: ResultAnnotations | undefined): T {
+  if (!hasAnnotations(annotations)) return data;
+
+  const matchedBmfs = data.matched_bmfs.map(bmf => {
+    const confidence = annotations.bmfs[bmf.bmf_name]?.confidence;
+    return confidence && confidence !== bmf.confidence ? { ...bmf, confidence } : bmf;
+  });
+
+  const manual = annotations.manual_connections.filter(
+    m => !data.ecosystem_connections.some(c => sameLink(c, m))
+  );
+
+  return {
+    ...data,
+    matched_bmfs: matchedBmfs,
+    ecosystem_connections: [...data.ecosystem_connections, ...manual],
+    ecosystem_services: [...new Set([...data.ecosystem_services, ...manual.map(m => m.ecosystem_service)])],
+  };
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { isBatchActive, parseStrategyList, pendingRows, queueRows, unqueueRows, BatchRow } from "./batch";
+
+const load = (text: string) => pendingRows(parseStrategyList(text), "t");
+const ids = (rows: BatchRow[]) => new Set(rows.map(row => row.id));
+const statuses = (rows: BatchRow[]) => rows.map(row => row.status);
+
+describe("parseStrategyList", () => {
+  it("reads one strategy per line from text", () => {
+    expect(parseStrategyList("green roof\r\n\n  timber frame  \n")).toEqual([
+      { strategy: "green roof" },
+      { strategy: "timber frame" },
+    ]);
+  });
+
+  it("reads the strategy and title columns of a CSV", () => {
+    const csv = "\uFEFFTitle,Strategy\nRoof,\"green roof, sedum\"\n,\"timber \"\"CLT\"\" frame\"\n";
+    expect(parseStrategyList(csv, "portfolio.csv")).toEqual([
+      { title: "Roof", strategy: "green roof, sedum" },
+      { title: undefined, strategy: "timber \"CLT\" frame" },
+    ]);
+  });
+});
+
+describe("batch rows", () => {
+  it("loads a list as pending rows that can be run", () => {
+    const rows = load("green roof\ntimber frame");
+    expect(statuses(rows)).toEqual(["pending", "pending"]);
+    expect(isBatchActive(rows)).toBe(false);
+
+    const queued = queueRows(rows, ids(rows));
+    expect(statuses(queued)).toEqual(["queued", "queued"]);
+    expect(isBatchActive(queued)).toBe(true);
+  });
+
+  it("returns rows still waiting to pending when cancelled", () => {
+    const [first, second] = queueRows(load("green roof\ntimber frame"), new Set(["t-0", "t-1"]));
+    const rows = unqueueRows([{ ...first, status: "running" }, second]);
+
+    expect(statuses(rows)).toEqual(["running", "pending"]);
+    expect(isBatchActive(rows)).toBe(true);
+    expect(isBatchActive(rows.map(row => ({ ...row, status: row.status === "running" ? "cancelled" : row.status })))).toBe(false);
+  });
+
+  it("clears the error of a row queued again", () => {
+    const [row] = load("green roof");
+    const [retried] = queueRows([{ ...row, status: "error", error: "Network error" }], ids([row]));
+    expect(retried).toMatchObject({ status: "queued", error: undefined });
+  });
+});
@@ -0,0 +1,188 @@
+import { toCsv } from "./export";
+import { buildHeatmap, cellCount, HeatmapSource } from "./heatmap";
+import type { MapperEvent } from "./events";
+import type { MapperResult, ProgressState } from "./types";
+
+/**
+ * Batch analysis helpers: parsing uploaded strategy lists, running work with a
+ * concurrency limit, and the combined exports for a finished batch.
+ */
+
+export interface BatchEntry {
+  title?: string;
+  strategy: string;
+}
+
+/** Rows start out pending; only rows handed to the scheduler are queued */
+export type BatchRowStatus = "pending" | "queued" | "running" | "complete" | "error" | "cancelled";
+
+export interface BatchRow extends BatchEntry {
+  id: string;
+  status: BatchRowStatus;
+  stage: ProgressState["stage"];
+  currentChunk?: number;
+  totalChunks?: number;
+  result?: MapperResult;
+  error?: string;
+}
+
+export const MAX_BATCH_SIZE = 200;
+
+// Column names recognised in an uploaded CSV (case-insensitive)
+const STRATEGY_COLUMNS = ["strategy_description", "strategy", "description"];
+const TITLE_COLUMNS = ["title", "name"];
+
+/** Parse RFC 4180 CSV text into rows of cells */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(c => c.trim()));
+}
+
+/**
+ * Parse an uploaded strategy list. CSV files use a `strategy` (or
+ * `strategy_description` / `description`) column and an optional `title` column,
+ * falling back to the first column; anything else is one strategy per line.
+ */
+export function parseStrategyList(text: string, filename = ""): BatchEntry[] {
+  const content = text.replace(/^\uFEFF/, "");
+
+  if (!filename.toLowerCase().endsWith(".csv")) {
+    return content
+      .split(/\r\n|\r|\n/)
+      .map(line => line.trim())
+      .filter(Boolean)
+      .map(strategy => ({ strategy }));
+  }
+
+  const rows = parseCsv(content);
+  if (rows.length === 0) return [];
+
+  const header = rows[0].map(h => h.trim().toLowerCase());
+  const strategyIndex = header.findIndex(h => STRATEGY_COLUMNS.includes(h));
+  const titleIndex = header.findIndex(h => TITLE_COLUMNS.includes(h));
+  const hasHeader = strategyIndex !== -1;
+
+  return (hasHeader ? rows.slice(1) : rows)
+    .map(row => ({
+      title: titleIndex !== -1 ? row[titleIndex]?.trim() || undefined : undefined,
+      strategy: (row[hasHeader ? strategyIndex : 0] ?? "").trim(),
+    }))
+    .filter(entry => entry.strategy);
+}
+
+/** Rows for a freshly loaded list, none of them run yet */
+export const pendingRows = (entries: BatchEntry[], idPrefix: string | number = Date.now()): BatchRow[] =>
+  entries.map((entry, i) => ({ ...entry, id: `${idPrefix}-${i}`, status: "pending", stage: "idle" }));
+
+/** Mark the given rows as waiting for a free slot */
+export const queueRows = (rows: BatchRow[], ids: Set<string>): BatchRow[] =>
+  rows.map(row => (ids.has(row.id) ? { ...row, status: "queued", error: undefined } : row));
+
+/**
+ * Cancelling a batch returns rows that were still waiting to pending, so they
+ * can be run later; rows already running are aborted and end up cancelled.
+ */
+export const unqueueRows = (rows: BatchRow[]): BatchRow[] =>
+  rows.map(row => (row.status === "queued" ? { ...row, status: "pending" } : row));
+
+/** Whether any row is running or waiting to run */
+export const isBatchActive = (rows: BatchRow[]) =>
+  rows.some(row => row.status === "running" || row.status === "queued");
+
+/** The progress stage an event moves a run into, if any */
+export function stageOfEvent(event: MapperEvent): ProgressState["stage"] | null {
+  switch (event.event_type) {
+    case "stage1_start":
+    case "stage1_complete":
+      return "stage1";
+    case "stage2_start":
+    case "stage2_chunk_complete":
+      return "stage2";
+    case "stage3_start":
+    case "stage3_complete":
+      return "stage3";
+    case "stage4_start":
+    case "stage4_tier1_complete":
+    case "stage4_batch_complete":
+    case "stage4_complete":
+      return "stage4";
+    case "complete":
+    case "result":
+      return "complete";
+    case "error":
+      return "error";
+  }
+}
+
+export const rowLabel = (row: BatchEntry, index: number) =>
+  row.title || row.strategy.split("\n")[0].slice(0, 60) || `Strategy ${index + 1}`;
+
+/** One line per row: status, counts, cost and any error */
+export function batchSummaryCsv(rows: BatchRow[]): string {
+  return toCsv(
+    ["title", "strategy", "status", "materials", "flows", "services", "roles", "processing_time_ms", "cost_usd", "error"],
+    rows.map((row, i) => [
+      rowLabel(row, i),
+      row.strategy,
+      row.status,
+      row.result?.extracted_materials.length,
+      row.result?.matched_bmfs.length,
+      row.result?.ecosystem_services.length,
+      row.result?.role_analyses.length,
+      row.result?.processing_time_ms,
+      row.result?.cost_usd,
+      row.error,
+    ])
+  );
+}
+
+/**
+ * Strategy × ecosystem service matrix: each cell is the number of distinct
+ * flows linking that strategy to that service. Only completed rows are included.
+ */
+export function strategyServiceMatrixCsv(rows: BatchRow[]): string {
+  const heatmap = buildHeatmap(batchHeatmapSources(rows));
+  return toCsv(
+    ["title", ...heatmap.services],
+    heatmap.rows.map(row => [row.label, ...heatmap.services.map(s => cellCount(heatmap, row.id, s))])
+  );
+}
+
+/** Completed rows as heatmap rows */
+export function batchHeatmapSources(rows: BatchRow[]): HeatmapSource[] {
+  return rows.flatMap((row, i) => (row.result ? [{ id: row.id, label: rowLabel(row, i), result: row.result }] : []));
+}
@@ -0,0 +1,178 @@
+/**
+ * Structured strategy builder: typed building components plus site context,
+ * serialized into a consistent `strategy_description` and structured `inputs`.
+ *
+ * The free-text description stays the primary input to the agent; the
+ * structured fields are sent alongside it for agents that can use them.
+ */
+
+export type ComponentKind = "roof" | "facade" | "water" | "landscape" | "structure";
+
+export interface ComponentCatalogEntry {
+  label: string;
+  materials: string[];
+  systems: string[];
+}
+
+/** Suggestions offered by the pickers; users can add anything else */
+export const COMPONENT_CATALOG: Record<ComponentKind, ComponentCatalogEntry> = {
+  roof: {
+    label: "Roof",
+    materials: ["sedum", "growing substrate", "EPDM membrane", "clay tiles", "metal sheeting", "timber decking", "reflective coating"],
+    systems: ["extensive green roof", "intensive green roof", "photovoltaic panels", "solar thermal collectors", "rainwater collection", "blue roof"],
+  },
+  facade: {
+    label: "Façade",
+    materials: ["brick", "timber cladding", "glass curtain wall", "fibre cement", "stone", "recycled aluminium", "mineral wool insulation"],
+    systems: ["green wall", "external shading", "ventilated façade", "double-skin façade", "bird-friendly glazing", "nesting bricks"],
+  },
+  water: {
+    label: "Water system",
+    materials: ["storage tanks", "permeable paving", "gravel", "HDPE pipes"],
+    systems: ["rainwater harvesting", "greywater recycling", "constructed wetland", "bioswales", "rain gardens", "composting toilets"],
+  },
+  landscape: {
+    label: "Landscape",
+    materials: ["native plants", "topsoil", "mulch", "reclaimed stone", "compost"],
+    systems: ["pollinator meadow", "urban orchard", "tree canopy", "pond habitat", "hedgerows"],
+  },
+  structure: {
+    label: "Structure",
+    materials: ["cross-laminated timber", "glulam", "steel", "recycled steel", "concrete", "low-carbon concrete", "rammed earth", "hempcrete"],
+    systems: ["timber frame", "steel frame", "concrete frame", "modular prefabrication", "design for disassembly"],
+  },
+};
+
+export const COMPONENT_KINDS = Object.keys(COMPONENT_CATALOG) as ComponentKind[];
+
+export const CLIMATE_ZONES = [
+  "tropical",
+  "arid",
+  "temperate",
+  "continental",
+  "polar",
+  "mediterranean",
+  "subtropical",
+];
+
+export const BUILDING_TYPES = [
+  "residential",
+  "office",
+  "mixed-use",
+  "school",
+  "hospital",
+  "retail",
+  "industrial",
+  "cultural",
+];
+
+export interface BuilderComponent {
+  id: string;
+  kind: ComponentKind;
+  materials: string[];
+  systems: string[];
+  notes: string;
+}
+
+export interface SiteContext {
+  climateZone: string;
+  buildingType: string;
+  /** Gross floor area in m², as typed */
+  floorArea: string;
+}
+
+export interface StrategySpec {
+  components: BuilderComponent[];
+  site: SiteContext;
+}
+
+/** Structured fields sent to the agent alongside `strategy_description` */
+export interface StructuredStrategyInputs {
+  site_context?: {
+    climate_zone?: string;
+    building_type?: string;
+    floor_area_m2?: number;
+  };
+  components?: {
+    type: ComponentKind;
+    materials: string[];
+    systems: string[];
+    notes?: string;
+  }[];
+}
+
+export const emptyStrategySpec = (): StrategySpec => ({
+  components: [],
+  site: { climateZone: "", buildingType: "", floorArea: "" },
+});
+
+export function newComponent(kind: ComponentKind): BuilderComponent {
+  return { id: crypto.randomUUID(), kind, materials: [], systems: [], notes: "" };
+}
+
+const isFilled = (c: BuilderComponent) => c.materials.length > 0 || c.systems.length > 0 || c.notes.trim() !== "";
+
+function parseFloorArea(value: string): number | undefined {
+  const area = Number(value.replace(/[,\s]/g, ""));
+  return Number.isFinite(area) && area > 0 ? area : undefined;
+}
+
+/** Join a list as natural English: "a", "a and b", "a, b and c" */
+function joinList(items: string[]): string {
+  if (items.length <= 1) return items.join("");
+  return `${items.slice(0, -1).join(", ")} and ${items[items.length - 1]}`;
+}
+
+/**
+ * Serialize a spec into a strategy description, one sentence per component in
+ * catalog order, followed by the site context. The same spec always produces
+ * the same text.
+ */
+export function serializeStrategy({ components, site }: StrategySpec): string {
+  const lines: string[] = [];
+
+  for (const kind of COMPONENT_KINDS) {
+    for (const component of components.filter(c => c.kind === kind && isFilled(c))) {
+      const parts: string[] = [];
+      if (component.systems.length > 0) parts.push(joinList(component.systems));
+      if (component.materials.length > 0) parts.push(`using ${joinList(component.materials)}`);
+      if (component.notes.trim()) parts.push(`(${component.notes.trim()})`);
+      lines.push(`${COMPONENT_CATALOG[kind].label}: ${parts.join(" ")}.`);
+    }
+  }
+
+  const area = parseFloorArea(site.floorArea);
+  const siteParts = [
+    site.buildingType && `${site.buildingType} building`,
+    area && `${area.toLocaleString("en-US")} m² floor area`,
+    site.climateZone && `${site.climateZone} climate`,
+  ].filter(Boolean);
+  if (siteParts.length > 0) lines.push(`Site: ${siteParts.join(", ")}.`);
+
+  return lines.join("\n");
+}
+
+export function strategyInputs({ components, site }: StrategySpec): StructuredStrategyInputs {
+  const inputs: StructuredStrategyInputs = {};
+  const area = parseFloorArea(site.floorArea);
+
+  if (site.climateZone || site.buildingType || area) {
+    inputs.site_context = {
+      ...(site.climateZone && { climate_zone: site.climateZone }),
+      ...(site.buildingType && { building_type: site.buildingType }),
+      ...(area && { floor_area_m2: area }),
+    };
+  }
+
+  const filled = components.filter(isFilled);
+  if (filled.length > 0) {
+    inputs.components = filled.map(c => ({
+      type: c.kind,
+      materials: c.materials,
+      systems: c.systems,
+      ...(c.notes.trim() && { notes: c.notes.trim() }),
+    }));
+  }
+
+  return inputs;
+}
@@ -0,0 +1,110 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { StreamInterruptedError, StreamRestartRequiredError } from "@/lib/agents/client";
+import { streamMaterialMapper, InvalidFinalEventError, MapperInputs } from "./client";
+import type { MapperEvent } from "./events";
+
+const inputs: MapperInputs = { strategy_description: "Timber frame" };
+
+const sse = (events: object[], ids = false) =>
+  events.map((e, i) => `${ids ? `id: ${i + 1}\n` : ""}data: ${JSON.stringify(e)}\n\n`).join("");
+
+const stage1 = [
+  { event_type: "stage1_start" },
+  { event_type: "stage1_complete", extracted_materials: ["timber", "glass"] },
+];
+const result = {
+  event_type: "result",
+  extracted_materials: ["timber", "glass"],
+  matched_bmfs: [],
+  unmatched_materials: [],
+  ecosystem_connections: [],
+  ecosystem_services: [],
+  ecosystem_service_details: {},
+  role_analyses: [],
+  processing_time_ms: 1200,
+  cost_usd: 0.01,
+};
+
+/** Serve one SSE body per request, recording what each request sent */
+function mockBackend(bodies: string[]) {
+  const requests: { inputs: MapperInputs; lastEventId: string | null }[] = [];
+  vi.stubGlobal("fetch", vi.fn(async (_url: string, init: RequestInit) => {
+    requests.push({
+      inputs: JSON.parse(String(init.body)).inputs,
+      lastEventId: new Headers(init.headers).get("Last-Event-ID"),
+    });
+    return new Response(bodies[Math.min(requests.length, bodies.length) - 1]);
+  }));
+  return requests;
+}
+
+async function collect(options: Parameters<typeof streamMaterialMapper>[1] = {}) {
+  const events: MapperEvent[] = [];
+  for await (const event of streamMaterialMapper(inputs, { retryDelayMs: 0, ...options })) events.push(event);
+  return events;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("streamMaterialMapper reconnects", () => {
+  it("resumes after the last event id when the backend sends ids", async () => {
+    const requests = mockBackend([sse(stage1, true), sse([result])]);
+    const events = await collect();
+
+    expect(events.map(e => e.event_type)).toEqual(["stage1_start", "stage1_complete", "result"]);
+    expect(requests[1]).toEqual({ inputs, lastEventId: "2" });
+  });
+
+  it("continues from stage 2 with the extracted materials when there are no ids", async () => {
+    const requests = mockBackend([sse(stage1), sse([{ event_type: "stage2_start", total_chunks: 1 }, result])]);
+    const events = await collect();
+
+    expect(events.at(-1)?.event_type).toBe("result");
+    expect(requests[1].inputs).toEqual({
+      ...inputs,
+      extracted_materials: ["timber", "glass"],
+      start_from_stage: 2,
+    });
+  });
+
+  it("asks for a restart instead of re-running a stream it cannot resume", async () => {
+    const requests = mockBackend([sse(stage1.slice(0, 1))]);
+    await expect(collect()).rejects.toBeInstanceOf(StreamRestartRequiredError);
+    expect(requests).toHaveLength(1);
+  });
+
+  it("caps the reconnections of a run that keeps dropping", async () => {
+    const requests = mockBackend([sse(stage1)]);
+    const error = await collect({ maxReconnects: 4 }).catch(err => err);
+
+    expect(error).toBeInstanceOf(StreamInterruptedError);
+    expect(error.attempts).toBe(4);
+    expect(requests).toHaveLength(5);
+  });
+
+  it("reports the request error when it never connected", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => new Response("", { status: 503 })));
+    await expect(collect({ retries: 1 })).rejects.toThrow("Request failed: 503");
+  });
+});
+
+describe("streamMaterialMapper validation", () => {
+  const bmf = (confidence?: string) => ({ bmf_name: "Engineered wood", confidence, matched_materials: ["timber"] });
+
+  it("reads unrecognised confidence levels as low instead of rejecting the result", async () => {
+    mockBackend([sse([{ ...result, matched_bmfs: [bmf("High"), bmf("very high"), bmf()] }])]);
+    const [event] = await collect();
+
+    expect(event.event_type === "result" && event.matched_bmfs.map(b => b.confidence)).toEqual(["high", "low", "low"]);
+  });
+
+  it("fails the run when its final event is malformed", async () => {
+    mockBackend([sse([...stage1, { ...result, matched_bmfs: "none" }])]);
+    const onInvalidEvent = vi.fn();
+
+    await expect(collect({ onInvalidEvent })).rejects.toBeInstanceOf(InvalidFinalEventError);
+    expect(onInvalidEvent).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,113 @@
+import { streamAgent, AgentStreamOptions } from "@/lib/agents/client";
+import type { SSEMessage } from "@/lib/agents/sse";
+import { parseMapperEvent, toMapperResult, MapperEvent } from "./events";
+import type { MapperResult } from "./types";
+import type { StructuredStrategyInputs } from "./builder";
+
+export const MATERIAL_MAPPER_AGENT_ID = "agents.ecoservices.material_mapper";
+
+export interface MapperInputs extends StructuredStrategyInputs {
+  strategy_description: string;
+  /** Curated materials to match instead of extracting them from the description */
+  extracted_materials?: string[];
+  /** Stage to start from; 2 skips extraction when `extracted_materials` is given */
+  start_from_stage?: number;
+}
+
+/** An SSE message whose payload could not be turned into a `MapperEvent` */
+export interface InvalidMapperEvent {
+  message: SSEMessage;
+  reason: string;
+}
+
+export interface MapperStreamOptions extends AgentStreamOptions {
+  /** Called for each malformed or unrecognised event; the stream continues */
+  onInvalidEvent?: (invalid: InvalidMapperEvent) => void;
+}
+
+// The run is over once the final result (or an error) has been sent
+function isTerminalMessage(message: SSEMessage): boolean {
+  if (message.event === "result" || message.event === "error") return true;
+  try {
+    const { event_type } = JSON.parse(message.data);
+    return event_type === "result" || event_type === "error";
+  } catch {
+    return false;
+  }
+}
+
+/** The result or error that ends a run could not be read */
+export class InvalidFinalEventError extends Error {
+  constructor(public readonly reason: string) {
+    super(`The analysis finished, but its final result could not be read (${reason})`);
+    this.name = "InvalidFinalEventError";
+  }
+}
+
+function parseMessage(message: SSEMessage): MapperEvent {
+  let data: unknown;
+  try {
+    data = JSON.parse(message.data);
+  } catch {
+    throw new Error("data is not valid JSON");
+  }
+  return parseMapperEvent(data, message.event !== "message" ? message.event : undefined);
+}
+
+/**
+ * Run the Material Mapper and yield validated events as they arrive. Once the
+ * materials are extracted, a dropped stream the backend cannot resume by event
+ * id reconnects as a re-match from stage 2 instead of starting over.
+ *
+ * @example
+ * for await (const event of streamMaterialMapper({ strategy_description }, { getToken })) {
+ *   if (event.event_type === "stage1_complete") showMaterials(event.extracted_materials);
+ * }
+ */
+export async function* streamMaterialMapper(
+  inputs: MapperInputs,
+  { onInvalidEvent, ...options }: MapperStreamOptions = {}
+): AsyncGenerator<MapperEvent> {
+  // Furthest point a reconnect can continue from: stage 2 needs the extracted materials
+  let extracted = inputs.start_from_stage === 2 ? inputs.extracted_materials : undefined;
+
+  for await (const message of streamAgent(MATERIAL_MAPPER_AGENT_ID, { ...inputs }, {
+    isTerminal: isTerminalMessage,
+    resumeInputs: () => extracted && { ...inputs, extracted_materials: extracted, start_from_stage: 2 },
+    ...options,
+  })) {
+    let event: MapperEvent;
+    try {
+      event = parseMessage(message);
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      onInvalidEvent?.({ message, reason });
+      // Skipping the final event would leave the run without a result or an error
+      if (isTerminalMessage(message)) throw new InvalidFinalEventError(reason);
+      continue;
+    }
+    if (event.event_type === "stage1_complete") extracted = event.extracted_materials;
+    yield event;
+  }
+}
+
+export interface MapperRunOptions extends MapperStreamOptions {
+  /** Called with every validated event, e.g. to report progress */
+  onEvent?: (event: MapperEvent) => void;
+}
+
+/**
+ * Run the Material Mapper to completion and resolve with the final result.
+ * Rejects with the agent's message if it reports an error.
+ */
+export async function runMaterialMapper(
+  inputs: MapperInputs,
+  { onEvent, ...options }: MapperRunOptions = {}
+): Promise<MapperResult> {
+  for await (const event of streamMaterialMapper(inputs, options)) {
+    onEvent?.(event);
+    if (event.event_type === "result") return toMapperResult(event);
+    if (event.event_type === "error") throw new Error(event.error);
+  }
+  throw new Error("The stream ended without a result");
+}
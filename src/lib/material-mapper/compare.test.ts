@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { compareResults, mergeConnections } from "./compare";
+import type { EcosystemConnection, MapperResult } from "./types";
+
+const connection = (bmf_name: string, ecosystem_service: string): EcosystemConnection => ({
+  bmf_name,
+  ecosystem_service,
+  relationship_type: "supports",
+});
+
+const result = (services: string[], connections: EcosystemConnection[]): MapperResult => ({
+  extracted_materials: [],
+  matched_bmfs: [],
+  unmatched_materials: [],
+  ecosystem_connections: connections,
+  ecosystem_services: services,
+  ecosystem_service_details: {},
+  role_analyses: [],
+  processing_time_ms: 0,
+  cost_usd: 0,
+});
+
+describe("mergeConnections", () => {
+  it("marks each connection with the run it comes from", () => {
+    const merged = mergeConnections(
+      [connection("Timber", "Carbon storage"), connection("Glass", "Daylight")],
+      [connection("Timber", "Carbon storage"), connection("Sedum", "Pollination")]
+    );
+    expect(merged.map(c => [c.bmf_name, c.run])).toEqual([
+      ["Timber", "both"],
+      ["Glass", "before"],
+      ["Sedum", "after"],
+    ]);
+  });
+
+  it("matches services the way the service diff does", () => {
+    const before = result(["Carbon  Storage"], [connection("Timber", "Carbon  Storage"), connection("Glass", "Carbon  Storage")]);
+    const after = result(["carbon storage"], [connection("Timber", "carbon storage")]);
+    const comparison = compareResults(before, after);
+
+    expect(comparison.services.unchanged).toEqual(["carbon storage"]);
+    expect(comparison.connections).toEqual([
+      { ...connection("Timber", "carbon storage"), run: "both" },
+      { ...connection("Glass", "carbon storage"), run: "before" },
+    ]);
+  });
+});
@@ -0,0 +1,95 @@
+import type { EcosystemConnection, MapperResult, MatchedBMF, RoleAnalysis } from "./types";
+
+/**
+ * Diffing two Material Mapper results, e.g. before and after editing the
+ * strategy ("add a green roof"). `before` is the baseline, `after` the new run.
+ */
+
+export interface ListDiff<T> {
+  /** Only in `after` */
+  added: T[];
+  /** Only in `before` */
+  removed: T[];
+  /** In both (the `after` version) */
+  unchanged: T[];
+}
+
+/** Which run a merged connection comes from */
+export type RunSide = "before" | "after" | "both";
+
+export interface MergedConnection extends EcosystemConnection {
+  run: RunSide;
+}
+
+export interface MapperComparison {
+  materials: ListDiff<string>;
+  bmfs: ListDiff<MatchedBMF>;
+  services: ListDiff<string>;
+  roles: ListDiff<RoleAnalysis>;
+  /** Union of both runs' BMF → service connections */
+  connections: MergedConnection[];
+  /** after - before */
+  processingTimeDeltaMs: number;
+  /** after - before */
+  costDeltaUsd: number;
+}
+
+// Materials and services are free text from the model, so ignore case and spacing
+const normalize = (value: string) => value.trim().toLowerCase().replace(/\s+/g, " ");
+
+export function diffBy<T>(before: T[], after: T[], key: (item: T) => string): ListDiff<T> {
+  const beforeKeys = new Set(before.map(key));
+  const afterKeys = new Set(after.map(key));
+  const seen = new Set<string>();
+  const unique = (item: T) => {
+    const k = key(item);
+    if (seen.has(k)) return false;
+    seen.add(k);
+    return true;
+  };
+
+  const added = after.filter(item => !beforeKeys.has(key(item))).filter(unique);
+  const unchanged = after.filter(item => beforeKeys.has(key(item))).filter(unique);
+  const removed = before.filter(item => !afterKeys.has(key(item))).filter(unique);
+  return { added, removed, unchanged };
+}
+
+/**
+ * Union of both runs' connections. Services are matched as in the service
+ * diff, and each is spelled as in `after` where it appears there, so the graph
+ * has one node per service.
+ */
+export function mergeConnections(before: EcosystemConnection[], after: EcosystemConnection[]): MergedConnection[] {
+  const spelling = new Map<string, string>();
+  for (const c of [...after, ...before]) {
+    const service = normalize(c.ecosystem_service);
+    if (!spelling.has(service)) spelling.set(service, c.ecosystem_service);
+  }
+
+  const key = (c: EcosystemConnection) => `${c.bmf_name}\u0000${normalize(c.ecosystem_service)}`;
+  const merged = new Map<string, MergedConnection>();
+  const add = (c: EcosystemConnection, run: RunSide) =>
+    merged.set(key(c), { ...c, ecosystem_service: spelling.get(normalize(c.ecosystem_service))!, run });
+
+  for (const c of before) {
+    if (!merged.has(key(c))) add(c, "before");
+  }
+  for (const c of after) {
+    const existing = merged.get(key(c));
+    if (!existing) add(c, "after");
+    else if (existing.run === "before") existing.run = "both";
+  }
+  return [...merged.values()];
+}
+
+export function compareResults(before: MapperResult, after: MapperResult): MapperComparison {
+  return {
+    materials: diffBy(before.extracted_materials, after.extracted_materials, normalize),
+    bmfs: diffBy(before.matched_bmfs, after.matched_bmfs, b => b.bmf_name),
+    services: diffBy(before.ecosystem_services, after.ecosystem_services, normalize),
+    roles: diffBy(before.role_analyses, after.role_analyses, r => r.role_id),
+    connections: mergeConnections(before.ecosystem_connections, after.ecosystem_connections),
+    processingTimeDeltaMs: after.processing_time_ms - before.processing_time_ms,
+    costDeltaUsd: after.cost_usd - before.cost_usd,
+  };
+}
@@ -0,0 +1,69 @@
+import type { MaterialEdit } from "./types";
+
+/**
+ * Manual curation of extracted materials. Edits are kept as a compact log: undoing
+ * an edit (removing an added material, renaming back) cancels it out rather than
+ * piling up entries, so the log always reads as the net change.
+ */
+
+type EditInput = Omit<MaterialEdit, "at">;
+
+export function recordEdit(edits: MaterialEdit[], edit: EditInput): MaterialEdit[] {
+  const at = new Date().toISOString();
+  const next = [...edits];
+  const find = (action: MaterialEdit["action"], field: "from" | "to", value: string | undefined) =>
+    next.findIndex(e => e.action === action && e[field] === value);
+
+  switch (edit.action) {
+    case "added": {
+      // Re-adding a removed material restores it
+      const removed = find("removed", "from", edit.to);
+      if (removed !== -1) next.splice(removed, 1);
+      else next.push({ ...edit, at });
+      break;
+    }
+    case "removed": {
+      const added = find("added", "to", edit.from);
+      const renamed = find("renamed", "to", edit.from);
+      if (added !== -1) {
+        next.splice(added, 1);
+      } else if (renamed !== -1) {
+        next[renamed] = { action: "removed", from: next[renamed].from, at };
+      } else {
+        next.push({ ...edit, at });
+      }
+      break;
+    }
+    case "renamed": {
+      const added = find("added", "to", edit.from);
+      const renamed = find("renamed", "to", edit.from);
+      if (added !== -1) {
+        next[added] = { ...next[added], to: edit.to, at };
+      } else if (renamed !== -1) {
+        const original = next[renamed].from;
+        if (original === edit.to) next.splice(renamed, 1);
+        else next[renamed] = { action: "renamed", from: original, to: edit.to, at };
+      } else {
+        next.push({ ...edit, at });
+      }
+      break;
+    }
+  }
+  return next;
+}
+
+/** Curated materials that differ from the extraction, with how they changed */
+export function editedMaterials(edits: MaterialEdit[]): Map<string, MaterialEdit> {
+  return new Map(edits.filter(e => e.to !== undefined).map(e => [e.to!, e]));
+}
+
+export function describeEdit(edit: MaterialEdit): string {
+  switch (edit.action) {
+    case "added":
+      return `Added "${edit.to}"`;
+    case "removed":
+      return `Removed "${edit.from}"`;
+    case "renamed":
+      return `Renamed "${edit.from}" to "${edit.to}"`;
+  }
+}
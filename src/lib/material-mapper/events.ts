@@ -0,0 +1,185 @@
+import {
+  ValidationError,
+  Validator,
+  isPlainObject,
+  number,
+  object,
+  optional,
+  string,
+  withDefault,
+} from "@/lib/validation";
+import {
+  ecosystemConnections,
+  ecosystemServiceDetails,
+  mapperResultFields,
+  matchedBmfs,
+  roleAnalyses,
+  strings,
+} from "./schema";
+import type {
+  EcosystemConnection,
+  EcosystemServiceDetail,
+  MapperResult,
+  MatchedBMF,
+  RoleAnalysis,
+} from "./types";
+
+/**
+ * Events emitted by the Material Mapper stream endpoint, discriminated by `event_type`.
+ */
+
+interface BaseEvent {
+  /** Human-readable progress message */
+  message?: string;
+  /** Milliseconds since the run started */
+  elapsed_ms?: number;
+}
+
+export interface Stage1StartEvent extends BaseEvent {
+  event_type: "stage1_start";
+}
+
+export interface Stage1CompleteEvent extends BaseEvent {
+  event_type: "stage1_complete";
+  extracted_materials: string[];
+}
+
+export interface Stage2StartEvent extends BaseEvent {
+  event_type: "stage2_start";
+  total_chunks?: number;
+}
+
+export interface Stage2ChunkCompleteEvent extends BaseEvent {
+  event_type: "stage2_chunk_complete";
+  current_chunk?: number;
+  total_chunks?: number;
+  matched_bmfs: MatchedBMF[];
+}
+
+export interface Stage3StartEvent extends BaseEvent {
+  event_type: "stage3_start";
+}
+
+export interface Stage3CompleteEvent extends BaseEvent {
+  event_type: "stage3_complete";
+  ecosystem_connections: EcosystemConnection[];
+  ecosystem_services: string[];
+  ecosystem_service_details: Record<string, EcosystemServiceDetail>;
+}
+
+export interface Stage4StartEvent extends BaseEvent {
+  event_type: "stage4_start";
+}
+
+export interface Stage4Tier1CompleteEvent extends BaseEvent {
+  event_type: "stage4_tier1_complete";
+}
+
+export interface Stage4BatchCompleteEvent extends BaseEvent {
+  event_type: "stage4_batch_complete";
+}
+
+export interface Stage4CompleteEvent extends BaseEvent {
+  event_type: "stage4_complete";
+  role_analyses: RoleAnalysis[];
+}
+
+export interface CompleteEvent extends BaseEvent {
+  event_type: "complete";
+}
+
+export interface ResultEvent extends BaseEvent, MapperResult {
+  event_type: "result";
+}
+
+export interface ErrorEvent extends BaseEvent {
+  event_type: "error";
+  error: string;
+}
+
+export type MapperEvent =
+  | Stage1StartEvent
+  | Stage1CompleteEvent
+  | Stage2StartEvent
+  | Stage2ChunkCompleteEvent
+  | Stage3StartEvent
+  | Stage3CompleteEvent
+  | Stage4StartEvent
+  | Stage4Tier1CompleteEvent
+  | Stage4BatchCompleteEvent
+  | Stage4CompleteEvent
+  | CompleteEvent
+  | ResultEvent
+  | ErrorEvent;
+
+export type MapperEventType = MapperEvent["event_type"];
+
+const base = {
+  message: optional(string),
+  elapsed_ms: optional(number),
+};
+
+// Payload validators for each event type (event_type itself is checked separately)
+const payloads: { [K in MapperEventType]: Validator<Omit<Extract<MapperEvent, { event_type: K }>, "event_type">> } = {
+  stage1_start: object(base),
+  stage1_complete: object({ ...base, extracted_materials: strings }),
+  stage2_start: object({ ...base, total_chunks: optional(number) }),
+  stage2_chunk_complete: object({
+    ...base,
+    current_chunk: optional(number),
+    total_chunks: optional(number),
+    matched_bmfs: matchedBmfs,
+  }),
+  stage3_start: object(base),
+  stage3_complete: object({
+    ...base,
+    ecosystem_connections: ecosystemConnections,
+    ecosystem_services: strings,
+    ecosystem_service_details: ecosystemServiceDetails,
+  }),
+  stage4_start: object(base),
+  stage4_tier1_complete: object(base),
+  stage4_batch_complete: object(base),
+  stage4_complete: object({ ...base, role_analyses: roleAnalyses }),
+  complete: object(base),
+  result: object({ ...base, ...mapperResultFields }),
+  error: object({ ...base, error: withDefault(string, "Unknown error") }),
+};
+
+function isMapperEventType(type: unknown): type is MapperEventType {
+  return typeof type === "string" && Object.prototype.hasOwnProperty.call(payloads, type);
+}
+
+/**
+ * Validate a decoded event payload.
+ *
+ * @param data - Parsed JSON from the SSE `data:` field
+ * @param fallbackType - SSE `event:` field, used when the payload has no `event_type`
+ * @throws ValidationError if the payload does not match its event type
+ */
+export function parseMapperEvent(data: unknown, fallbackType?: string): MapperEvent {
+  if (!isPlainObject(data)) throw new ValidationError("event", "object");
+
+  const type = data.event_type ?? fallbackType;
+  if (!isMapperEventType(type)) {
+    throw new ValidationError("event.event_type", "a known event type");
+  }
+
+  const payload = payloads[type](data, type);
+  return { ...payload, event_type: type } as MapperEvent;
+}
+
+/** Extract the final `MapperResult` from a `result` event */
+export function toMapperResult(event: ResultEvent): MapperResult {
+  return {
+    extracted_materials: event.extracted_materials,
+    matched_bmfs: event.matched_bmfs,
+    unmatched_materials: event.unmatched_materials,
+    ecosystem_connections: event.ecosystem_connections,
+    ecosystem_services: event.ecosystem_services,
+    ecosystem_service_details: event.ecosystem_service_details,
+    role_analyses: event.role_analyses,
+    processing_time_ms: event.processing_time_ms,
+    cost_usd: event.cost_usd,
+  };
+}
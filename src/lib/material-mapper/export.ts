@@ -0,0 +1,285 @@
+import { ValidationError, isPlainObject, optional, string, withDefault } from "@/lib/validation";
+import { mapperResult } from "./schema";
+import { describeEdit } from "./curation";
+import { applyAnnotations, manualConnectionKeys } from "./annotations";
+import type { MapperResult } from "./types";
+
+/**
+ * Serializers for sharing Material Mapper results outside the app: a full JSON
+ * dump (re-importable), CSV tables for spreadsheets, and a Markdown report.
+ * Reviewer annotations are carried in the JSON as-is; the tables and report show
+ * the reviewed view, with review columns and notes alongside the agent's output.
+ */
+
+export const EXPORT_FORMAT = "ecoevo-studio/material-mapper-result";
+export const EXPORT_VERSION = 1;
+
+/** Shape of an exported JSON file */
+export interface MapperExport {
+  format: typeof EXPORT_FORMAT;
+  version: typeof EXPORT_VERSION;
+  exported_at: string;
+  title?: string;
+  strategy: string;
+  result: MapperResult;
+}
+
+export interface ExportSource {
+  title?: string;
+  strategy: string;
+  result: MapperResult;
+}
+
+export function toExportJson({ title, strategy, result }: ExportSource): string {
+  const data: MapperExport = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exported_at: new Date().toISOString(),
+    ...(title && { title }),
+    strategy,
+    result,
+  };
+  return JSON.stringify(data, null, 2);
+}
+
+// --- CSV ---
+
+function csvCell(value: string | number | undefined): string {
+  const text = value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Build an RFC 4180 CSV document from a header row and data rows */
+export function toCsv(header: string[], rows: (string | number | undefined)[][]): string {
+  return [header, ...rows].map(row => row.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
+
+// Multi-valued cells are joined with "; " so they stay in one spreadsheet column
+const list = (values: string[]) => values.join("; ");
+
+export function matchedBmfsCsv(result: MapperResult): string {
+  const reviews = result.annotations?.bmfs ?? {};
+  return toCsv(
+    ["bmf_name", "flow_type", "confidence", "matched_materials", "reason", "review_status", "reviewed_confidence", "review_note"],
+    result.matched_bmfs.map(b => [
+      b.bmf_name,
+      b.flow_type,
+      b.confidence,
+      list(b.matched_materials),
+      b.reason,
+      reviews[b.bmf_name]?.status,
+      reviews[b.bmf_name]?.confidence,
+      reviews[b.bmf_name]?.note,
+    ])
+  );
+}
+
+export function ecosystemConnectionsCsv(result: MapperResult): string {
+  const reviewed = applyAnnotations(result, result.annotations);
+  const manual = manualConnectionKeys(result.annotations);
+  return toCsv(
+    ["bmf_name", "ecosystem_service", "relationship_type", "category", "source"],
+    reviewed.ecosystem_connections.map(c => [
+      c.bmf_name,
+      c.ecosystem_service,
+      c.relationship_type,
+      result.ecosystem_service_details[c.ecosystem_service]?.category,
+      manual.has(`${c.bmf_name}\u0000${c.ecosystem_service}`) ? "manual" : "agent",
+    ])
+  );
+}
+
+export function roleAnalysesCsv(result: MapperResult): string {
+  const reviews = result.annotations?.roles ?? {};
+  return toCsv(
+    ["role_id", "role_name", "materials_touched", "description", "review_note"],
+    result.role_analyses.map(r => [r.role_id, r.role_name, list(r.materials_touched), r.description, reviews[r.role_id]?.note])
+  );
+}
+
+// --- Markdown ---
+
+// Keep user/agent text from being interpreted as Markdown structure
+function md(text: string): string {
+  return text.replace(/([\\`*_[\]#<>|])/g, "\\$1");
+}
+
+// Multi-line notes as a Markdown blockquote
+const quote = (label: string, note: string) =>
+  note.trim().split("\n").map((l, i) => `> ${i === 0 ? `**${label}:** ` : ""}${md(l)}`);
+
+export function toMarkdownReport({ title, strategy, result: raw }: ExportSource): string {
+  const result = applyAnnotations(raw, raw.annotations);
+  const reviews = raw.annotations?.bmfs ?? {};
+  const roleReviews = raw.annotations?.roles ?? {};
+  const manual = manualConnectionKeys(raw.annotations);
+  const lines: string[] = [];
+  const push = (...l: string[]) => lines.push(...l);
+
+  push(`# ${md(title || "Material Mapper Report")}`, "");
+  push(
+    `_Generated ${new Date().toLocaleString()} · ` +
+      `${(result.processing_time_ms / 1000).toFixed(1)}s · $${result.cost_usd.toFixed(4)}_`,
+    ""
+  );
+
+  push("## Strategy", "", ...strategy.trim().split("\n").map(l => `> ${md(l)}`), "");
+
+  push(
+    "## Summary",
+    "",
+    `- ${result.extracted_materials.length} materials extracted`,
+    `- ${result.matched_bmfs.length} flows matched`,
+    `- ${result.ecosystem_services.length} ecosystem services`,
+    `- ${result.role_analyses.length} building roles`,
+    ""
+  );
+
+  if (raw.annotations) {
+    const statuses = Object.values(reviews).map(r => r.status);
+    push(
+      "## Review",
+      "",
+      `- ${statuses.filter(s => s === "accepted").length} flows accepted`,
+      `- ${statuses.filter(s => s === "rejected").length} flows rejected`,
+      `- ${manual.size} manual service links`,
+      ""
+    );
+  }
+
+  push("## Extracted Materials", "");
+  const unmatched = new Set(result.unmatched_materials);
+  for (const mat of result.extracted_materials) {
+    push(`- ${md(mat)}${unmatched.has(mat) ? " _(unmatched)_" : ""}`);
+  }
+  push("");
+
+  if (result.material_edits && result.material_edits.length > 0) {
+    push("## Manual Material Edits", "", "_Materials were curated by hand before matching._", "");
+    for (const edit of result.material_edits) push(`- ${md(describeEdit(edit))}`);
+    push("");
+  }
+
+  if (result.unmatched_materials.length > 0) {
+    push("## Unmatched Materials", "");
+    for (const mat of result.unmatched_materials) push(`- ${md(mat)}`);
+    push("");
+  }
+
+  push("## Matched Flows", "");
+  for (const bmf of result.matched_bmfs) {
+    const review = reviews[bmf.bmf_name];
+    const original = raw.matched_bmfs.find(b => b.bmf_name === bmf.bmf_name)?.confidence;
+    const tags = [
+      `${bmf.confidence} confidence${review?.confidence && original !== bmf.confidence ? ` (agent: ${original})` : ""}`,
+      bmf.flow_type,
+      review?.status,
+    ].filter(Boolean).join(", ");
+    const heading = review?.status === "rejected" ? `~~${md(bmf.bmf_name)}~~` : md(bmf.bmf_name);
+    push(`### ${heading}`, "", `_${tags}_`, "");
+    if (bmf.reason) push(md(bmf.reason), "");
+    if (review?.note) push(...quote("Reviewer note", review.note), "");
+    if (bmf.matched_materials.length > 0) {
+      push(`**Materials:** ${bmf.matched_materials.map(md).join(", ")}`, "");
+    }
+  }
+
+  push("## Ecosystem Services", "");
+  for (const service of result.ecosystem_services) {
+    const detail = result.ecosystem_service_details[service];
+    const flows = [
+      ...new Set(
+        result.ecosystem_connections
+          .filter(c => c.ecosystem_service === service)
+          .map(c => `${md(c.bmf_name)}${manual.has(`${c.bmf_name}\u0000${service}`) ? " _(manual)_" : ""}`)
+      ),
+    ];
+    push(`### ${md(service)}`, "");
+    if (detail?.category) push(`_${md(detail.category)}_`, "");
+    if (detail?.description) push(md(detail.description), "");
+    if (flows.length > 0) push(`**Connected flows:** ${flows.join(", ")}`, "");
+    if (detail && detail.supplementary_connections.length > 0) {
+      push("**Material connections:**", "");
+      for (const conn of detail.supplementary_connections) {
+        push(`- ${md(conn.bmf_name)} → ${md(conn.text)}`);
+      }
+      push("");
+    }
+  }
+
+  if (result.role_analyses.length > 0) {
+    push("## Building Roles", "");
+    for (const role of result.role_analyses) {
+      push(`### ${md(role.role_name)}`, "");
+      if (role.description) push(md(role.description), "");
+      const note = roleReviews[role.role_id]?.note;
+      if (note) push(...quote("Reviewer note", note), "");
+      if (role.materials_touched.length > 0) {
+        push(`**Materials touched:** ${role.materials_touched.map(md).join(", ")}`, "");
+      }
+    }
+  }
+
+  return lines.join("\n");
+}
+
+/** Turn a title into a safe file name stem */
+export function exportFileStem(title: string | undefined): string {
+  const slug = (title || "material-mapper")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+  return slug || "material-mapper";
+}
+
+// --- Import ---
+
+/** Parse and validate an exported JSON file, with user-facing error messages */
+export function parseExportJson(text: string): MapperExport {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+
+  if (!isPlainObject(data)) {
+    throw new Error("The file does not contain a Material Mapper export.");
+  }
+
+  if (data.format !== EXPORT_FORMAT) {
+    // A bare result, e.g. copied from the network tab or an older build
+    if ("extracted_materials" in data || "matched_bmfs" in data) {
+      throw new Error(
+        "This file contains a bare result without its strategy text. " +
+          "Re-export it from EcoEvo Studio using \"Full result (JSON)\"."
+      );
+    }
+    throw new Error("The file is not a Material Mapper export.");
+  }
+
+  if (typeof data.version !== "number") {
+    throw new Error("The file is missing its format version and cannot be imported.");
+  }
+  if (data.version > EXPORT_VERSION) {
+    throw new Error(
+      `This file was exported by a newer version of EcoEvo Studio (format v${data.version}). ` +
+        "Reload the app to pick up the latest version."
+    );
+  }
+
+  try {
+    return {
+      format: EXPORT_FORMAT,
+      version: EXPORT_VERSION,
+      exported_at: withDefault(string, "")(data.exported_at, "exported_at"),
+      title: optional(string)(data.title, "title"),
+      strategy: string(data.strategy, "strategy"),
+      result: mapperResult(data.result, "result"),
+    };
+  } catch (err) {
+    const detail = err instanceof ValidationError ? err.message : String(err);
+    throw new Error(`The file does not match the result format (${detail}).`);
+  }
+}
@@ -0,0 +1,219 @@
+import type { MockAgentConfig, MockEvent } from "@/lib/agents/mock";
+import type { MapperResult } from "./types";
+
+type MockTiming = Pick<MockAgentConfig, "chunks" | "delayMs">;
+
+/**
+ * A recorded Material Mapper run, replayed by the mock agent backend. The
+ * strategy was "green roof with sedum, timber frame, rainwater harvesting,
+ * photovoltaic panels".
+ */
+
+export const MAPPER_FIXTURE_STRATEGY =
+  "green roof with sedum, timber frame, rainwater harvesting, photovoltaic panels";
+
+export const MAPPER_FIXTURE: MapperResult = {
+  extracted_materials: [
+    "sedum",
+    "growing substrate",
+    "root barrier membrane",
+    "cross-laminated timber",
+    "rainwater",
+    "storage tank",
+    "photovoltaic panels",
+    "aluminium mounting rails",
+  ],
+  matched_bmfs: [
+    {
+      bmf_name: "Vegetation biomass",
+      flow_type: "both",
+      confidence: "high",
+      matched_materials: ["sedum"],
+      reason: "Sedum mats are living plant biomass that grows and is periodically replaced.",
+    },
+    {
+      bmf_name: "Soil and substrate",
+      flow_type: "inflow",
+      confidence: "high",
+      matched_materials: ["growing substrate"],
+      reason: "Engineered roof substrate is an imported mineral and organic soil mix.",
+    },
+    {
+      bmf_name: "Polymer membranes",
+      flow_type: "inflow",
+      confidence: "medium",
+      matched_materials: ["root barrier membrane"],
+      reason: "Root barriers are typically HDPE or PVC sheet.",
+    },
+    {
+      bmf_name: "Engineered wood",
+      flow_type: "inflow",
+      confidence: "high",
+      matched_materials: ["cross-laminated timber"],
+      reason: "CLT panels are the primary structural timber product.",
+    },
+    {
+      bmf_name: "Precipitation",
+      flow_type: "inflow",
+      confidence: "high",
+      matched_materials: ["rainwater"],
+      reason: "Rainwater falling on the roof is captured before it reaches the drains.",
+    },
+    {
+      bmf_name: "Stored water",
+      flow_type: "both",
+      confidence: "medium",
+      matched_materials: ["rainwater", "storage tank"],
+      reason: "Harvested rainwater is held on site and later used or released.",
+    },
+    {
+      bmf_name: "Solar radiation",
+      flow_type: "inflow",
+      confidence: "high",
+      matched_materials: ["photovoltaic panels"],
+      reason: "PV panels convert incident sunlight to electricity.",
+    },
+    {
+      bmf_name: "Non-ferrous metals",
+      flow_type: "inflow",
+      confidence: "low",
+      matched_materials: ["aluminium mounting rails"],
+      reason: "Mounting rails are usually extruded aluminium.",
+    },
+  ],
+  unmatched_materials: [],
+  ecosystem_connections: [
+    { bmf_name: "Vegetation biomass", ecosystem_service: "Habitat provision", relationship_type: "supports" },
+    { bmf_name: "Vegetation biomass", ecosystem_service: "Local climate regulation", relationship_type: "supports" },
+    { bmf_name: "Soil and substrate", ecosystem_service: "Water flow regulation", relationship_type: "supports" },
+    { bmf_name: "Precipitation", ecosystem_service: "Water flow regulation", relationship_type: "depends_on" },
+    { bmf_name: "Stored water", ecosystem_service: "Water supply", relationship_type: "provides" },
+    { bmf_name: "Engineered wood", ecosystem_service: "Global climate regulation", relationship_type: "stores_carbon" },
+    { bmf_name: "Solar radiation", ecosystem_service: "Renewable energy", relationship_type: "depends_on" },
+  ],
+  ecosystem_services: [
+    "Habitat provision",
+    "Local climate regulation",
+    "Water flow regulation",
+    "Water supply",
+    "Global climate regulation",
+    "Renewable energy",
+  ],
+  ecosystem_service_details: {
+    "Habitat provision": {
+      name: "Habitat provision",
+      description: "Living space for pollinators, invertebrates and birds.",
+      category: "Supporting",
+      supplementary_connections: [
+        { bmf_name: "Vegetation biomass", ecosystem_service: "Habitat provision", text: "Flowering sedum feeds pollinators." },
+      ],
+    },
+    "Local climate regulation": {
+      name: "Local climate regulation",
+      description: "Cooling through shading and evapotranspiration.",
+      category: "Regulating",
+      supplementary_connections: [],
+    },
+    "Water flow regulation": {
+      name: "Water flow regulation",
+      description: "Attenuating stormwater peaks and runoff volume.",
+      category: "Regulating",
+      supplementary_connections: [
+        { bmf_name: "Soil and substrate", ecosystem_service: "Water flow regulation", text: "Substrate retains a share of each storm." },
+      ],
+    },
+    "Water supply": {
+      name: "Water supply",
+      description: "Non-potable water for irrigation and toilet flushing.",
+      category: "Provisioning",
+      supplementary_connections: [],
+    },
+    "Global climate regulation": {
+      name: "Global climate regulation",
+      description: "Long-term storage of biogenic carbon.",
+      category: "Regulating",
+      supplementary_connections: [],
+    },
+    "Renewable energy": {
+      name: "Renewable energy",
+      description: "On-site electricity generation.",
+      category: "Provisioning",
+      supplementary_connections: [],
+    },
+  },
+  role_analyses: [
+    {
+      role_name: "Roof",
+      role_id: "roof",
+      materials_touched: ["sedum", "growing substrate", "root barrier membrane", "photovoltaic panels"],
+      description: "The roof carries the planting, the PV array and the first stage of rainwater capture.",
+    },
+    {
+      role_name: "Structure",
+      role_id: "structure",
+      materials_touched: ["cross-laminated timber"],
+      description: "CLT floors and walls carry the additional saturated roof load.",
+    },
+    {
+      role_name: "Water management",
+      role_id: "water_management",
+      materials_touched: ["rainwater", "storage tank"],
+      description: "Captured rainwater is stored below ground and pumped to WCs and irrigation.",
+    },
+  ],
+  processing_time_ms: 0,
+  cost_usd: 0.0412,
+};
+
+/**
+ * The recorded run as a sequence of stream events, with stage 2 split into
+ * `chunks` parallel chunks. Re-matches (`start_from_stage: 2`) skip extraction
+ * and report the curated materials instead.
+ */
+export function mapperFixtureEvents(inputs: Record<string, unknown>, { chunks, delayMs }: MockTiming): MockEvent[] {
+  const curated = Array.isArray(inputs.extracted_materials) && inputs.start_from_stage === 2
+    ? inputs.extracted_materials.filter((m): m is string => typeof m === "string")
+    : null;
+  const materials = curated ?? MAPPER_FIXTURE.extracted_materials;
+  const matched = MAPPER_FIXTURE.matched_bmfs.filter(b => b.matched_materials.some(m => materials.includes(m)));
+  const perChunk = Math.ceil(matched.length / chunks);
+
+  const events: MockEvent[] = [
+    ...(curated ? [] : [
+      { event_type: "stage1_start", message: "Extracting materials..." },
+      { event_type: "stage1_complete", extracted_materials: materials },
+    ]),
+    { event_type: "stage2_start", total_chunks: chunks },
+    ...Array.from({ length: chunks }, (_, i) => ({
+      event_type: "stage2_chunk_complete",
+      current_chunk: i + 1,
+      total_chunks: chunks,
+      matched_bmfs: matched.slice(i * perChunk, (i + 1) * perChunk),
+    })),
+    { event_type: "stage3_start" },
+    {
+      event_type: "stage3_complete",
+      ecosystem_connections: MAPPER_FIXTURE.ecosystem_connections,
+      ecosystem_services: MAPPER_FIXTURE.ecosystem_services,
+      ecosystem_service_details: MAPPER_FIXTURE.ecosystem_service_details,
+    },
+    { event_type: "stage4_start" },
+    { event_type: "stage4_tier1_complete" },
+    { event_type: "stage4_batch_complete", message: "Role batch 1/2 complete" },
+    { event_type: "stage4_batch_complete", message: "Role batch 2/2 complete" },
+    { event_type: "stage4_complete", role_analyses: MAPPER_FIXTURE.role_analyses },
+    { event_type: "complete" },
+  ];
+
+  // Timed as the mock sends them: one delay per event
+  const timed = events.map((event, i) => ({ ...event, elapsed_ms: (i + 1) * delayMs }));
+  const result: MockEvent = {
+    ...MAPPER_FIXTURE,
+    event_type: "result",
+    extracted_materials: materials,
+    matched_bmfs: matched,
+    unmatched_materials: materials.filter(m => !matched.some(b => b.matched_materials.includes(m))),
+    processing_time_ms: (timed.length + 1) * delayMs,
+  };
+  return [...timed, result];
+}
@@ -0,0 +1,152 @@
+import type { MapperResult } from "./types";
+
+/**
+ * Aggregating several Material Mapper results into a strategy × ecosystem
+ * service matrix, plus the row/column orderings used by the heatmap view.
+ */
+
+export interface HeatmapSource {
+  id: string;
+  label: string;
+  result: MapperResult;
+}
+
+export interface Heatmap {
+  rows: HeatmapSource[];
+  services: string[];
+  /** Service category, where the result provides one */
+  categories: Record<string, string>;
+  /** rowId -> service -> contributing BMF names */
+  cells: Map<string, Map<string, string[]>>;
+  /** Largest number of BMFs in a single cell */
+  max: number;
+}
+
+export type HeatmapRowOrder = "input" | "label" | "total" | "cluster";
+export type HeatmapColumnOrder = "label" | "total" | "category" | "cluster";
+
+/** Distinct BMFs connecting a result to each ecosystem service */
+export function flowsByService(result: MapperResult): Map<string, string[]> {
+  const sets = new Map<string, Set<string>>();
+  for (const c of result.ecosystem_connections) {
+    if (!sets.has(c.ecosystem_service)) sets.set(c.ecosystem_service, new Set());
+    sets.get(c.ecosystem_service)!.add(c.bmf_name);
+  }
+  return new Map([...sets].map(([service, bmfs]) => [service, [...bmfs].sort()]));
+}
+
+export function buildHeatmap(rows: HeatmapSource[]): Heatmap {
+  const cells = new Map<string, Map<string, string[]>>();
+  const categories: Record<string, string> = {};
+  const services = new Set<string>();
+  let max = 0;
+
+  for (const row of rows) {
+    const byService = flowsByService(row.result);
+    cells.set(row.id, byService);
+    for (const service of row.result.ecosystem_services) services.add(service);
+    for (const [service, bmfs] of byService) {
+      services.add(service);
+      max = Math.max(max, bmfs.length);
+    }
+    for (const [service, detail] of Object.entries(row.result.ecosystem_service_details)) {
+      if (detail.category && !categories[service]) categories[service] = detail.category;
+    }
+  }
+
+  return { rows, services: [...services].sort(), categories, cells, max };
+}
+
+export const cellCount = (heatmap: Heatmap, rowId: string, service: string) =>
+  heatmap.cells.get(rowId)?.get(service)?.length ?? 0;
+
+// --- Ordering ---
+
+const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);
+
+/** Cosine distance between two count vectors (1 when either is all zeros) */
+function cosineDistance(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) return 1;
+  return 1 - dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * Leaf order of an average-linkage agglomerative clustering, so that similar
+ * vectors end up next to each other. Returns indices into `vectors`.
+ */
+export function clusterOrder(vectors: number[][]): number[] {
+  if (vectors.length <= 2) return vectors.map((_, i) => i);
+
+  const distance = vectors.map(a => vectors.map(b => cosineDistance(a, b)));
+  // Each cluster keeps its members in leaf order
+  let clusters = vectors.map((_, i) => [i]);
+
+  const linkage = (x: number[], y: number[]) => {
+    let total = 0;
+    for (const i of x) for (const j of y) total += distance[i][j];
+    return total / (x.length * y.length);
+  };
+
+  while (clusters.length > 1) {
+    let best = { a: 0, b: 1, d: Infinity };
+    for (let a = 0; a < clusters.length; a++) {
+      for (let b = a + 1; b < clusters.length; b++) {
+        const d = linkage(clusters[a], clusters[b]);
+        if (d < best.d) best = { a, b, d };
+      }
+    }
+    // Join the closest ends of the two clusters
+    const x = clusters[best.a];
+    const y = clusters[best.b];
+    const xr = [...x].reverse();
+    const yr = [...y].reverse();
+    const candidates = [[x, y], [x, yr], [xr, y], [xr, yr]];
+    const seam = ([first, second]: number[][]) => distance[first[first.length - 1]][second[0]];
+    const [first, second] = candidates.reduce((bestPair, pair) => (seam(pair) < seam(bestPair) ? pair : bestPair));
+    clusters = clusters.filter((_, i) => i !== best.a && i !== best.b);
+    clusters.push([...first, ...second]);
+  }
+  return clusters[0];
+}
+
+export function orderRows(heatmap: Heatmap, order: HeatmapRowOrder): HeatmapSource[] {
+  const { rows, services } = heatmap;
+  const vector = (row: HeatmapSource) => services.map(s => cellCount(heatmap, row.id, s));
+
+  switch (order) {
+    case "input":
+      return rows;
+    case "label":
+      return [...rows].sort((a, b) => a.label.localeCompare(b.label));
+    case "total":
+      return [...rows].sort((a, b) => sum(vector(b)) - sum(vector(a)));
+    case "cluster":
+      return clusterOrder(rows.map(vector)).map(i => rows[i]);
+  }
+}
+
+export function orderColumns(heatmap: Heatmap, order: HeatmapColumnOrder): string[] {
+  const { rows, services, categories } = heatmap;
+  const vector = (service: string) => rows.map(r => cellCount(heatmap, r.id, service));
+
+  switch (order) {
+    case "label":
+      return services;
+    case "total":
+      return [...services].sort((a, b) => sum(vector(b)) - sum(vector(a)));
+    case "category":
+      return [...services].sort((a, b) =>
+        (categories[a] ?? "").localeCompare(categories[b] ?? "") || a.localeCompare(b)
+      );
+    case "cluster":
+      return clusterOrder(services.map(vector)).map(i => services[i]);
+  }
+}
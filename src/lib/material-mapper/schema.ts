@@ -0,0 +1,132 @@
+import {
+  Validator,
+  arrayOf,
+  number,
+  object,
+  oneOf,
+  optional,
+  recordOf,
+  string,
+  withDefault,
+} from "@/lib/validation";
+import { COMPONENT_KINDS } from "./builder";
+import type {
+  EcosystemConnection,
+  EcosystemServiceDetail,
+  MapperResult,
+  MatchedBMF,
+  MaterialEdit,
+  ResultAnnotations,
+  RoleAnalysis,
+  SupplementaryConnection,
+} from "./types";
+import type { MapperInputs } from "./client";
+
+/**
+ * Runtime validators for Material Mapper payloads. Optional collections default to
+ * empty so a partially populated payload still validates, matching how the UI
+ * has always treated missing fields.
+ */
+
+export const strings = withDefault(arrayOf(string), []);
+
+const CONFIDENCES = ["high", "medium", "low"] as const;
+
+// One odd confidence from the model shouldn't reject the whole result, so
+// anything unrecognised (or missing) counts as low
+const confidence: Validator<MatchedBMF["confidence"]> = (value) => {
+  const level = typeof value === "string" ? value.trim().toLowerCase() : value;
+  return CONFIDENCES.includes(level as MatchedBMF["confidence"]) ? (level as MatchedBMF["confidence"]) : "low";
+};
+
+export const matchedBmf: Validator<MatchedBMF> = object({
+  bmf_name: string,
+  flow_type: optional(oneOf(["inflow", "outflow", "both"] as const)),
+  confidence,
+  matched_materials: strings,
+  reason: withDefault(string, ""),
+});
+
+export const ecosystemConnection: Validator<EcosystemConnection> = object({
+  bmf_name: string,
+  ecosystem_service: string,
+  relationship_type: withDefault(string, ""),
+});
+
+export const supplementaryConnection: Validator<SupplementaryConnection> = object({
+  bmf_name: string,
+  ecosystem_service: string,
+  text: withDefault(string, ""),
+  direction: optional(string),
+});
+
+export const ecosystemServiceDetail: Validator<EcosystemServiceDetail> = object({
+  name: string,
+  description: withDefault(string, ""),
+  category: withDefault(string, ""),
+  supplementary_connections: withDefault(arrayOf(supplementaryConnection), []),
+});
+
+export const roleAnalysis: Validator<RoleAnalysis> = object({
+  role_name: string,
+  role_id: string,
+  materials_touched: strings,
+  description: withDefault(string, ""),
+});
+
+export const materialEdit: Validator<MaterialEdit> = object({
+  action: oneOf(["added", "removed", "renamed"] as const),
+  from: optional(string),
+  to: optional(string),
+  at: withDefault(string, ""),
+});
+
+export const resultAnnotations: Validator<ResultAnnotations> = object({
+  bmfs: withDefault(recordOf(object({
+    status: optional(oneOf(["accepted", "rejected"] as const)),
+    confidence: optional(oneOf(CONFIDENCES)),
+    note: optional(string),
+  })), {}),
+  roles: withDefault(recordOf(object({ note: optional(string) })), {}),
+  manual_connections: withDefault(arrayOf(ecosystemConnection), []),
+  updated_at: optional(string),
+});
+
+export const matchedBmfs = withDefault(arrayOf(matchedBmf), []);
+export const ecosystemConnections = withDefault(arrayOf(ecosystemConnection), []);
+export const ecosystemServiceDetails = withDefault(recordOf(ecosystemServiceDetail), {});
+export const roleAnalyses = withDefault(arrayOf(roleAnalysis), []);
+
+export const mapperResultFields = {
+  extracted_materials: strings,
+  matched_bmfs: matchedBmfs,
+  unmatched_materials: strings,
+  ecosystem_connections: ecosystemConnections,
+  ecosystem_services: strings,
+  ecosystem_service_details: ecosystemServiceDetails,
+  role_analyses: roleAnalyses,
+  processing_time_ms: withDefault(number, 0),
+  cost_usd: withDefault(number, 0),
+  material_edits: optional(arrayOf(materialEdit)),
+  annotations: optional(resultAnnotations),
+};
+
+export const mapperResult: Validator<MapperResult> = object(mapperResultFields);
+
+/** Inputs a run was started with, as recorded in the run history */
+export const mapperInputs: Validator<MapperInputs> = object({
+  strategy_description: string,
+  site_context: optional(object({
+    climate_zone: optional(string),
+    building_type: optional(string),
+    floor_area_m2: optional(number),
+  })),
+  components: optional(arrayOf(object({
+    type: oneOf(COMPONENT_KINDS),
+    materials: strings,
+    systems: strings,
+    notes: optional(string),
+  }))),
+  extracted_materials: optional(arrayOf(string)),
+  start_from_stage: optional(number),
+});
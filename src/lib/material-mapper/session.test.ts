@@ -0,0 +1,219 @@
+import { describe, expect, it } from "vitest";
+import {
+  draftDescription,
+  initialMapperSession,
+  mapperSessionReducer,
+  shownError,
+  shownSnapshot,
+  MapperAction,
+  MapperSession,
+} from "./session";
+import type { MapperEvent } from "./events";
+import type { MapperResult } from "./types";
+
+const result: MapperResult = {
+  extracted_materials: ["timber"],
+  matched_bmfs: [{ bmf_name: "Engineered wood", confidence: "high", matched_materials: ["timber"], reason: "" }],
+  unmatched_materials: [],
+  ecosystem_connections: [],
+  ecosystem_services: [],
+  ecosystem_service_details: {},
+  role_analyses: [],
+  processing_time_ms: 1200,
+  cost_usd: 0.01,
+};
+
+const reduce = (actions: MapperAction[], state: MapperSession = initialMapperSession()) =>
+  actions.reduce(mapperSessionReducer, state);
+
+const start = (runId = 1, strategy_description = "Green roof\nwith sedum"): MapperAction => ({
+  type: "start",
+  runId,
+  inputs: { strategy_description },
+  curation: null,
+});
+
+const event = (e: MapperEvent, runId = 1): MapperAction => ({ type: "event", runId, entry: { event: e, receivedMs: 0 } });
+
+describe("mapperSessionReducer", () => {
+  it("starts a run from a clean slate, keeping the draft", () => {
+    const before = reduce([
+      { type: "editDraft", draft: { strategy: "Green roof" } },
+      { type: "setError", error: "Failed to save project" },
+      { type: "saved", projectId: "p1" },
+    ]);
+    const state = reduce([start()], before);
+
+    expect(state.isLoading).toBe(true);
+    expect(state.error).toBeNull();
+    expect(state.savedProjectId).toBeNull();
+    expect(state.draft.strategy).toBe("Green roof");
+    expect(state.submittedStrategy).toBe("Green roof\nwith sedum");
+    expect(state.projectTitle).toBe("Green roof");
+    expect(state.run.progress.message).toBe("Connecting...");
+  });
+
+  it("folds events into the run and records them on the timeline", () => {
+    const state = reduce([
+      start(),
+      event({ event_type: "stage1_complete", extracted_materials: ["timber"] }),
+      event({ event_type: "result", ...result }),
+      { type: "finished", runId: 1 },
+    ]);
+
+    expect(state.timeline).toHaveLength(2);
+    expect(state.run.result?.matched_bmfs).toEqual(result.matched_bmfs);
+    expect(shownSnapshot(state).matched_bmfs).toEqual(result.matched_bmfs);
+    expect(state.isLoading).toBe(false);
+  });
+
+  it("shows the partial results while streaming", () => {
+    const state = reduce([start(), event({ event_type: "stage1_complete", extracted_materials: ["glass"] })]);
+    expect(shownSnapshot(state).extracted_materials).toEqual(["glass"]);
+  });
+
+  it("ignores actions from an earlier run", () => {
+    const state = reduce([
+      start(1),
+      start(2),
+      event({ event_type: "stage1_complete", extracted_materials: ["timber"] }, 1),
+      { type: "cancelled", runId: 1 },
+    ]);
+
+    expect(state.timeline).toEqual([]);
+    expect(state.isLoading).toBe(true);
+  });
+
+  it("clears the reconnect notice once the stream is back", () => {
+    const reconnecting = reduce([
+      start(),
+      event({ event_type: "stage2_start", total_chunks: 4 }),
+      { type: "retry", runId: 1, retry: { attempt: 1, maxAttempts: 5, delayMs: 2000 } },
+    ]);
+    expect(reconnecting.run.progress.reconnect).toEqual({ attempt: 1, maxAttempts: 5 });
+    expect(reconnecting.run.progress.message).toBe("Connection lost during flow matching, reconnecting in 2s...");
+
+    const resumed = reduce([event({ event_type: "stage2_chunk_complete", current_chunk: 1, total_chunks: 4, matched_bmfs: [] })], reconnecting);
+    expect(resumed.run.progress.reconnect).toBeUndefined();
+  });
+
+  it("stops for a restart when the stream cannot be resumed", () => {
+    const state = reduce([start(), event({ event_type: "stage1_start" }), { type: "restartRequired", runId: 1 }]);
+
+    expect(state.isLoading).toBe(false);
+    expect(state.run.progress.stage).toBe("interrupted");
+    expect(state.run.progress.message).toMatch(/^The stream was interrupted during material extraction.*Restart the analysis/);
+  });
+
+  it("keeps partial results when cancelled", () => {
+    const state = reduce([
+      start(),
+      event({ event_type: "stage1_complete", extracted_materials: ["timber"] }),
+      { type: "cancelled", runId: 1 },
+    ]);
+
+    expect(state.isLoading).toBe(false);
+    expect(state.run.progress.stage).toBe("cancelled");
+    expect(state.run.progress.message).toMatch(/^Analysis cancelled during material extraction/);
+    expect(state.run.snapshot.extracted_materials).toEqual(["timber"]);
+  });
+
+  it("prefers request errors over the agent's", () => {
+    const agentError = reduce([start(), event({ event_type: "error", error: "Neo4j is unavailable" })]);
+    expect(shownError(agentError)).toBe("Neo4j is unavailable");
+
+    const failed = reduce([{ type: "failed", runId: 1, error: "Network error" }], agentError);
+    expect(shownError(failed)).toBe("Network error");
+    expect(failed.run.progress).toEqual({ stage: "error", message: "Failed to connect" });
+  });
+
+  it("imports an exported result as a completed run", () => {
+    const state = reduce([
+      { type: "editDraft", draft: { inputMode: "builder" } },
+      {
+        type: "import",
+        data: { format: "ecoevo-studio/material-mapper-result", version: 1, exported_at: "", strategy: "Timber frame", result },
+      },
+    ]);
+
+    expect(state.draft).toMatchObject({ strategy: "Timber frame", inputMode: "text" });
+    expect(state.inputs).toEqual({ strategy_description: "Timber frame" });
+    expect(state.run.result).toBe(result);
+    expect(state.run.progress.stage).toBe("complete");
+    expect(state.projectTitle).toBe("Timber frame");
+  });
+
+  it("annotates the result only once there is one", () => {
+    const annotations = { bmfs: { "Engineered wood": { status: "accepted" as const } }, roles: {}, manual_connections: [] };
+    expect(reduce([start(), { type: "annotate", annotations }]).run.result).toBeNull();
+
+    const state = reduce([start(), event({ event_type: "result", ...result }), { type: "annotate", annotations }]);
+    expect(state.run.result?.annotations).toEqual(annotations);
+  });
+
+  it("makes the next run a version of the last one until the strategy is cleared", () => {
+    const recorded = reduce([start(), { type: "finished", runId: 1 }, { type: "recorded", runId: 1, historyId: "h1" }]);
+    expect(recorded.historyId).toBe("h1");
+
+    const edited = reduce([{ type: "editDraft", draft: { strategy: "Green roof v2" } }, start(2, "Green roof v2")], recorded);
+    expect(edited.runParentId).toBe("h1");
+    expect(edited.historyId).toBeNull();
+
+    const cleared = reduce([{ type: "editDraft", draft: { strategy: "" } }], recorded);
+    expect(cleared.draft.parentId).toBeNull();
+  });
+
+  it("doesn't make a repeat of the last run a new version of it", () => {
+    const recorded = reduce([start(), { type: "finished", runId: 1 }, { type: "recorded", runId: 1, historyId: "h1" }]);
+
+    const repeated = reduce([start(2, "  Green roof\nwith sedum "), { type: "finished", runId: 2 }], recorded);
+    expect(repeated.runParentId).toBeNull();
+
+    // Later edits stay versions of the run that was repeated
+    const afterRepeat = reduce([{ type: "recorded", runId: 2, historyId: "h2" }], repeated);
+    expect(afterRepeat.historyId).toBe("h2");
+    expect(afterRepeat.draft.parentId).toBe("h1");
+
+    const rerun = reduce([{ ...start(2), asVersion: true } as MapperAction], recorded);
+    expect(rerun.runParentId).toBe("h1");
+  });
+
+  it("opens and forks runs from the history", () => {
+    const entry = {
+      id: "h1",
+      userId: "user_1",
+      orgId: null,
+      strategy: "Timber frame",
+      inputs: { strategy_description: "Timber frame" },
+      status: "complete" as const,
+      counts: { materials: 1, flows: 1, services: 0, roles: 0 },
+      costUsd: 0.01,
+      error: null,
+      result,
+      parentId: null,
+      createdAt: "2026-01-01T00:00:00Z",
+    };
+
+    const opened = reduce([{ type: "open", run: entry }]);
+    expect(opened.run.result).toBe(result);
+    expect(opened.historyId).toBe("h1");
+    expect(opened.draft).toMatchObject({ strategy: "Timber frame", parentId: "h1" });
+
+    const forked = reduce([{ type: "fork", run: { ...entry, hasResult: true } }]);
+    expect(forked.draft).toMatchObject({ strategy: "Timber frame", inputMode: "text", parentId: "h1" });
+    expect(forked.run.result).toBeNull();
+  });
+
+  it("resets to a fresh session", () => {
+    const state = reduce([start(), { type: "reset" }]);
+    expect(state).toEqual(initialMapperSession());
+  });
+});
+
+describe("draftDescription", () => {
+  it("uses the free text or the serialized builder", () => {
+    const draft = initialMapperSession().draft;
+    expect(draftDescription({ ...draft, strategy: "Green roof" })).toBe("Green roof");
+    expect(draftDescription({ ...draft, strategy: "Green roof", inputMode: "builder" })).not.toBe("Green roof");
+  });
+});
@@ -0,0 +1,284 @@
+import { emptyStrategySpec, serializeStrategy, StrategySpec } from "./builder";
+import { reduceMapperEvent, startRun, MapperRunState, MaterialCuration } from "./stream";
+import { STAGE_LABELS } from "./types";
+import type { RetryInfo } from "@/lib/agents/client";
+import { sameInputs } from "@/lib/history/versions";
+import type { RunHistoryEntry, RunHistorySummary } from "@/lib/history/types";
+import type { InvalidMapperEvent, MapperInputs } from "./client";
+import type { MapperExport } from "./export";
+import type { TimelineEntry } from "./timeline";
+import type { MapperSnapshot, ResultAnnotations } from "./types";
+
+/**
+ * Everything the Material Mapper page shows, as one reducer: the strategy being
+ * edited, the run streaming in, and what happened to its result. It lives in
+ * the dashboard layout so a run keeps streaming while the user is elsewhere.
+ */
+
+/** The strategy as it is being written, before it is submitted */
+export interface MapperDraft {
+  strategy: string;
+  /** Free-text description, or the structured builder serialized into one */
+  inputMode: "text" | "builder";
+  spec: StrategySpec;
+  /**
+   * History entry the draft was edited from, and its inputs; the next run
+   * becomes its new version if the inputs were changed
+   */
+  parentId: string | null;
+  parentInputs: MapperInputs | null;
+}
+
+export interface MapperSession {
+  draft: MapperDraft;
+  /** Incremented per run; actions from an older run are ignored */
+  runId: number;
+  /** Inputs of the last run, reused when re-matching a curated material list */
+  inputs: MapperInputs | null;
+  /** Version the current run was edited from */
+  runParentId: string | null;
+  /** History entry of the current run, once recorded */
+  historyId: string | null;
+  run: MapperRunState;
+  isLoading: boolean;
+  /** Request, save and import errors; errors reported by the agent live on the run */
+  error: string | null;
+  invalidEvents: InvalidMapperEvent[];
+  /** Every event of the last run with its arrival time, for the timeline view */
+  timeline: TimelineEntry[];
+  submittedStrategy: string;
+  projectTitle: string;
+  savedProjectId: string | null;
+}
+
+/** Actions reporting on a run carry its id */
+type RunAction =
+  | { type: "event"; entry: TimelineEntry }
+  | { type: "retry"; retry: Pick<RetryInfo, "attempt" | "maxAttempts" | "delayMs"> }
+  | { type: "invalidEvent"; invalid: InvalidMapperEvent }
+  | { type: "finished" }
+  | { type: "cancelled" }
+  | { type: "interrupted"; attempts: number }
+  /** The stream dropped and could only be continued by running it again from the start */
+  | { type: "restartRequired" }
+  | { type: "failed"; error: string }
+  | { type: "recorded"; historyId: string };
+
+export type MapperAction =
+  | { type: "editDraft"; draft: Partial<MapperDraft> }
+  | {
+      type: "start";
+      runId: number;
+      inputs: MapperInputs;
+      curation: MaterialCuration | null;
+      /** Make the run a version of the draft's parent even if its inputs are unchanged */
+      asVersion?: boolean;
+    }
+  | (RunAction & { runId: number })
+  | { type: "import"; data: MapperExport }
+  /** Show a completed run from the history */
+  | { type: "open"; run: RunHistoryEntry }
+  /** Continue editing a run's strategy as its next version */
+  | { type: "fork"; run: RunHistorySummary }
+  | { type: "annotate"; annotations: ResultAnnotations }
+  | { type: "setTitle"; title: string }
+  | { type: "saved"; projectId: string }
+  | { type: "setError"; error: string | null }
+  | { type: "reset" };
+
+export const initialMapperSession = (): MapperSession => ({
+  draft: { strategy: "", inputMode: "text", spec: emptyStrategySpec(), parentId: null, parentInputs: null },
+  runId: 0,
+  inputs: null,
+  runParentId: null,
+  historyId: null,
+  run: { ...startRun(), progress: { stage: "idle", message: "" } },
+  isLoading: false,
+  error: null,
+  invalidEvents: [],
+  timeline: [],
+  submittedStrategy: "",
+  projectTitle: "",
+  savedProjectId: null,
+});
+
+/** The description a draft would submit */
+export const draftDescription = ({ strategy, inputMode, spec }: MapperDraft) =>
+  inputMode === "builder" ? serializeStrategy(spec) : strategy;
+
+export const defaultProjectTitle = (strategy: string) => strategy.trim().split("\n")[0].slice(0, 60);
+
+/** The final result once there is one, otherwise the partial results streamed so far */
+export const shownSnapshot = ({ run }: MapperSession): MapperSnapshot => run.result || run.snapshot;
+
+export const shownError = ({ error, run }: MapperSession) => error ?? run.error;
+
+// A new run (or an imported result) starts from a clean slate apart from the draft
+const freshResult = (state: MapperSession, strategy: string, title: string): MapperSession => ({
+  ...state,
+  error: null,
+  invalidEvents: [],
+  timeline: [],
+  savedProjectId: null,
+  submittedStrategy: strategy,
+  projectTitle: title,
+});
+
+function reduceRunAction(state: MapperSession, action: RunAction): MapperSession {
+  const { run } = state;
+  const withProgress = (progress: MapperRunState["progress"]) => ({ ...state, run: { ...run, progress } });
+
+  switch (action.type) {
+    case "event": {
+      // Any event after a reconnect means the stream is back
+      const resumed = run.progress.reconnect ? { ...run, progress: { ...run.progress, reconnect: undefined } } : run;
+      return {
+        ...state,
+        run: reduceMapperEvent(resumed, action.entry.event),
+        timeline: [...state.timeline, action.entry],
+      };
+    }
+
+    case "retry": {
+      const { attempt, maxAttempts, delayMs } = action.retry;
+      return withProgress({
+        ...run.progress,
+        message: `Connection lost during ${STAGE_LABELS[run.progress.stage]}, reconnecting in ${Math.round(delayMs / 1000)}s...`,
+        reconnect: { attempt, maxAttempts },
+      });
+    }
+
+    case "invalidEvent":
+      return { ...state, invalidEvents: [...state.invalidEvents, action.invalid] };
+
+    case "finished":
+      return { ...state, isLoading: false };
+
+    // Cancelled and interrupted runs keep whatever partial results were already received
+    case "cancelled":
+      return {
+        ...withProgress({
+          stage: "cancelled",
+          message: `Analysis cancelled during ${STAGE_LABELS[run.progress.stage]}. Partial results are shown below.`,
+        }),
+        isLoading: false,
+      };
+
+    case "interrupted":
+      return {
+        ...withProgress({
+          stage: "interrupted",
+          message: `The stream was interrupted during ${STAGE_LABELS[run.progress.stage]} and could not be resumed after ${action.attempts} attempts. Partial results are shown below.`,
+        }),
+        isLoading: false,
+      };
+
+    case "restartRequired":
+      return {
+        ...withProgress({
+          stage: "interrupted",
+          message: `The stream was interrupted during ${STAGE_LABELS[run.progress.stage]}, before there was anything to resume from. Restart the analysis to run it again from the beginning.`,
+        }),
+        isLoading: false,
+      };
+
+    case "failed":
+      return {
+        ...withProgress({ stage: "error", message: "Failed to connect" }),
+        error: action.error,
+        isLoading: false,
+      };
+
+    // Further edits to the strategy become versions of this run, unless it
+    // repeated its parent, which stays the one they are versions of
+    case "recorded":
+      if (!state.runParentId && state.draft.parentId) return { ...state, historyId: action.historyId };
+      return {
+        ...state,
+        historyId: action.historyId,
+        draft: { ...state.draft, parentId: action.historyId, parentInputs: state.inputs },
+      };
+  }
+}
+
+export function mapperSessionReducer(state: MapperSession, action: MapperAction): MapperSession {
+  switch (action.type) {
+    // Clearing the strategy starts over instead of editing the last run's
+    case "editDraft": {
+      const draft = { ...state.draft, ...action.draft };
+      return { ...state, draft: draftDescription(draft).trim() ? draft : { ...draft, parentId: null, parentInputs: null } };
+    }
+
+    // Running the parent's inputs again unchanged is not a new version
+    case "start": {
+      const strategy = action.inputs.strategy_description;
+      const { parentId, parentInputs } = state.draft;
+      const edited = !parentInputs || !sameInputs(parentInputs, action.inputs);
+      return {
+        ...freshResult(state, strategy, defaultProjectTitle(strategy)),
+        runId: action.runId,
+        inputs: action.inputs,
+        runParentId: edited || action.asVersion ? parentId : null,
+        historyId: null,
+        run: startRun(action.curation),
+        isLoading: true,
+      };
+    }
+
+    // Show an exported result exactly as a live run would, without calling the backend
+    case "import": {
+      const { strategy, title, result } = action.data;
+      return {
+        ...freshResult(state, strategy, title || defaultProjectTitle(strategy)),
+        draft: { ...state.draft, strategy, inputMode: "text", parentId: null, parentInputs: null },
+        inputs: { strategy_description: strategy },
+        historyId: null,
+        run: { ...startRun(), result, progress: { stage: "complete", message: "Imported result" } },
+      };
+    }
+
+    case "open": {
+      const { id, strategy, inputs, result } = action.run;
+      return {
+        ...freshResult(state, strategy, defaultProjectTitle(strategy)),
+        draft: { ...state.draft, strategy, inputMode: "text", parentId: id, parentInputs: inputs },
+        inputs,
+        historyId: id,
+        run: { ...startRun(), result, progress: { stage: "complete", message: "Opened from history" } },
+      };
+    }
+
+    case "fork":
+      return {
+        ...state,
+        draft: {
+          ...state.draft,
+          strategy: action.run.strategy,
+          inputMode: "text",
+          parentId: action.run.id,
+          parentInputs: action.run.inputs,
+        },
+      };
+
+    // Annotations live on the result
+    case "annotate": {
+      const { result } = state.run;
+      return result ? { ...state, run: { ...state.run, result: { ...result, annotations: action.annotations } } } : state;
+    }
+
+    case "setTitle":
+      return { ...state, projectTitle: action.title };
+
+    case "saved":
+      return { ...state, savedProjectId: action.projectId };
+
+    case "setError":
+      return { ...state, error: action.error };
+
+    case "reset":
+      return initialMapperSession();
+
+    default:
+      return action.runId === state.runId ? reduceRunAction(state, action) : state;
+  }
+}
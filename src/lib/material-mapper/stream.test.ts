@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+import { reduceMapperEvent, startRun, MapperRunState } from "./stream";
+import type { MapperEvent } from "./events";
+import type { MapperResult, MatchedBMF } from "./types";
+
+const bmf = (bmf_name: string, confidence: MatchedBMF["confidence"] = "high"): MatchedBMF => ({
+  bmf_name,
+  confidence,
+  matched_materials: [],
+  reason: "",
+});
+
+const result: MapperResult = {
+  extracted_materials: ["timber"],
+  matched_bmfs: [bmf("Engineered wood")],
+  unmatched_materials: [],
+  ecosystem_connections: [],
+  ecosystem_services: [],
+  ecosystem_service_details: {},
+  role_analyses: [],
+  processing_time_ms: 1200,
+  cost_usd: 0.01,
+};
+
+const reduce = (events: MapperEvent[], state: MapperRunState = startRun()) =>
+  events.reduce(reduceMapperEvent, state);
+
+describe("reduceMapperEvent", () => {
+  it("tracks stage progress with elapsed time", () => {
+    const state = reduce([
+      { event_type: "stage1_start", elapsed_ms: 10 },
+      { event_type: "stage1_complete", extracted_materials: ["timber", "glass"], elapsed_ms: 500 },
+    ]);
+    expect(state.progress).toEqual({ stage: "stage1", message: "Found 2 materials", elapsedMs: 500 });
+    expect(state.snapshot.extracted_materials).toEqual(["timber", "glass"]);
+  });
+
+  it("prefers the backend's message", () => {
+    const state = reduce([{ event_type: "stage3_start", message: "Querying Neo4j" }]);
+    expect(state.progress.message).toBe("Querying Neo4j");
+  });
+
+  describe("stage2_chunk_complete", () => {
+    it("appends matches across chunks and advances the chunk counter", () => {
+      const state = reduce([
+        { event_type: "stage2_start", total_chunks: 2 },
+        { event_type: "stage2_chunk_complete", current_chunk: 1, total_chunks: 2, matched_bmfs: [bmf("A")] },
+        { event_type: "stage2_chunk_complete", current_chunk: 2, total_chunks: 2, matched_bmfs: [bmf("B")] },
+      ]);
+      expect(state.snapshot.matched_bmfs.map(b => b.bmf_name)).toEqual(["A", "B"]);
+      expect(state.progress).toMatchObject({ stage: "stage2", currentChunk: 2, totalChunks: 2 });
+    });
+
+    it("deduplicates by bmf_name, keeping the first match", () => {
+      const state = reduce([
+        { event_type: "stage2_chunk_complete", current_chunk: 1, matched_bmfs: [bmf("A", "high"), bmf("B")] },
+        { event_type: "stage2_chunk_complete", current_chunk: 2, matched_bmfs: [bmf("A", "low"), bmf("C")] },
+      ]);
+      expect(state.snapshot.matched_bmfs.map(b => b.bmf_name)).toEqual(["A", "B", "C"]);
+      expect(state.snapshot.matched_bmfs[0].confidence).toBe("high");
+    });
+
+    it("keeps the snapshot when a chunk adds nothing new", () => {
+      const before = reduce([{ event_type: "stage2_chunk_complete", matched_bmfs: [bmf("A")] }]);
+      const after = reduceMapperEvent(before, { event_type: "stage2_chunk_complete", matched_bmfs: [bmf("A")] });
+      expect(after.snapshot).toBe(before.snapshot);
+    });
+  });
+
+  describe("result", () => {
+    it("overrides the streamed snapshot with the final result", () => {
+      const state = reduce([
+        { event_type: "stage2_chunk_complete", matched_bmfs: [bmf("Streamed only")] },
+        { event_type: "result", ...result },
+      ]);
+      expect(state.result).toEqual(result);
+      expect(state.result?.matched_bmfs.map(b => b.bmf_name)).toEqual(["Engineered wood"]);
+      expect(state.progress).toEqual({ stage: "complete", message: "Analysis complete" });
+    });
+
+    it("records manual material edits on a re-match", () => {
+      const edits = [{ action: "added" as const, to: "timber", at: "2026-01-01T00:00:00.000Z" }];
+      const state = reduce(
+        [{ event_type: "result", ...result, extracted_materials: [] }],
+        startRun({ materials: ["timber"], edits })
+      );
+      expect(state.result?.extracted_materials).toEqual(["timber"]);
+      expect(state.result?.material_edits).toEqual(edits);
+    });
+
+    it("drops the curation when the backend re-extracted different materials", () => {
+      const edits = [{ action: "removed" as const, from: "glass", at: "2026-01-01T00:00:00.000Z" }];
+      const state = reduce(
+        [
+          { event_type: "stage1_complete", extracted_materials: ["timber", "glass"] },
+          { event_type: "result", ...result },
+        ],
+        startRun({ materials: ["timber"], edits })
+      );
+      expect(state.curationNotice).toMatch(/re-ran extraction/);
+      expect(state.result?.material_edits).toBeUndefined();
+    });
+  });
+
+  describe("error", () => {
+    it("records the agent's error and moves to the error stage", () => {
+      const state = reduce([
+        { event_type: "stage1_start" },
+        { event_type: "error", error: "Model overloaded" },
+      ]);
+      expect(state.error).toBe("Model overloaded");
+      expect(state.progress).toEqual({ stage: "error", message: "Error occurred" });
+      expect(state.result).toBeNull();
+    });
+
+    it("keeps partial results received before the error", () => {
+      const state = reduce([
+        { event_type: "stage1_complete", extracted_materials: ["timber"] },
+        { event_type: "error", error: "boom", message: "Stage 2 failed" },
+      ]);
+      expect(state.snapshot.extracted_materials).toEqual(["timber"]);
+      expect(state.progress.message).toBe("Stage 2 failed");
+    });
+  });
+});
@@ -0,0 +1,188 @@
+import { toMapperResult, MapperEvent } from "./events";
+import type { MapperResult, MapperSnapshot, MaterialEdit, ProgressState } from "./types";
+
+/**
+ * Pure state for a Material Mapper run as its stream arrives: progress, the
+ * partial results shown while streaming, and the final result. The mapper
+ * session (./session.ts) folds every validated event through `reduceMapperEvent`.
+ */
+
+/** A curated material list being re-matched, with the edits behind it */
+export interface MaterialCuration {
+  materials: string[];
+  edits: MaterialEdit[];
+}
+
+export interface MapperRunState {
+  progress: ProgressState;
+  /** Partial results, filled in stage by stage */
+  snapshot: MapperSnapshot;
+  /** Set by the final `result` event, replacing the snapshot */
+  result: MapperResult | null;
+  /** Error reported by the agent */
+  error: string | null;
+  curation: MaterialCuration | null;
+  /** Set when a re-match fell back to a full run and the curation was dropped */
+  curationNotice: string | null;
+}
+
+export const EMPTY_SNAPSHOT: MapperSnapshot = {
+  extracted_materials: [],
+  matched_bmfs: [],
+  ecosystem_connections: [],
+  ecosystem_services: [],
+  ecosystem_service_details: {},
+  role_analyses: [],
+};
+
+/** State for a run that is about to connect; re-matches start from the curated list */
+export function startRun(curation: MaterialCuration | null = null): MapperRunState {
+  return {
+    progress: { stage: "idle", message: "Connecting..." },
+    snapshot: { ...EMPTY_SNAPSHOT, extracted_materials: curation?.materials ?? [] },
+    result: null,
+    error: null,
+    curation,
+    curationNotice: null,
+  };
+}
+
+const sameMaterials = (a: string[], b: string[]) =>
+  a.length === b.length && a.every(m => b.includes(m));
+
+export function reduceMapperEvent(state: MapperRunState, event: MapperEvent): MapperRunState {
+  const message = event.message || "";
+  const elapsedMs = event.elapsed_ms;
+  const snapshot = state.snapshot;
+
+  switch (event.event_type) {
+    case "stage1_start":
+      return {
+        ...state,
+        progress: { stage: "stage1", message: message || "Analyzing strategy...", elapsedMs },
+      };
+
+    case "stage1_complete": {
+      // Backends without stage 2 replay extract again instead of using the curated list
+      const curated = state.curation?.materials;
+      const fellBack = curated !== undefined && !sameMaterials(curated, event.extracted_materials);
+      return {
+        ...state,
+        ...(fellBack && {
+          curation: null,
+          curationNotice:
+            "The backend re-ran extraction instead of using the curated materials, so the manual edits were not applied.",
+        }),
+        snapshot: { ...snapshot, extracted_materials: event.extracted_materials },
+        progress: {
+          stage: "stage1",
+          message: message || `Found ${event.extracted_materials.length} materials`,
+          elapsedMs,
+        },
+      };
+    }
+
+    case "stage2_start":
+      // All chunks start running in parallel immediately
+      return {
+        ...state,
+        progress: {
+          stage: "stage2",
+          message: message || "Matching to BMF database (parallel)...",
+          totalChunks: event.total_chunks,
+          currentChunk: 0,
+          elapsedMs,
+        },
+      };
+
+    case "stage2_chunk_complete": {
+      // Add new matches incrementally, deduplicated by bmf_name
+      const existingNames = new Set(snapshot.matched_bmfs.map(b => b.bmf_name));
+      const newBmfs = event.matched_bmfs.filter(b => !existingNames.has(b.bmf_name));
+      return {
+        ...state,
+        snapshot: newBmfs.length > 0 ? { ...snapshot, matched_bmfs: [...snapshot.matched_bmfs, ...newBmfs] } : snapshot,
+        progress: {
+          ...state.progress,
+          currentChunk: event.current_chunk,
+          message: message || `Chunk ${event.current_chunk}/${event.total_chunks} complete`,
+          elapsedMs,
+        },
+      };
+    }
+
+    case "stage3_start":
+      return {
+        ...state,
+        progress: { stage: "stage3", message: message || "Fetching ecosystem service connections...", elapsedMs },
+      };
+
+    case "stage3_complete":
+      return {
+        ...state,
+        snapshot: {
+          ...snapshot,
+          ecosystem_connections: event.ecosystem_connections,
+          ecosystem_services: event.ecosystem_services,
+          ecosystem_service_details: event.ecosystem_service_details,
+        },
+        progress: {
+          stage: "stage3",
+          message: message || `Found ${event.ecosystem_services.length} ecosystem services`,
+          elapsedMs,
+        },
+      };
+
+    case "stage4_start":
+      return {
+        ...state,
+        progress: { stage: "stage4", message: message || "Analyzing building roles...", elapsedMs },
+      };
+
+    case "stage4_tier1_complete":
+      return {
+        ...state,
+        progress: { stage: "stage4", message: message || "Filtered roles, analyzing in detail...", elapsedMs },
+      };
+
+    case "stage4_batch_complete":
+      return {
+        ...state,
+        progress: { stage: "stage4", message: message || "Processing role batches...", elapsedMs },
+      };
+
+    case "stage4_complete":
+      return {
+        ...state,
+        snapshot: { ...snapshot, role_analyses: event.role_analyses },
+        progress: {
+          stage: "stage4",
+          message: message || `Analyzed ${event.role_analyses.length} building roles`,
+          elapsedMs,
+        },
+      };
+
+    case "complete":
+      return { ...state, progress: { stage: "complete", message: message || "Complete!", elapsedMs } };
+
+    case "result": {
+      // Final result replaces the snapshot, recording any manual material edits
+      const final = toMapperResult(event);
+      const curation = state.curation;
+      return {
+        ...state,
+        result: curation
+          ? {
+              ...final,
+              extracted_materials: final.extracted_materials.length > 0 ? final.extracted_materials : curation.materials,
+              material_edits: curation.edits,
+            }
+          : final,
+        progress: { stage: "complete", message: "Analysis complete" },
+      };
+    }
+
+    case "error":
+      return { ...state, error: event.error, progress: { stage: "error", message: message || "Error occurred" } };
+  }
+}
@@ -0,0 +1,77 @@
+import { stageOfEvent } from "./batch";
+import type { MapperEvent } from "./events";
+
+/**
+ * Run timelines: every stream event with the time it happened, folded into
+ * per-stage spans for the waterfall view and the usage log's stage latency.
+ */
+
+/** The four agent stages, in pipeline order */
+export type PipelineStage = "stage1" | "stage2" | "stage3" | "stage4";
+
+export const PIPELINE_STAGES: PipelineStage[] = ["stage1", "stage2", "stage3", "stage4"];
+
+/** A stream event as recorded during a run */
+export interface TimelineEntry {
+  event: MapperEvent;
+  /** Milliseconds after the client connected that the event arrived */
+  receivedMs: number;
+}
+
+/** First and last time seen for each stage of a run */
+export type StageTimings = Partial<Record<PipelineStage, { start: number; end: number }>>;
+
+export function isPipelineStage(stage: string | null): stage is PipelineStage {
+  return PIPELINE_STAGES.includes(stage as PipelineStage);
+}
+
+/**
+ * Fold a stream event into the run's stage timings, timed by its `elapsed_ms`
+ * unless another time is given.
+ */
+export function recordStageTiming(
+  timings: StageTimings,
+  event: MapperEvent,
+  atMs: number | undefined = event.elapsed_ms
+): StageTimings {
+  const stage = stageOfEvent(event);
+  if (!isPipelineStage(stage) || atMs === undefined) return timings;
+  const seen = timings[stage];
+  return { ...timings, [stage]: seen ? { start: seen.start, end: atMs } : { start: atMs, end: atMs } };
+}
+
+/**
+ * Start and end of each stage. A stage that only reported its start (e.g.
+ * stage 2 with a single chunk) runs until the next stage starts.
+ */
+export function stageSpans(timings: StageTimings): StageTimings {
+  const spans: StageTimings = {};
+  PIPELINE_STAGES.forEach((stage, i) => {
+    const timing = timings[stage];
+    if (!timing) return;
+    const next = PIPELINE_STAGES.slice(i + 1).map(s => timings[s]?.start).find(s => s !== undefined);
+    const end = timing.end > timing.start ? timing.end : next;
+    if (end !== undefined) spans[stage] = { start: timing.start, end: Math.max(timing.start, end) };
+  });
+  return spans;
+}
+
+/** When an entry happened: the backend's `elapsed_ms`, or its arrival time */
+export const entryTime = (entry: TimelineEntry) => entry.event.elapsed_ms ?? entry.receivedMs;
+
+export interface RunTimeline {
+  spans: StageTimings;
+  /** End of the last recorded event */
+  totalMs: number;
+}
+
+export function buildTimeline(entries: TimelineEntry[]): RunTimeline {
+  const timings = entries.reduce<StageTimings>(
+    (acc, entry) => recordStageTiming(acc, entry.event, entryTime(entry)),
+    {}
+  );
+  return {
+    spans: stageSpans(timings),
+    totalMs: Math.max(0, ...entries.map(entryTime)),
+  };
+}
@@ -0,0 +1,139 @@
+/**
+ * Shared types for the Material Mapper agent.
+ *
+ * These mirror the payloads returned by the `agents.ecoservices.material_mapper`
+ * backend agent and are used by the mapper page, saved projects and exports.
+ */
+
+export interface MatchedBMF {
+  bmf_name: string;
+  flow_type?: "inflow" | "outflow" | "both";
+  confidence: "high" | "medium" | "low";
+  matched_materials: string[];
+  reason: string;
+}
+
+export interface EcosystemConnection {
+  bmf_name: string;
+  ecosystem_service: string;
+  relationship_type: string;
+}
+
+export interface SupplementaryConnection {
+  bmf_name: string;
+  ecosystem_service: string;
+  text: string;
+  direction?: string;
+}
+
+export interface EcosystemServiceDetail {
+  name: string;
+  description: string;
+  category: string;
+  supplementary_connections: SupplementaryConnection[];
+}
+
+export interface RoleAnalysis {
+  role_name: string;
+  role_id: string;
+  materials_touched: string[];
+  description: string;
+}
+
+/** A manual correction to the extracted materials, kept with the result */
+export interface MaterialEdit {
+  action: "added" | "removed" | "renamed";
+  /** Material as extracted (removed, renamed) */
+  from?: string;
+  /** Material as curated (added, renamed) */
+  to?: string;
+  /** ISO timestamp */
+  at: string;
+}
+
+export type ReviewStatus = "accepted" | "rejected";
+
+/** A reviewer's verdict on a matched flow; unset fields keep the agent's output */
+export interface BmfAnnotation {
+  status?: ReviewStatus;
+  /** Overrides the agent's confidence */
+  confidence?: MatchedBMF["confidence"];
+  note?: string;
+}
+
+export interface RoleAnnotation {
+  note?: string;
+}
+
+/** Reviewer annotations and overrides, kept with the result they apply to */
+export interface ResultAnnotations {
+  /** Keyed by `bmf_name` */
+  bmfs: Record<string, BmfAnnotation>;
+  /** Keyed by `role_id` */
+  roles: Record<string, RoleAnnotation>;
+  /** BMF ↔ ecosystem service links added by hand */
+  manual_connections: EcosystemConnection[];
+  /** ISO timestamp of the last change */
+  updated_at?: string;
+}
+
+export interface MapperResult {
+  extracted_materials: string[];
+  matched_bmfs: MatchedBMF[];
+  unmatched_materials: string[];
+  ecosystem_connections: EcosystemConnection[];
+  ecosystem_services: string[];
+  ecosystem_service_details: Record<string, EcosystemServiceDetail>;
+  role_analyses: RoleAnalysis[];
+  processing_time_ms: number;
+  cost_usd: number;
+  /** Manual material edits this result was re-matched with */
+  material_edits?: MaterialEdit[];
+  /** Reviewer annotations and overrides */
+  annotations?: ResultAnnotations;
+}
+
+/** The parts of a result that can be displayed while a run is still streaming */
+export type MapperSnapshot = Pick<
+  MapperResult,
+  | "extracted_materials"
+  | "matched_bmfs"
+  | "ecosystem_connections"
+  | "ecosystem_services"
+  | "ecosystem_service_details"
+  | "role_analyses"
+>;
+
+export interface ProgressState {
+  stage:
+    | "idle"
+    | "stage1"
+    | "stage2"
+    | "stage3"
+    | "stage4"
+    | "complete"
+    | "error"
+    | "cancelled"
+    | "interrupted";
+  message: string;
+  currentChunk?: number;
+  totalChunks?: number;
+  elapsedMs?: number;
+  /** Set while the client is waiting to reconnect a dropped stream */
+  reconnect?: {
+    attempt: number;
+    maxAttempts: number;
+  };
+}
+
+export const STAGE_LABELS: Record<ProgressState["stage"], string> = {
+  idle: "startup",
+  stage1: "material extraction",
+  stage2: "flow matching",
+  stage3: "ecosystem service lookup",
+  stage4: "role analysis",
+  complete: "completion",
+  error: "error",
+  cancelled: "cancellation",
+  interrupted: "interruption",
+};
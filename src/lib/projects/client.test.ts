@@ -0,0 +1,56 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { saveAnnotations } from "./client";
+import type { ResultAnnotations } from "@/lib/material-mapper/types";
+
+const annotations = (note: string): ResultAnnotations => ({
+  bmfs: { "Engineered wood": { note } },
+  roles: {},
+  manual_connections: [],
+});
+
+/** Each PATCH stays in flight until `respond` is called */
+function mockApi() {
+  const saved: ResultAnnotations[] = [];
+  const responses: ((response: Response) => void)[] = [];
+  vi.stubGlobal("fetch", vi.fn((_path: string, init: RequestInit) => {
+    saved.push(JSON.parse(String(init.body)).annotations);
+    return new Promise<Response>(resolve => responses.push(resolve));
+  }));
+  const respond = async (status = 200) => {
+    responses.shift()?.(Response.json(status === 200 ? { project: {} } : { error: "Forbidden" }, { status }));
+    await new Promise(resolve => setTimeout(resolve, 0));
+  };
+  return { saved, respond };
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("saveAnnotations", () => {
+  it("saves one at a time, coalescing edits made meanwhile into the latest", async () => {
+    const { saved, respond } = mockApi();
+    const first = saveAnnotations("p1", annotations("a"));
+    saveAnnotations("p1", annotations("ab"));
+    const last = saveAnnotations("p1", annotations("abc"));
+
+    expect(saved).toHaveLength(1);
+    await respond();
+    expect(saved).toEqual([annotations("a"), annotations("abc")]);
+    await respond();
+    await expect(Promise.all([first, last])).resolves.toBeDefined();
+  });
+
+  it("only reports a failure the latest save didn't recover from", async () => {
+    const { respond } = mockApi();
+    const first = saveAnnotations("p1", annotations("a"));
+    saveAnnotations("p1", annotations("ab"));
+    await respond(403);
+    await respond();
+    await expect(first).resolves.toBeUndefined();
+
+    const failed = expect(saveAnnotations("p1", annotations("abc"))).rejects.toThrow("Forbidden");
+    await respond(403);
+    await failed;
+  });
+});
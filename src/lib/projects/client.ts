@@ -0,0 +1,110 @@
+import type { CreateProjectInput, Project, ProjectSummary, UpdateProjectInput } from "./types";
+import type { CreateShareInput, ShareLink, UpdateShareInput } from "@/lib/shares/types";
+import type { ResultAnnotations } from "@/lib/material-mapper/types";
+import { requestJson as request } from "@/lib/http";
+
+/**
+ * Browser client for the `/api/projects` routes.
+ */
+
+export async function fetchProjects(): Promise<ProjectSummary[]> {
+  const { projects } = await request<{ projects: ProjectSummary[] }>("/api/projects");
+  return projects;
+}
+
+export async function fetchProject(id: string): Promise<Project> {
+  const { project } = await request<{ project: Project }>(`/api/projects/${id}`);
+  return project;
+}
+
+export async function saveProject(input: CreateProjectInput): Promise<Project> {
+  const { project } = await request<{ project: Project }>("/api/projects", {
+    method: "POST",
+    body: JSON.stringify(input),
+  });
+  return project;
+}
+
+export async function patchProject(id: string, patch: UpdateProjectInput): Promise<Project> {
+  const { project } = await request<{ project: Project }>(`/api/projects/${id}`, {
+    method: "PATCH",
+    body: JSON.stringify(patch),
+  });
+  return project;
+}
+
+// Per project: the newest annotations waiting for the save in flight to finish
+const annotationSaves = new Map<string, { pending: ResultAnnotations | null; done: Promise<void> }>();
+
+/**
+ * Save a project's annotations. Saves go out one at a time per project, and
+ * edits made while one is in flight are coalesced into a single save of the
+ * latest annotations, so an older snapshot can never be the one stored.
+ * Resolves once the annotations passed in (or newer ones) are saved.
+ */
+export function saveAnnotations(id: string, annotations: ResultAnnotations): Promise<void> {
+  const inFlight = annotationSaves.get(id);
+  if (inFlight) {
+    inFlight.pending = annotations;
+    return inFlight.done;
+  }
+
+  const save: { pending: ResultAnnotations | null; done: Promise<void> } = { pending: annotations, done: Promise.resolve() };
+  save.done = (async () => {
+    let error: unknown = null;
+    try {
+      while (save.pending) {
+        const next = save.pending;
+        save.pending = null;
+        // Only the outcome of the latest save matters
+        error = await patchProject(id, { annotations: next }).then(() => null, (err: unknown) => err);
+      }
+    } finally {
+      annotationSaves.delete(id);
+    }
+    if (error) throw error;
+  })();
+  annotationSaves.set(id, save);
+  return save.done;
+}
+
+export async function copyProject(id: string): Promise<Project> {
+  const { project } = await request<{ project: Project }>(`/api/projects/${id}/duplicate`, {
+    method: "POST",
+  });
+  return project;
+}
+
+export async function removeProject(id: string): Promise<void> {
+  await request<void>(`/api/projects/${id}`, { method: "DELETE" });
+}
+
+// --- Share links ---
+
+export async function fetchShares(projectId: string): Promise<ShareLink[]> {
+  const { shares } = await request<{ shares: ShareLink[] }>(`/api/projects/${projectId}/shares`);
+  return shares;
+}
+
+export async function createShareLink(projectId: string, input: CreateShareInput): Promise<ShareLink> {
+  const { share } = await request<{ share: ShareLink }>(`/api/projects/${projectId}/shares`, {
+    method: "POST",
+    body: JSON.stringify(input),
+  });
+  return share;
+}
+
+export async function patchShareLink(projectId: string, token: string, patch: UpdateShareInput): Promise<ShareLink> {
+  const { share } = await request<{ share: ShareLink }>(`/api/projects/${projectId}/shares/${token}`, {
+    method: "PATCH",
+    body: JSON.stringify(patch),
+  });
+  return share;
+}
+
+export async function revokeShareLink(projectId: string, token: string): Promise<ShareLink> {
+  const { share } = await request<{ share: ShareLink }>(`/api/projects/${projectId}/shares/${token}`, {
+    method: "DELETE",
+  });
+  return share;
+}
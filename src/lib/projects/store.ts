@@ -0,0 +1,99 @@
+import { getCollection, newId } from "@/lib/server/storage";
+import { Workspace, assertCan } from "@/lib/auth/workspace";
+import type { CreateProjectInput, Project, ProjectSummary, UpdateProjectInput } from "./types";
+
+/**
+ * Server-side project store. All operations are scoped to a workspace: an
+ * organization's projects are only visible inside that organization, and
+ * personal projects only to their owner outside of any organization. Writes
+ * also check the workspace role and throw `ForbiddenError` when it falls short.
+ */
+
+const projects = () => getCollection<Project>("projects");
+
+// Projects saved before workspaces existed have no orgId and stay personal
+function inWorkspace(project: Project, workspace: Workspace): boolean {
+  return workspace.orgId
+    ? project.orgId === workspace.orgId
+    : !project.orgId && project.ownerId === workspace.userId;
+}
+
+export function summarizeProject({ result, ...rest }: Project): ProjectSummary {
+  return {
+    ...rest,
+    counts: {
+      materials: result.extracted_materials.length,
+      flows: result.matched_bmfs.length,
+      services: result.ecosystem_services.length,
+      roles: result.role_analyses.length,
+    },
+  };
+}
+
+export async function listProjects(workspace: Workspace): Promise<ProjectSummary[]> {
+  const all = await projects().list();
+  return all
+    .filter(p => inWorkspace(p, workspace))
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+    .map(summarizeProject);
+}
+
+export async function getProject(workspace: Workspace, id: string): Promise<Project | null> {
+  const project = await projects().get(id);
+  if (!project || !inWorkspace(project, workspace)) return null;
+  return project;
+}
+
+export async function createProject(workspace: Workspace, input: CreateProjectInput): Promise<Project> {
+  assertCan(workspace, "editProjects");
+  const now = new Date().toISOString();
+  const project: Project = {
+    id: newId(),
+    ownerId: workspace.userId,
+    orgId: workspace.orgId,
+    title: input.title,
+    strategy: input.strategy,
+    result: input.result,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await projects().put(project.id, project);
+  return project;
+}
+
+export async function updateProject(
+  workspace: Workspace,
+  id: string,
+  patch: UpdateProjectInput
+): Promise<Project | null> {
+  const project = await getProject(workspace, id);
+  if (!project) return null;
+  assertCan(workspace, "editProjects");
+
+  const updated: Project = {
+    ...project,
+    ...(patch.title !== undefined && { title: patch.title }),
+    ...(patch.annotations !== undefined && { result: { ...project.result, annotations: patch.annotations } }),
+    updatedAt: new Date().toISOString(),
+  };
+  await projects().put(id, updated);
+  return updated;
+}
+
+export async function duplicateProject(workspace: Workspace, id: string): Promise<Project | null> {
+  const project = await getProject(workspace, id);
+  if (!project) return null;
+
+  return createProject(workspace, {
+    title: `${project.title} (copy)`,
+    strategy: project.strategy,
+    result: project.result,
+  });
+}
+
+export async function deleteProject(workspace: Workspace, id: string): Promise<boolean> {
+  const project = await getProject(workspace, id);
+  if (!project) return false;
+  assertCan(workspace, "deleteProjects");
+  return projects().delete(id);
+}
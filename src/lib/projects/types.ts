@@ -0,0 +1,39 @@
+import type { MapperResult, ResultAnnotations } from "@/lib/material-mapper/types";
+
+/** A saved Material Mapper run */
+export interface Project {
+  id: string;
+  /** User id of the creator */
+  ownerId: string;
+  /** Clerk organization the project belongs to, or null for a personal project */
+  orgId: string | null;
+  title: string;
+  /** The original strategy description that was analyzed */
+  strategy: string;
+  result: MapperResult;
+  /** ISO timestamps */
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Project without its (potentially large) result, used for listings */
+export interface ProjectSummary extends Omit<Project, "result"> {
+  counts: {
+    materials: number;
+    flows: number;
+    services: number;
+    roles: number;
+  };
+}
+
+export interface CreateProjectInput {
+  title: string;
+  strategy: string;
+  result: MapperResult;
+}
+
+export interface UpdateProjectInput {
+  title?: string;
+  /** Replaces the reviewer annotations on the saved result */
+  annotations?: ResultAnnotations;
+}
@@ -0,0 +1,118 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+/**
+ * Minimal document storage used by the server-side stores (projects, shares, ...).
+ *
+ * The backend is pluggable and selected with the `STORAGE_BACKEND` env var:
+ * - "file" (default): one JSON file per document under `STORAGE_DIR` (default `.data`)
+ * - "memory": process-local, lost on restart (useful for previews and tests)
+ */
+
+export interface Collection<T> {
+  list(): Promise<T[]>;
+  get(id: string): Promise<T | null>;
+  put(id: string, doc: T): Promise<void>;
+  delete(id: string): Promise<boolean>;
+}
+
+export type StorageBackend = "file" | "memory";
+
+// Ids end up in file names, so only allow a conservative character set
+const SAFE_ID = /^[A-Za-z0-9_-]+$/;
+
+function assertSafeId(id: string) {
+  if (!SAFE_ID.test(id)) {
+    throw new Error(`Invalid document id: ${id}`);
+  }
+}
+
+export function createMemoryCollection<T>(): Collection<T> {
+  const docs = new Map<string, T>();
+  return {
+    async list() {
+      return [...docs.values()];
+    },
+    async get(id) {
+      return docs.get(id) ?? null;
+    },
+    async put(id, doc) {
+      docs.set(id, doc);
+    },
+    async delete(id) {
+      return docs.delete(id);
+    },
+  };
+}
+
+export function createFileCollection<T>(dir: string): Collection<T> {
+  const fileFor = (id: string) => {
+    assertSafeId(id);
+    return path.join(dir, `${id}.json`);
+  };
+
+  return {
+    async list() {
+      let files: string[];
+      try {
+        files = await fs.readdir(dir);
+      } catch {
+        return [];
+      }
+      const docs = await Promise.all(
+        files
+          .filter(f => f.endsWith(".json"))
+          .map(f => fs.readFile(path.join(dir, f), "utf8").then(raw => JSON.parse(raw) as T))
+      );
+      return docs;
+    },
+    async get(id) {
+      if (!SAFE_ID.test(id)) return null;
+      try {
+        const raw = await fs.readFile(fileFor(id), "utf8");
+        return JSON.parse(raw) as T;
+      } catch {
+        return null;
+      }
+    },
+    async put(id, doc) {
+      await fs.mkdir(dir, { recursive: true });
+      // Write to a temp file first so readers never see a half-written document
+      const target = fileFor(id);
+      const tmp = `${target}.${process.pid}.tmp`;
+      await fs.writeFile(tmp, JSON.stringify(doc), "utf8");
+      await fs.rename(tmp, target);
+    },
+    async delete(id) {
+      if (!SAFE_ID.test(id)) return false;
+      try {
+        await fs.unlink(fileFor(id));
+        return true;
+      } catch {
+        return false;
+      }
+    },
+  };
+}
+
+// Collections are cached per process so the memory backend keeps its contents
+const collections = new Map<string, Collection<unknown>>();
+
+export function getCollection<T>(name: string): Collection<T> {
+  const existing = collections.get(name);
+  if (existing) return existing as Collection<T>;
+
+  const backend = (process.env.STORAGE_BACKEND || "file") as StorageBackend;
+  const collection =
+    backend === "memory"
+      ? createMemoryCollection<T>()
+      : createFileCollection<T>(path.join(process.env.STORAGE_DIR || ".data", name));
+
+  collections.set(name, collection as Collection<unknown>);
+  return collection;
+}
+
+/** Generate a random, URL-safe document id */
+export function newId(): string {
+  return crypto.randomUUID().replace(/-/g, "");
+}
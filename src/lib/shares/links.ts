@@ -0,0 +1,24 @@
+import type { ShareLink, ShareStatus } from "./types";
+
+/**
+ * Pure share link helpers, shared by the API routes, the server store and the
+ * share management UI.
+ */
+
+export function shareStatus(share: ShareLink, now = new Date()): ShareStatus {
+  if (share.revokedAt) return "revoked";
+  if (share.expiresAt && new Date(share.expiresAt) <= now) return "expired";
+  return "active";
+}
+
+/**
+ * Parse a requested expiry: null (or missing) for a link that never expires,
+ * otherwise an ISO timestamp in the future. Returns undefined when invalid.
+ */
+export function parseExpiresAt(value: unknown): string | null | undefined {
+  if (value === undefined || value === null) return null;
+  if (typeof value !== "string") return undefined;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime()) || date <= new Date()) return undefined;
+  return date.toISOString();
+}
@@ -0,0 +1,95 @@
+import { getCollection, newId } from "@/lib/server/storage";
+import { Workspace, assertCan } from "@/lib/auth/workspace";
+import { getProject } from "@/lib/projects/store";
+import { shareStatus } from "./links";
+import type { CreateShareInput, ShareLink, SharedProject, UpdateShareInput } from "./types";
+
+/**
+ * Server-side share link store. Links are managed from the workspace that owns
+ * the project they point to (viewers can list them but not create, change or
+ * revoke them); resolving a token is the only unauthenticated operation.
+ */
+
+const shares = () => getCollection<ShareLink>("shares");
+
+export async function listShares(workspace: Workspace, projectId: string): Promise<ShareLink[] | null> {
+  if (!(await getProject(workspace, projectId))) return null;
+  const all = await shares().list();
+  return all
+    .filter(s => s.projectId === projectId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function createShare(
+  workspace: Workspace,
+  projectId: string,
+  input: CreateShareInput
+): Promise<ShareLink | null> {
+  if (!(await getProject(workspace, projectId))) return null;
+  assertCan(workspace, "shareProjects");
+
+  const share: ShareLink = {
+    // Two ids give 244 random bits, so tokens cannot be guessed
+    token: `${newId()}${newId()}`,
+    projectId,
+    ownerId: workspace.userId,
+    orgId: workspace.orgId,
+    createdAt: new Date().toISOString(),
+    expiresAt: input.expiresAt,
+    revokedAt: null,
+  };
+  await shares().put(share.token, share);
+  return share;
+}
+
+async function getWorkspaceShare(workspace: Workspace, projectId: string, token: string): Promise<ShareLink | null> {
+  const share = await shares().get(token);
+  if (!share || share.projectId !== projectId) return null;
+  if (!(await getProject(workspace, projectId))) return null;
+  assertCan(workspace, "shareProjects");
+  return share;
+}
+
+export async function updateShare(
+  workspace: Workspace,
+  projectId: string,
+  token: string,
+  patch: UpdateShareInput
+): Promise<ShareLink | null> {
+  const share = await getWorkspaceShare(workspace, projectId, token);
+  if (!share) return null;
+
+  const updated: ShareLink = { ...share, expiresAt: patch.expiresAt };
+  await shares().put(token, updated);
+  return updated;
+}
+
+/** Revoked links are kept so the workspace can see they existed */
+export async function revokeShare(workspace: Workspace, projectId: string, token: string): Promise<ShareLink | null> {
+  const share = await getWorkspaceShare(workspace, projectId, token);
+  if (!share) return null;
+  if (share.revokedAt) return share;
+
+  const revoked: ShareLink = { ...share, revokedAt: new Date().toISOString() };
+  await shares().put(token, revoked);
+  return revoked;
+}
+
+/**
+ * Look up the project behind a public token. Returns null for unknown, revoked
+ * or expired links, and for links whose project has since been deleted.
+ */
+export async function resolveShare(token: string): Promise<{ share: ShareLink; project: SharedProject } | null> {
+  const share = await shares().get(token);
+  if (!share || shareStatus(share) !== "active") return null;
+
+  // Read the project as the workspace the link was created in
+  const project = await getProject(
+    { userId: share.ownerId, orgId: share.orgId ?? null, role: "viewer" },
+    share.projectId
+  );
+  if (!project) return null;
+
+  const { title, strategy, result } = project;
+  return { share, project: { title, strategy, result } };
+}
@@ -0,0 +1,29 @@
+import type { Project } from "@/lib/projects/types";
+
+/** A read-only link to a saved project, usable without an account */
+export interface ShareLink {
+  /** Unguessable token, also the document id */
+  token: string;
+  projectId: string;
+  /** User id of whoever created the link */
+  ownerId: string;
+  /** Organization the project belonged to when shared, or null if personal */
+  orgId: string | null;
+  /** ISO timestamps; `expiresAt` is null for links that never expire */
+  createdAt: string;
+  expiresAt: string | null;
+  revokedAt: string | null;
+}
+
+export type ShareStatus = "active" | "expired" | "revoked";
+
+export interface CreateShareInput {
+  expiresAt: string | null;
+}
+
+export interface UpdateShareInput {
+  expiresAt: string | null;
+}
+
+/** What a share link exposes: the analysis, without owner or workspace details */
+export type SharedProject = Pick<Project, "title" | "strategy" | "result">;
@@ -0,0 +1,58 @@
+import { requestJson } from "@/lib/http";
+import type { MapperResult } from "@/lib/material-mapper/types";
+import type { StageTimings } from "@/lib/material-mapper/timeline";
+import { stageDurations } from "./metrics";
+import type { BudgetStatus, LogUsageInput, UsageRecord, UsageScope, UsageSource, UsageSummary } from "./types";
+
+/**
+ * Browser client for the `/api/usage` routes.
+ */
+
+export async function fetchUsage(scope: UsageScope): Promise<{ summary: UsageSummary; budget: BudgetStatus }> {
+  return requestJson(`/api/usage?scope=${scope}`);
+}
+
+export async function logUsage(input: LogUsageInput): Promise<UsageRecord> {
+  const { record } = await requestJson<{ record: UsageRecord }>("/api/usage", {
+    method: "POST",
+    body: JSON.stringify(input),
+  });
+  return record;
+}
+
+export async function fetchBudgetStatus(): Promise<BudgetStatus> {
+  const { budget } = await requestJson<{ budget: BudgetStatus }>("/api/usage/budget");
+  return budget;
+}
+
+export async function updateBudget(monthlyUsd: number | null): Promise<BudgetStatus> {
+  const { budget } = await requestJson<{ budget: BudgetStatus }>("/api/usage/budget", {
+    method: "PUT",
+    body: JSON.stringify({ monthlyUsd }),
+  });
+  return budget;
+}
+
+/** Confirmation shown before starting a run once the monthly allowance is used up */
+export function overBudgetMessage(budget: BudgetStatus): string {
+  return (
+    `You've spent $${budget.spentUsd.toFixed(2)} of your $${budget.monthlyUsd?.toFixed(2)} ` +
+    `monthly analysis budget. Run anyway?`
+  );
+}
+
+/** Log a finished run's cost and stage latency */
+export function logMapperRun(
+  strategy: string,
+  source: UsageSource,
+  result: MapperResult,
+  timings: StageTimings
+): Promise<UsageRecord> {
+  return logUsage({
+    strategy,
+    source,
+    costUsd: result.cost_usd,
+    processingTimeMs: result.processing_time_ms,
+    stageMs: stageDurations(timings),
+  });
+}
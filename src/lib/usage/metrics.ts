@@ -0,0 +1,84 @@
+import { PIPELINE_STAGES, PipelineStage, StageTimings, stageSpans } from "@/lib/material-mapper/timeline";
+import type { DailyUsage, StrategyUsage, UsageRecord, UsageSummary } from "./types";
+
+/**
+ * Pure usage helpers: stage latency of a run, and aggregating logged runs for
+ * the usage page and budget checks.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Duration of each stage, from its span in the run */
+export function stageDurations(timings: StageTimings): Partial<Record<PipelineStage, number>> {
+  return Object.fromEntries(
+    Object.entries(stageSpans(timings)).map(([stage, span]) => [stage, span.end - span.start])
+  );
+}
+
+/** Calendar month (UTC) of a date, e.g. "2026-10" */
+export const monthOf = (date: Date | string) => new Date(date).toISOString().slice(0, 7);
+
+const dayOf = (date: Date | string) => new Date(date).toISOString().slice(0, 10);
+
+export function monthlySpend(records: UsageRecord[], month: string): number {
+  return records.filter(r => monthOf(r.createdAt) === month).reduce((sum, r) => sum + r.costUsd, 0);
+}
+
+const average = (values: number[]) =>
+  values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null;
+
+/**
+ * Aggregate runs for the usage page: daily runs and cumulative spend over the
+ * last `days` days, average stage latency and the most expensive strategies.
+ */
+export function summarizeUsage(records: UsageRecord[], now = new Date(), days = 30, top = 10): UsageSummary {
+  const sorted = [...records].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+  const byDay = new Map<string, DailyUsage>();
+  for (let i = days - 1; i >= 0; i--) {
+    const date = dayOf(new Date(now.getTime() - i * DAY_MS));
+    byDay.set(date, { date, runs: 0, costUsd: 0, cumulativeUsd: 0 });
+  }
+  const firstDay = byDay.keys().next().value ?? dayOf(now);
+
+  // Spend before the window still counts towards the cumulative total
+  let cumulative = 0;
+  for (const record of sorted) {
+    const day = byDay.get(dayOf(record.createdAt));
+    if (day) {
+      day.runs++;
+      day.costUsd += record.costUsd;
+    } else if (dayOf(record.createdAt) < firstDay) {
+      cumulative += record.costUsd;
+    }
+  }
+  const daily = [...byDay.values()].map(day => {
+    cumulative += day.costUsd;
+    return { ...day, cumulativeUsd: cumulative };
+  });
+
+  const stageAvgMs = Object.fromEntries(
+    PIPELINE_STAGES.map(stage => [
+      stage,
+      average(records.flatMap(r => (r.stageMs[stage] !== undefined ? [r.stageMs[stage]!] : []))),
+    ])
+  ) as Record<PipelineStage, number | null>;
+
+  const strategies = new Map<string, StrategyUsage>();
+  for (const record of records) {
+    const key = record.strategy.trim();
+    const entry = strategies.get(key) ?? { strategy: key, runs: 0, costUsd: 0 };
+    entry.runs++;
+    entry.costUsd += record.costUsd;
+    strategies.set(key, entry);
+  }
+
+  return {
+    runs: records.length,
+    costUsd: records.reduce((sum, r) => sum + r.costUsd, 0),
+    avgProcessingMs: average(records.map(r => r.processingTimeMs)),
+    daily,
+    stageAvgMs,
+    topStrategies: [...strategies.values()].sort((a, b) => b.costUsd - a.costUsd).slice(0, top),
+  };
+}
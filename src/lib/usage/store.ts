@@ -0,0 +1,70 @@
+import { getCollection, newId } from "@/lib/server/storage";
+import { Workspace, assertCan } from "@/lib/auth/workspace";
+import { monthOf, monthlySpend } from "./metrics";
+import type { BudgetStatus, LogUsageInput, UsageBudget, UsageRecord, UsageScope } from "./types";
+
+/**
+ * Server-side usage log and budgets. Runs are logged per user and per
+ * workspace; budgets are a soft monthly allowance per user, set by the
+ * workspace admins and falling back to `USAGE_MONTHLY_BUDGET_USD`.
+ */
+
+const usage = () => getCollection<UsageRecord>("usage");
+const budgets = () => getCollection<UsageBudget>("budgets");
+
+const budgetId = (workspace: Workspace) => workspace.orgId ?? workspace.userId;
+
+function inWorkspace(record: UsageRecord, workspace: Workspace): boolean {
+  return workspace.orgId
+    ? record.orgId === workspace.orgId
+    : !record.orgId && record.userId === workspace.userId;
+}
+
+function defaultBudget(): number | null {
+  const value = Number(process.env.USAGE_MONTHLY_BUDGET_USD);
+  return value > 0 ? value : null;
+}
+
+export async function logUsage(workspace: Workspace, input: LogUsageInput): Promise<UsageRecord> {
+  assertCan(workspace, "runAnalyses");
+  const record: UsageRecord = {
+    id: newId(),
+    userId: workspace.userId,
+    orgId: workspace.orgId,
+    ...input,
+    createdAt: new Date().toISOString(),
+  };
+  await usage().put(record.id, record);
+  return record;
+}
+
+/** Runs in the workspace, either the user's own or everyone's */
+export async function listUsage(workspace: Workspace, scope: UsageScope): Promise<UsageRecord[]> {
+  const all = await usage().list();
+  return all.filter(r => inWorkspace(r, workspace) && (scope === "workspace" || r.userId === workspace.userId));
+}
+
+export async function getBudgetStatus(workspace: Workspace, now = new Date()): Promise<BudgetStatus> {
+  const [budget, records] = await Promise.all([budgets().get(budgetId(workspace)), listUsage(workspace, "me")]);
+  const month = monthOf(now);
+  const spentUsd = monthlySpend(records, month);
+  const monthlyUsd = budget?.monthlyUsd ?? defaultBudget();
+  return { month, spentUsd, monthlyUsd, exceeded: monthlyUsd !== null && spentUsd >= monthlyUsd };
+}
+
+/** Set the workspace's per-user allowance; null falls back to the default */
+export async function setBudget(workspace: Workspace, monthlyUsd: number | null): Promise<BudgetStatus> {
+  assertCan(workspace, "manageBudgets");
+  const id = budgetId(workspace);
+  if (monthlyUsd === null) {
+    await budgets().delete(id);
+  } else {
+    await budgets().put(id, {
+      id,
+      monthlyUsd,
+      updatedBy: workspace.userId,
+      updatedAt: new Date().toISOString(),
+    });
+  }
+  return getBudgetStatus(workspace);
+}
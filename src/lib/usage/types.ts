@@ -0,0 +1,76 @@
+import type { PipelineStage } from "@/lib/material-mapper/timeline";
+
+export type UsageSource = "mapper" | "batch";
+
+/** One completed Material Mapper run, as billed by the agent */
+export interface UsageRecord {
+  id: string;
+  /** User who started the run */
+  userId: string;
+  /** Clerk organization the run was made in, or null for the personal workspace */
+  orgId: string | null;
+  strategy: string;
+  source: UsageSource;
+  costUsd: number;
+  processingTimeMs: number;
+  /** Duration of each stage, from the `elapsed_ms` on its stream events */
+  stageMs: Partial<Record<PipelineStage, number>>;
+  /** ISO timestamp */
+  createdAt: string;
+}
+
+export interface LogUsageInput {
+  strategy: string;
+  source: UsageSource;
+  costUsd: number;
+  processingTimeMs: number;
+  stageMs: Partial<Record<PipelineStage, number>>;
+}
+
+/** Soft monthly allowance per user, set for a workspace by its admins */
+export interface UsageBudget {
+  /** Organization id, or the user id for a personal workspace */
+  id: string;
+  monthlyUsd: number;
+  updatedBy: string;
+  /** ISO timestamp */
+  updatedAt: string;
+}
+
+/** The signed-in user's spend this month against their allowance */
+export interface BudgetStatus {
+  /** Calendar month (UTC), e.g. "2026-10" */
+  month: string;
+  spentUsd: number;
+  /** Null when no budget applies */
+  monthlyUsd: number | null;
+  exceeded: boolean;
+}
+
+export type UsageScope = "me" | "workspace";
+
+export interface DailyUsage {
+  /** UTC date, e.g. "2026-10-19" */
+  date: string;
+  runs: number;
+  costUsd: number;
+  /** Spend up to and including this day */
+  cumulativeUsd: number;
+}
+
+export interface StrategyUsage {
+  strategy: string;
+  runs: number;
+  costUsd: number;
+}
+
+export interface UsageSummary {
+  runs: number;
+  costUsd: number;
+  avgProcessingMs: number | null;
+  /** One entry per day of the reporting window, oldest first */
+  daily: DailyUsage[];
+  stageAvgMs: Record<PipelineStage, number | null>;
+  /** Strategies by total spend, most expensive first */
+  topStrategies: StrategyUsage[];
+}
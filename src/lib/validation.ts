@@ -0,0 +1,94 @@
+/**
+ * Tiny runtime validators for JSON payloads coming from the network or from files.
+ *
+ * A validator takes an unknown value and the path it was found at, and either
+ * returns the typed value or throws a `ValidationError` naming the offending path:
+ *
+ * @example
+ * const point = object({ x: number, y: number, label: optional(string) });
+ * point(JSON.parse(raw), "point"); // throws "point.x: expected number"
+ */
+
+export class ValidationError extends Error {
+  constructor(
+    public readonly path: string,
+    public readonly expected: string
+  ) {
+    super(`${path}: expected ${expected}`);
+    this.name = "ValidationError";
+  }
+}
+
+export type Validator<T> = (value: unknown, path: string) => T;
+
+export const string: Validator<string> = (value, path) => {
+  if (typeof value !== "string") throw new ValidationError(path, "string");
+  return value;
+};
+
+export const number: Validator<number> = (value, path) => {
+  if (typeof value !== "number" || Number.isNaN(value)) throw new ValidationError(path, "number");
+  return value;
+};
+
+export const boolean: Validator<boolean> = (value, path) => {
+  if (typeof value !== "boolean") throw new ValidationError(path, "boolean");
+  return value;
+};
+
+export function oneOf<T extends string>(values: readonly T[]): Validator<T> {
+  return (value, path) => {
+    if (!values.includes(value as T)) {
+      throw new ValidationError(path, `one of ${values.map(v => `"${v}"`).join(", ")}`);
+    }
+    return value as T;
+  };
+}
+
+/** Accept `undefined` (or `null`) as a missing value */
+export function optional<T>(validator: Validator<T>): Validator<T | undefined> {
+  return (value, path) => (value === undefined || value === null ? undefined : validator(value, path));
+}
+
+/** Substitute a default for a missing value */
+export function withDefault<T>(validator: Validator<T>, fallback: T): Validator<T> {
+  return (value, path) => (value === undefined || value === null ? fallback : validator(value, path));
+}
+
+export function arrayOf<T>(validator: Validator<T>): Validator<T[]> {
+  return (value, path) => {
+    if (!Array.isArray(value)) throw new ValidationError(path, "array");
+    return value.map((item, i) => validator(item, `${path}[${i}]`));
+  };
+}
+
+export function recordOf<T>(validator: Validator<T>): Validator<Record<string, T>> {
+  return (value, path) => {
+    if (!isPlainObject(value)) throw new ValidationError(path, "object");
+    const result: Record<string, T> = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = validator(item, `${path}.${key}`);
+    }
+    return result;
+  };
+}
+
+type Shape = Record<string, Validator<unknown>>;
+type Infer<S extends Shape> = { [K in keyof S]: ReturnType<S[K]> };
+
+/** Validate the listed keys of an object; unknown keys are dropped */
+export function object<S extends Shape>(shape: S): Validator<Infer<S>> {
+  return (value, path) => {
+    if (!isPlainObject(value)) throw new ValidationError(path, "object");
+    const result: Record<string, unknown> = {};
+    for (const [key, validator] of Object.entries(shape)) {
+      const item = validator(value[key], `${path}.${key}`);
+      if (item !== undefined) result[key] = item;
+    }
+    return result as Infer<S>;
+  };
+}
+
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -1,14 +1,21 @@
-import { clerkMiddleware, createRouteMatcher } from "@clerk/nextjs/server";
-
-const isPublicRoute = createRouteMatcher([
-  "/",
-  "/sign-in(.*)",
-  "/sign-up(.*)",
-]);
+import { NextResponse } from "next/server";
+import { clerkMiddleware } from "@clerk/nextjs/server";
+import { can, workspaceRole } from "@/lib/auth/roles";
+import { isAnalysisRoute, isProjectApiRoute, isPublicRoute } from "@/lib/auth/routes";
 
 export default clerkMiddleware(async (auth, request) => {
-  if (!isPublicRoute(request)) {
-    await auth.protect();
+  if (isPublicRoute(request)) return;
+
+  const { orgId, orgRole } = await auth.protect();
+  const role = workspaceRole(orgId, orgRole);
+
+  // Viewers can browse their workspace's projects but not run or change anything.
+  // The project store enforces the same rules; this just fails early.
+  if (isAnalysisRoute(request) && !can(role, "runAnalyses")) {
+    return NextResponse.redirect(new URL("/dashboard/projects", request.url));
+  }
+  if (isProjectApiRoute(request) && request.method !== "GET" && !can(role, "editProjects")) {
+    return NextResponse.json({ error: "Your workspace role is read-only" }, { status: 403 });
   }
 });
 